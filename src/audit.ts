@@ -0,0 +1,206 @@
+/**
+ * Append-only audit log of tool calls.
+ *
+ * Every tool call is written as one JSON line to TAVUS_AUDIT_LOG (default
+ * ~/.tavus-mcp/audit.jsonl) with its arguments, the Tavus requests it sent
+ * (method, path, status, latency), the IDs Tavus returned and the MCP
+ * client that made it. Secret-looking keys, including the x-api-key header
+ * and an LLM api_key inside persona layers, are redacted before anything
+ * is written.
+ *
+ * The file is rotated once it passes TAVUS_AUDIT_MAX_BYTES (default 10 MB):
+ * audit.jsonl becomes audit.jsonl.1, and so on up to TAVUS_AUDIT_MAX_FILES
+ * (default 5) rotated files.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { mkdirSync } from 'node:fs';
+import { appendFile, rename, rm, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { redactSecrets } from './ledger.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** When this attempt was sent, for the audit log */
+    auditStartedAt?: number;
+  }
+}
+
+const AUDIT_FILE = 'audit.jsonl';
+
+export interface AuditOptions {
+  file: string;
+  maxBytes: number;
+  maxFiles: number;
+}
+
+export interface AuditRequest {
+  method: string;
+  path: string;
+  status?: number;
+  error?: string;
+  cached?: boolean;
+  duration_ms: number;
+  headers: Record<string, unknown>;
+}
+
+export interface AuditClient {
+  name?: string;
+  version?: string;
+  session?: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  profile?: string;
+  client: AuditClient;
+  arguments: unknown;
+  requests: AuditRequest[];
+  resource_ids: Record<string, string[]>;
+  duration_ms: number;
+  outcome: 'ok' | 'error';
+  error?: string;
+}
+
+// What the requests of one tool call did, collected as they complete
+export interface AuditCall {
+  requests: AuditRequest[];
+  resource_ids: Record<string, string[]>;
+}
+
+function positiveFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Reads the audit log location and rotation limits. Returns undefined when
+ * TAVUS_AUDIT_LOG is set to false, which turns the log off.
+ */
+export function auditOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuditOptions | undefined {
+  const setting = env.TAVUS_AUDIT_LOG ?? '';
+  if (['0', 'false', 'no', 'off'].includes(setting.toLowerCase())) {
+    return undefined;
+  }
+  return {
+    file: setting || join(env.TAVUS_LEDGER_DIR || join(homedir(), '.tavus-mcp'), AUDIT_FILE),
+    maxBytes: positiveFromEnv(env.TAVUS_AUDIT_MAX_BYTES, 10 * 1024 * 1024),
+    maxFiles: Math.floor(positiveFromEnv(env.TAVUS_AUDIT_MAX_FILES, 5)),
+  };
+}
+
+const callLog = new AsyncLocalStorage<AuditCall>();
+
+/**
+ * Runs a tool call while collecting every Tavus request it sends into
+ * `call`.
+ */
+export function trackRequests<T>(call: AuditCall, fn: () => Promise<T>): Promise<T> {
+  return callLog.run(call, fn);
+}
+
+function describeRequest(config: InternalAxiosRequestConfig, response?: AxiosResponse, error?: AxiosError): AuditRequest {
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    path: config.url ?? '',
+    status: response?.status ?? error?.response?.status,
+    error: response || error?.response ? undefined : error?.code ?? error?.message,
+    cached: config.cacheHit,
+    duration_ms: config.auditStartedAt === undefined ? 0 : Date.now() - config.auditStartedAt,
+    headers: redactSecrets(config.headers?.toJSON?.() ?? config.headers ?? {}) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Records each request attempt of the tool call in progress. Installed
+ * before the retry policy so every retry is its own record.
+ */
+export function installAuditObserver(instance: AxiosInstance): void {
+  instance.interceptors.request.use((config) => {
+    config.auditStartedAt = Date.now();
+    return config;
+  });
+  instance.interceptors.response.use(
+    (response) => {
+      const call = callLog.getStore();
+      if (call) {
+        call.requests.push(describeRequest(response.config, response));
+        if (response.config.method !== 'get') addResultingIds(call.resource_ids, response.data);
+      }
+      return response;
+    },
+    (error) => {
+      if (error instanceof AxiosError && error.config) {
+        callLog.getStore()?.requests.push(describeRequest(error.config, undefined, error));
+      }
+      return Promise.reject(error);
+    }
+  );
+}
+
+/**
+ * Adds the top-level *_id fields of a response to a request that changed
+ * something, which are the IDs the call created or affected.
+ */
+export function addResultingIds(ids: Record<string, string[]>, body: unknown): void {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return;
+  for (const [key, value] of Object.entries(body)) {
+    if (!key.endsWith('_id') || typeof value !== 'string') continue;
+    ids[key] ??= [];
+    if (!ids[key].includes(value)) ids[key].push(value);
+  }
+}
+
+export class AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly options: AuditOptions) {
+    mkdirSync(dirname(options.file), { recursive: true });
+  }
+
+  /**
+   * Appends an entry with its secrets redacted. Writes are queued so
+   * entries never interleave; a failed write is reported but never fails
+   * the tool call.
+   */
+  write(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(redactSecrets(entry))}\n`;
+    this.writing = this.writing
+      .then(async () => {
+        await this.rotateIfNeeded(Buffer.byteLength(line));
+        await appendFile(this.options.file, line, { mode: 0o600 });
+      })
+      .catch((error) => console.error('[Audit Error]', error));
+    return this.writing;
+  }
+
+  /**
+   * Resolves once every pending write has reached the disk.
+   */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private async rotateIfNeeded(incoming: number): Promise<void> {
+    const { file, maxBytes, maxFiles } = this.options;
+    let size: number;
+    try {
+      size = (await stat(file)).size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    if (size === 0 || size + incoming <= maxBytes) return;
+
+    await rm(`${file}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await rename(`${file}.${index}`, `${file}.${index + 1}`).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    }
+    await rename(file, `${file}.1`);
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Batch video generation for personalized outreach.
+ *
+ * A batch is a script template with {{placeholders}} plus a list of
+ * recipients, given as CSV text or as JSON objects. Every row is rendered
+ * and checked up front; only when all rows are valid are the videos
+ * submitted, a few at a time, and the outcome of each row is collected into
+ * a manifest.
+ */
+
+import { JsonSchema } from './validation.js';
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+export const MAX_BATCH_ROWS = 500;
+
+// Longest rendered script accepted unless the call sets max_script_length
+export const DEFAULT_MAX_SCRIPT_LENGTH = 5000;
+
+// Fields a recipient row may set directly on its video instead of using as a variable
+export const ROW_OVERRIDE_FIELDS = ['video_name', 'background_url', 'callback_url'] as const;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+export type Recipient = Record<string, string>;
+
+export interface BatchOptions {
+  replica_id: string;
+  script_template: string;
+  recipients_csv?: string;
+  recipients?: Record<string, unknown>[];
+  video_name?: string;
+  background_url?: string;
+  callback_url?: string;
+  fast?: boolean;
+  max_script_length?: number;
+}
+
+export interface PlannedRow {
+  row: number;
+  recipient: Recipient;
+  request?: Record<string, unknown>;
+  errors: string[];
+}
+
+export interface ManifestEntry {
+  row: number;
+  video_name?: string;
+  video_id?: string;
+  status: string;
+  hosted_url?: string;
+  error?: string;
+}
+
+export function batchProperties(): Record<string, JsonSchema> {
+  return {
+    replica_id: {
+      type: 'string',
+      description: 'Replica that presents every video',
+    },
+    script_template: {
+      type: 'string',
+      description: 'Script with {{placeholders}} filled from each recipient row, e.g. "Hi {{first_name}}, ..."',
+    },
+    recipients_csv: {
+      type: 'string',
+      description: 'Recipients as CSV text; the header row names the template variables',
+    },
+    recipients: {
+      type: 'array',
+      description: 'Recipients as JSON objects whose keys are template variables',
+      items: { type: 'object' },
+    },
+    video_name: {
+      type: 'string',
+      description: 'Name template for each video (rows may override it with a video_name column)',
+    },
+    background_url: {
+      type: 'string',
+      description: 'Website URL to use as background (rows may override it with a background_url column)',
+    },
+    callback_url: {
+      type: 'string',
+      description: 'URL to receive completion callbacks (rows may override it with a callback_url column)',
+    },
+    fast: {
+      type: 'boolean',
+      description: 'Use fast rendering (limited features)',
+    },
+    concurrency: {
+      type: 'integer',
+      description: `Videos submitted at once (default ${DEFAULT_BATCH_CONCURRENCY})`,
+      minimum: 1,
+      maximum: MAX_BATCH_CONCURRENCY,
+    },
+    max_script_length: {
+      type: 'integer',
+      description: `Reject rows whose rendered script is longer than this many characters (default ${DEFAULT_MAX_SCRIPT_LENGTH})`,
+      minimum: 1,
+    },
+    dry_run: {
+      type: 'boolean',
+      description: 'Validate and render every row without submitting anything',
+    },
+  };
+}
+
+/**
+ * Parses CSV text (RFC 4180 quoting, comma separated, header row first)
+ * into one object per data row. Blank lines are skipped.
+ */
+export function parseCsv(text: string): Recipient[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const rows = records.filter((fields) => fields.some((value) => value.trim() !== ''));
+  if (rows.length === 0) {
+    return [];
+  }
+  const header = rows[0].map((name) => name.trim());
+  return rows.slice(1).map((fields, index) => {
+    if (fields.length !== header.length) {
+      throw new Error(`CSV row ${index + 1} has ${fields.length} fields but the header has ${header.length}`);
+    }
+    return Object.fromEntries(header.map((name, column) => [name, fields[column].trim()]));
+  });
+}
+
+/**
+ * Fills {{placeholders}} from `variables`, collecting the names of any that
+ * are missing or empty.
+ */
+export function renderTemplate(template: string, variables: Recipient): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+  const text = template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const value = variables[name];
+    if (value === undefined || value === '') {
+      missing.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+  return { text, missing: [...missing] };
+}
+
+function toRecipient(value: Record<string, unknown>): Recipient {
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, field]) => field !== undefined && field !== null)
+      .map(([key, field]) => [key, typeof field === 'string' ? field : String(field)])
+  );
+}
+
+/**
+ * Reads the recipient list from either CSV text or JSON objects.
+ */
+export function loadRecipients(options: Pick<BatchOptions, 'recipients_csv' | 'recipients'>): Recipient[] {
+  if (options.recipients_csv !== undefined && options.recipients !== undefined) {
+    throw new Error('Pass either recipients_csv or recipients, not both');
+  }
+  const recipients = options.recipients !== undefined
+    ? options.recipients.map(toRecipient)
+    : parseCsv(options.recipients_csv ?? '');
+  if (recipients.length === 0) {
+    throw new Error('The recipient list is empty');
+  }
+  if (recipients.length > MAX_BATCH_ROWS) {
+    throw new Error(`A batch can have at most ${MAX_BATCH_ROWS} recipients, got ${recipients.length}`);
+  }
+  return recipients;
+}
+
+/**
+ * Renders the generate_video request for every recipient and records what
+ * is wrong with each row. Rows are numbered from 1.
+ */
+export function planBatch(options: BatchOptions, recipients: Recipient[]): PlannedRow[] {
+  const maxLength = options.max_script_length ?? DEFAULT_MAX_SCRIPT_LENGTH;
+
+  return recipients.map((recipient, index) => {
+    const errors: string[] = [];
+    const script = renderTemplate(options.script_template, recipient);
+    if (script.missing.length > 0) {
+      errors.push(`missing value for ${script.missing.map((name) => `{{${name}}}`).join(', ')}`);
+    } else if (script.text.trim() === '') {
+      errors.push('script is empty');
+    } else if (script.text.length > maxLength) {
+      errors.push(`script is ${script.text.length} characters, over the limit of ${maxLength}`);
+    }
+
+    const request: Record<string, unknown> = {
+      replica_id: options.replica_id,
+      script: script.text,
+    };
+    for (const field of ROW_OVERRIDE_FIELDS) {
+      const template = recipient[field] || options[field];
+      if (!template) continue;
+      const rendered = renderTemplate(template, recipient);
+      if (rendered.missing.length > 0) {
+        errors.push(`missing value for ${rendered.missing.map((name) => `{{${name}}}`).join(', ')} in ${field}`);
+      }
+      request[field] = rendered.text;
+    }
+    if (options.fast !== undefined) {
+      request.fast = options.fast;
+    }
+
+    return {
+      row: index + 1,
+      recipient,
+      request: errors.length === 0 ? request : undefined,
+      errors,
+    };
+  });
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight, keeping the
+ * results in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,246 @@
+/**
+ * In-process cache of Tavus GET responses.
+ *
+ * Responses are kept per profile for a time that depends on the resource
+ * (TAVUS_CACHE_TTL overrides it, e.g. "personas=600,videos=30"). An asset
+ * whose status shows it is still processing is never cached, and neither
+ * is a listing that contains one, so polling always sees progress.
+ *
+ * Every non-GET request, even a failed one, invalidates what it may have
+ * changed. A request to /videos/v1/name drops /videos/v1, anything under
+ * it and every /videos listing; a POST to /videos drops only the listings.
+ *
+ * Reads made by calls that change an asset, by calls with `fresh: true`
+ * and by resource subscriptions go to Tavus, and what they fetch is
+ * stored for later reads. Set TAVUS_CACHE=false to turn the cache off.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { TERMINAL_STATUSES } from './ledger.js';
+import { JsonSchema } from './validation.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Set when the response is served from the cache */
+    cacheHit?: boolean;
+  }
+}
+
+// The least recently used entries are dropped beyond this many
+const MAX_CACHE_ENTRIES = 500;
+
+export const CACHE_TTL_SECONDS: Record<string, number> = {
+  replicas: 120,
+  videos: 60,
+  conversations: 30,
+  personas: 300,
+  lipsync: 60,
+  speech: 60,
+};
+
+export const FRESH_PROPERTY: JsonSchema = {
+  type: 'boolean',
+  description: 'Fetch from Tavus even if a cached response is available',
+};
+
+export interface CacheOptions {
+  ttlSeconds: Record<string, number>;
+}
+
+export interface ResourceStats {
+  ttl_seconds: number;
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+interface CacheEntry {
+  path: string;
+  resource: string;
+  expiresAt: number;
+  status: number;
+  headers: AxiosResponse['headers'];
+  data: unknown;
+}
+
+/**
+ * Reads per-resource TTLs from TAVUS_CACHE_TTL. Returns undefined when
+ * TAVUS_CACHE is set to false, which turns the cache off.
+ */
+export function cacheOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CacheOptions | undefined {
+  if (['0', 'false', 'no', 'off'].includes((env.TAVUS_CACHE ?? '').toLowerCase())) {
+    return undefined;
+  }
+  const ttlSeconds = { ...CACHE_TTL_SECONDS };
+  for (const part of (env.TAVUS_CACHE_TTL ?? '').split(',').map((entry) => entry.trim()).filter(Boolean)) {
+    const [resource, value = ''] = part.split('=').map((side) => side.trim());
+    const seconds = Number(value);
+    if (!(resource in CACHE_TTL_SECONDS)) {
+      throw new Error(`Invalid TAVUS_CACHE_TTL: unknown resource "${resource}" (expected one of ${Object.keys(CACHE_TTL_SECONDS).join(', ')})`);
+    }
+    if (value === '' || !Number.isFinite(seconds) || seconds < 0) {
+      throw new Error(`Invalid TAVUS_CACHE_TTL: ${resource} needs a number of seconds`);
+    }
+    ttlSeconds[resource] = seconds;
+  }
+  return { ttlSeconds };
+}
+
+const freshReads = new AsyncLocalStorage<boolean>();
+
+/**
+ * Runs `fn` with every GET it sends going to Tavus rather than the cache.
+ */
+export function readFresh<T>(fn: () => Promise<T>): Promise<T> {
+  return freshReads.run(true, fn);
+}
+
+function splitPath(url: string): string[] {
+  return url.split('?')[0].split('/').filter(Boolean);
+}
+
+function cacheKey(scope: string, config: InternalAxiosRequestConfig): string {
+  const params = Object.entries(config.params ?? {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `${scope} ${config.url ?? ''} ${JSON.stringify(params)}`;
+}
+
+function isFinished(item: unknown): boolean {
+  const status = (item as { status?: unknown } | null)?.status;
+  return typeof status !== 'string' || TERMINAL_STATUSES.includes(status);
+}
+
+// Items still being processed change on every poll, and so does a
+// listing that contains one
+function isCacheable(data: unknown, segments: string[]): boolean {
+  if (segments.length > 1) return isFinished(data);
+  const items = (data as { data?: unknown } | null)?.data;
+  return !Array.isArray(items) || items.every(isFinished);
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private stats = new Map<string, { hits: number; misses: number }>();
+  private invalidations = 0;
+
+  constructor(readonly options: CacheOptions, private now: () => number = Date.now) {}
+
+  /**
+   * Serves and stores the GET responses of one profile's client, and
+   * invalidates them after its mutations. Installed last so a cache hit
+   * skips the request budget.
+   */
+  install(instance: AxiosInstance, scope: string): void {
+    instance.interceptors.request.use((config) => {
+      if (config.method !== 'get' || freshReads.getStore()) return config;
+      const key = cacheKey(scope, config);
+      const entry = this.entries.get(key);
+      const resource = splitPath(config.url ?? '')[0] ?? '';
+      if (!entry || entry.expiresAt <= this.now()) {
+        this.entries.delete(key);
+        this.count(resource, 'misses');
+        return config;
+      }
+      this.count(resource, 'hits');
+      // Map order is insertion order: moving a hit to the end keeps the
+      // least recently used entry first in line for eviction
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      config.cacheHit = true;
+      config.adapter = async () => ({
+        data: structuredClone(entry.data),
+        status: entry.status,
+        statusText: 'OK',
+        headers: entry.headers,
+        config,
+        request: {},
+      });
+      return config;
+    });
+
+    instance.interceptors.response.use((response) => {
+      const { config } = response;
+      const segments = splitPath(config.url ?? '');
+      if (config.cacheHit || segments.length === 0) return response;
+      if (config.method !== 'get') {
+        this.invalidate(scope, segments);
+        return response;
+      }
+
+      const ttl = this.options.ttlSeconds[segments[0]];
+      if (ttl && isCacheable(response.data, segments)) {
+        this.entries.set(cacheKey(scope, config), {
+          path: `/${segments.join('/')}`,
+          resource: segments[0],
+          expiresAt: this.now() + ttl * 1000,
+          status: response.status,
+          headers: response.headers,
+          data: structuredClone(response.data),
+        });
+        if (this.entries.size > MAX_CACHE_ENTRIES) {
+          this.entries.delete(this.entries.keys().next().value!);
+        }
+      }
+      return response;
+    }, (error) => {
+      // A failed mutation may still have been applied
+      const config = error?.config as InternalAxiosRequestConfig | undefined;
+      if (config && config.method !== 'get') {
+        const segments = splitPath(config.url ?? '');
+        if (segments.length > 0) this.invalidate(scope, segments);
+      }
+      return Promise.reject(error);
+    });
+  }
+
+  /**
+   * Hit, miss and entry counts per resource.
+   */
+  report() {
+    const resources: Record<string, ResourceStats> = {};
+    for (const [resource, ttl] of Object.entries(this.options.ttlSeconds)) {
+      const counts = this.stats.get(resource) ?? { hits: 0, misses: 0 };
+      const entries = [...this.entries.values()].filter((entry) => entry.resource === resource).length;
+      resources[resource] = { ttl_seconds: ttl, ...counts, entries };
+    }
+    const hits = Object.values(resources).reduce((sum, stats) => sum + stats.hits, 0);
+    const misses = Object.values(resources).reduce((sum, stats) => sum + stats.misses, 0);
+    return {
+      hits,
+      misses,
+      hit_rate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : null,
+      entries: this.entries.size,
+      invalidations: this.invalidations,
+      resources,
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.stats.clear();
+    this.invalidations = 0;
+  }
+
+  // /videos/v1/name drops /videos/v1, /videos/v1/... and the /videos listings;
+  // /videos drops only the listings
+  private invalidate(scope: string, segments: string[]): void {
+    const list = `/${segments[0]}`;
+    const item = segments.length > 1 ? `/${segments[0]}/${segments[1]}` : undefined;
+    for (const [key, entry] of this.entries) {
+      if (!key.startsWith(`${scope} `)) continue;
+      if (entry.path === list || (item && (entry.path === item || entry.path.startsWith(`${item}/`)))) {
+        this.entries.delete(key);
+        this.invalidations++;
+      }
+    }
+  }
+
+  private count(resource: string, field: 'hits' | 'misses'): void {
+    if (!(resource in this.options.ttlSeconds)) return;
+    const counts = this.stats.get(resource) ?? { hits: 0, misses: 0 };
+    counts[field]++;
+    this.stats.set(resource, counts);
+  }
+}
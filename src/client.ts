@@ -0,0 +1,182 @@
+/**
+ * Request policy for the shared Tavus axios client.
+ *
+ * Adds a per-minute request budget and retries with exponential backoff and
+ * jitter. Idempotent requests (GET, HEAD, OPTIONS, PUT, DELETE, or any
+ * request marked `idempotent`) are retried on 429, 5xx and network errors.
+ * Other requests, such as the POST behind generate_video, are only retried
+ * when Tavus provably did not act on them: a 429 rejection or a connection
+ * that was refused before anything was sent.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Marks a non-GET request as safe to repeat */
+    idempotent?: boolean;
+    /** Number of retries already made for this request */
+    retryCount?: number;
+  }
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+// Errors raised before the request reached Tavus
+const NOT_SENT_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+// Errors where the request may or may not have been processed
+const TRANSIENT_CODES = [...NOT_SENT_CODES, 'ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE'];
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestsPerMinute?: number;
+}
+
+export interface RetryRecord {
+  method: string;
+  path: string;
+  attempt: number;
+  reason: string;
+  delay_ms: number;
+}
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Reads the retry policy from TAVUS_MAX_RETRIES, TAVUS_RETRY_BASE_MS,
+ * TAVUS_RETRY_MAX_MS and TAVUS_REQUESTS_PER_MINUTE.
+ */
+export function retryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RetryOptions {
+  const requestsPerMinute = numberFromEnv(env.TAVUS_REQUESTS_PER_MINUTE, 0);
+  return {
+    maxRetries: numberFromEnv(env.TAVUS_MAX_RETRIES, 3),
+    baseDelayMs: numberFromEnv(env.TAVUS_RETRY_BASE_MS, 500),
+    maxDelayMs: numberFromEnv(env.TAVUS_RETRY_MAX_MS, 30000),
+    requestsPerMinute: requestsPerMinute > 0 ? requestsPerMinute : undefined,
+  };
+}
+
+/**
+ * Sliding one-minute window limiting how many requests may start.
+ */
+export class RequestBudget {
+  private started: number[] = [];
+
+  constructor(private perMinute: number) {}
+
+  async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      while (this.started.length > 0 && now - this.started[0] >= 60000) {
+        this.started.shift();
+      }
+      if (this.started.length < this.perMinute) {
+        this.started.push(now);
+        return;
+      }
+      await sleep(this.started[0] + 60000 - now);
+    }
+  }
+}
+
+const retryLog = new AsyncLocalStorage<RetryRecord[]>();
+
+/**
+ * Runs a tool call while collecting the retries made by every request it
+ * sends into `records`.
+ */
+export function trackRetries<T>(records: RetryRecord[], fn: () => Promise<T>): Promise<T> {
+  return retryLog.run(records, fn);
+}
+
+export function describeRetries(records: RetryRecord[]): string {
+  const lines = records.map((record) =>
+    `- ${record.method} ${record.path}: retry ${record.attempt} after ${record.reason}, waited ${(record.delay_ms / 1000).toFixed(1)}s`
+  );
+  return `Retried ${records.length} request(s):\n${lines.join('\n')}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parses a Retry-After header given either as seconds or as an HTTP date.
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isIdempotent(config: InternalAxiosRequestConfig): boolean {
+  return config.idempotent ?? IDEMPOTENT_METHODS.includes((config.method ?? 'get').toLowerCase());
+}
+
+/**
+ * Returns why a failed request may be retried, or undefined if it must not be.
+ */
+function retryReason(error: AxiosError, config: InternalAxiosRequestConfig): string | undefined {
+  const status = error.response?.status;
+  if (status === 429) return 'HTTP 429';
+  if (error.code && NOT_SENT_CODES.includes(error.code)) return error.code;
+  if (!isIdempotent(config)) return undefined;
+  if (status !== undefined && status >= 500) return `HTTP ${status}`;
+  if (status === undefined && error.code && TRANSIENT_CODES.includes(error.code)) return error.code;
+  return undefined;
+}
+
+function backoffDelay(options: RetryOptions, attempt: number): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  // Equal jitter: half fixed, half random, so retries from parallel calls spread out
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/**
+ * Installs the request budget and retry policy on an axios instance.
+ */
+export function installRequestPolicy(instance: AxiosInstance, options: RetryOptions): void {
+  if (options.requestsPerMinute) {
+    const budget = new RequestBudget(options.requestsPerMinute);
+    instance.interceptors.request.use(async (config) => {
+      // Responses served from the cache never reach Tavus
+      if (config.cacheHit) return config;
+      await budget.acquire();
+      return config;
+    });
+  }
+
+  instance.interceptors.response.use(undefined, async (error) => {
+    if (!(error instanceof AxiosError) || !error.config) throw error;
+    const config = error.config;
+    const attempt = config.retryCount ?? 0;
+    const reason = retryReason(error, config);
+    if (!reason || attempt >= options.maxRetries) throw error;
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    // A server asking for a longer pause than we allow is treated as a hard failure
+    if (retryAfter !== undefined && retryAfter > options.maxDelayMs) throw error;
+    const delay = retryAfter ?? backoffDelay(options, attempt);
+
+    retryLog.getStore()?.push({
+      method: (config.method ?? 'get').toUpperCase(),
+      path: config.url ?? '',
+      attempt: attempt + 1,
+      reason,
+      delay_ms: Math.round(delay),
+    });
+
+    await sleep(delay);
+    config.retryCount = attempt + 1;
+    return instance.request(config);
+  });
+}
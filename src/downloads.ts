@@ -0,0 +1,399 @@
+/**
+ * Downloads of finished Tavus media to local disk.
+ *
+ * Files are written under TAVUS_DOWNLOAD_DIR (default: the server's working
+ * directory) and a requested path may not leave that directory, including
+ * through symlinks. Data is streamed into a ".part" file next to the
+ * destination, so an interrupted download resumes with an HTTP Range
+ * request on the next call. The resume carries the ETag or Last-Modified
+ * date the file host sent first as If-Range, so a file that changed in the
+ * meantime is fetched again whole rather than stitched together. A host
+ * that stops sending data for TAVUS_DOWNLOAD_TIMEOUT_SECONDS (default: 30)
+ * breaks the transfer off like a dropped connection. Once complete, the
+ * file's size and SHA-256 are returned and the hash is written to a
+ * "<file>.sha256" file in the format `sha256sum -c` reads. Existing files
+ * are only replaced when asked.
+ */
+
+import axios from 'axios';
+import { createHash } from 'node:crypto';
+import { constants, createReadStream } from 'node:fs';
+import { FileHandle, mkdir, open, realpath, rename, rm, stat } from 'node:fs/promises';
+import { basename, dirname, extname, isAbsolute, join, relative, resolve } from 'node:path';
+import { Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { JobTarget, LIPSYNC_JOB, SPEECH_JOB, VIDEO_JOB } from './polling.js';
+import { JsonSchema } from './validation.js';
+
+// How often progress is reported while a file streams in
+const PROGRESS_INTERVAL_BYTES = 1024 * 1024;
+
+const DEFAULT_DOWNLOAD_TIMEOUT_SECONDS = 30;
+
+export interface DownloadOptions {
+  root: string;
+  /** How long the file host may go without sending anything */
+  readTimeoutMs: number;
+}
+
+export interface DownloadTarget {
+  job: JobTarget;
+  urlField: string;
+  extension: string;
+}
+
+export const VIDEO_DOWNLOAD: DownloadTarget = { job: VIDEO_JOB, urlField: 'download_url', extension: '.mp4' };
+export const SPEECH_DOWNLOAD: DownloadTarget = { job: SPEECH_JOB, urlField: 'audio_url', extension: '.mp3' };
+export const LIPSYNC_DOWNLOAD: DownloadTarget = { job: LIPSYNC_JOB, urlField: 'video_url', extension: '.mp4' };
+
+export interface DownloadResult {
+  path: string;
+  bytes: number;
+  sha256: string;
+  checksum_file: string;
+  resumed_from_byte?: number;
+}
+
+export interface DownloadProgress {
+  progress: number;
+  total?: number;
+  message: string;
+}
+
+/**
+ * Raised for requests that cannot be served (`invalid`) and for transfers
+ * that broke off (`interrupted`), which the next call resumes.
+ */
+export class DownloadError extends Error {
+  constructor(message: string, public readonly kind: 'invalid' | 'interrupted') {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+export function downloadOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): DownloadOptions {
+  const timeoutSeconds = Number(env.TAVUS_DOWNLOAD_TIMEOUT_SECONDS || DEFAULT_DOWNLOAD_TIMEOUT_SECONDS);
+  if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+    throw new Error(
+      `TAVUS_DOWNLOAD_TIMEOUT_SECONDS must be a positive number, got "${env.TAVUS_DOWNLOAD_TIMEOUT_SECONDS}"`
+    );
+  }
+  return {
+    root: resolve(env.TAVUS_DOWNLOAD_DIR || process.cwd()),
+    readTimeoutMs: timeoutSeconds * 1000,
+  };
+}
+
+/**
+ * Builds the input schema properties for a download_* tool.
+ */
+export function downloadProperties(target: DownloadTarget): Record<string, JsonSchema> {
+  return {
+    [target.job.idField]: {
+      type: 'string',
+      description: `Unique identifier for the ${target.job.label}`,
+    },
+    path: {
+      type: 'string',
+      description: `File to write, relative to the download directory (default: ${target.job.label}-<id>${target.extension})`,
+    },
+    overwrite: {
+      type: 'boolean',
+      description: 'Replace the file if it already exists (default: false)',
+    },
+  };
+}
+
+/**
+ * Default file name for an asset, keeping the extension of its URL.
+ */
+export function defaultFileName(target: DownloadTarget, id: string, url: string): string {
+  let extension = '';
+  try {
+    extension = extname(new URL(url).pathname);
+  } catch {
+    // Not a parseable URL; fall back to the usual extension
+  }
+  return `${target.job.label}-${id}${/^\.[A-Za-z0-9]{1,5}$/.test(extension) ? extension : target.extension}`;
+}
+
+/**
+ * Whether `path` lies strictly inside `root`.
+ */
+export function isInside(root: string, path: string): boolean {
+  const relation = relative(root, path);
+  return relation !== '' && !relation.startsWith('..') && !isAbsolute(relation);
+}
+
+/**
+ * Resolves a requested path against the download root and creates its
+ * directory. Paths that end up outside the root are rejected.
+ */
+export async function resolveDestination(root: string, requested: string): Promise<string> {
+  const destination = resolve(root, requested);
+  if (!isInside(root, destination)) {
+    throw new DownloadError(`${requested} is outside the download directory ${root}`, 'invalid');
+  }
+
+  await mkdir(dirname(destination), { recursive: true });
+  const realRoot = await realpath(root);
+  const realDestination = join(await realpath(dirname(destination)), basename(destination));
+  if (!isInside(realRoot, realDestination)) {
+    throw new DownloadError(`${requested} resolves outside the download directory ${root}`, 'invalid');
+  }
+  return destination;
+}
+
+// Files next to the destination are opened without following a symlink
+// planted at their path, which could point outside the download directory
+const APPEND_FLAGS = constants.O_WRONLY | constants.O_CREAT | constants.O_APPEND | constants.O_NOFOLLOW;
+const REPLACE_FLAGS = constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | constants.O_NOFOLLOW;
+const READ_FLAGS = constants.O_RDONLY | constants.O_NOFOLLOW;
+
+async function openForWriting(path: string, flags: number): Promise<FileHandle> {
+  try {
+    return await open(path, flags, 0o644);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ELOOP') {
+      throw new DownloadError(`${path} is a symlink; refusing to write through it`, 'invalid');
+    }
+    throw error;
+  }
+}
+
+async function fileSize(path: string): Promise<number | undefined> {
+  try {
+    return (await stat(path)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * The validator saved next to a partial file, which a resume sends as
+ * If-Range. Only a strong ETag or a date can be used there.
+ */
+function validatorOf(headers: Record<string, unknown>): string | undefined {
+  const etag = headers.etag;
+  if (typeof etag === 'string' && etag.startsWith('"')) return etag;
+  const modified = headers['last-modified'];
+  return typeof modified === 'string' && modified !== '' ? modified : undefined;
+}
+
+async function readValidator(path: string): Promise<string | undefined> {
+  let handle;
+  try {
+    handle = await open(path, READ_FLAGS);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ELOOP') return undefined;
+    throw error;
+  }
+  try {
+    return (await handle.readFile('utf8')).trim() || undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function writeValidator(path: string, validator: string | undefined): Promise<void> {
+  if (validator === undefined) {
+    await rm(path, { force: true });
+    return;
+  }
+  const handle = await openForWriting(path, REPLACE_FLAGS);
+  try {
+    await handle.writeFile(`${validator}\n`);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function sha256File(path: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(createReadStream(path), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Aborts a transfer once the file host has sent nothing, neither headers
+ * nor data, for `ms`. Aborting `parent` aborts the transfer too.
+ */
+class IdleTimeout {
+  private controller = new AbortController();
+  private timer: NodeJS.Timeout;
+  private expired = false;
+  private forward = () => this.controller.abort(this.parent?.reason);
+
+  constructor(private ms: number, private parent?: AbortSignal) {
+    this.timer = setTimeout(() => {
+      this.expired = true;
+      this.controller.abort();
+    }, ms);
+    if (parent?.aborted) this.forward();
+    parent?.addEventListener('abort', this.forward, { once: true });
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Why the transfer was aborted, when it was the host going quiet */
+  get reason(): string | undefined {
+    return this.expired ? `no data received for ${this.ms / 1000}s` : undefined;
+  }
+
+  touch(): void {
+    this.timer.refresh();
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+    this.parent?.removeEventListener('abort', this.forward);
+  }
+}
+
+/**
+ * Streams `url` to `destination`, resuming from a partial file left by an
+ * earlier attempt at the same URL.
+ */
+export async function downloadFile(
+  url: string,
+  destination: string,
+  options: {
+    overwrite?: boolean;
+    signal?: AbortSignal;
+    readTimeoutMs?: number;
+    onProgress?: (update: DownloadProgress) => Promise<void>;
+  } = {}
+): Promise<DownloadResult> {
+  const existing = await stat(destination).catch(() => undefined);
+  if (existing?.isDirectory()) {
+    throw new DownloadError(`${destination} is a directory`, 'invalid');
+  }
+  if (existing && !options.overwrite) {
+    throw new DownloadError(`${destination} already exists; pass overwrite: true to replace it`, 'invalid');
+  }
+
+  // The query string of a signed URL changes between fetches, so only the
+  // location identifies the partial file
+  const source = new URL(url);
+  const key = createHash('sha256').update(source.origin + source.pathname).digest('hex').slice(0, 12);
+  const partial = join(dirname(destination), `.${basename(destination)}.${key}.part`);
+  const validatorFile = `${partial}.validator`;
+
+  let offset = (await fileSize(partial)) ?? 0;
+  // Without a validator there is no telling whether the file changed since
+  // the partial was written, so it is not continued
+  const previous = offset > 0 ? await readValidator(validatorFile) : undefined;
+  // Open the file before fetching: bytes that arrive while it is still
+  // being opened would be lost if the transfer breaks off straight away
+  const file = await openForWriting(partial, APPEND_FLAGS);
+  const idle = new IdleTimeout(options.readTimeoutMs ?? DEFAULT_DOWNLOAD_TIMEOUT_SECONDS * 1000, options.signal);
+  const get = (headers: Record<string, string>) => axios.get(url, {
+    responseType: 'stream',
+    signal: idle.signal,
+    headers,
+    validateStatus: (status) => status === 200 || status === 206 || status === 416,
+  });
+  let response;
+  let range: RegExpMatchArray | null;
+  let complete = false;
+  try {
+    if (offset > 0 && previous === undefined) {
+      await file.truncate(0);
+      offset = 0;
+    }
+    response = await get(offset > 0 ? { Range: `bytes=${offset}-`, 'If-Range': previous! } : {});
+
+    range = String(response.headers['content-range'] ?? '').match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+    const unsatisfiable = String(response.headers['content-range'] ?? '').match(/^bytes \*\/(\d+)$/);
+    if (offset > 0 && response.status === 416 && Number(unsatisfiable?.[1]) === offset) {
+      // An earlier attempt received every byte but stopped before renaming
+      response.data.destroy?.();
+      complete = true;
+    } else if (offset > 0 && (response.status !== 206 || Number(range?.[1]) !== offset)) {
+      // The partial file is no use if the server cannot continue it. A 200
+      // answers an If-Range naming an older file, and brings the new one
+      await file.truncate(0);
+      offset = 0;
+      range = null;
+      if (response.status !== 200) {
+        response.data.destroy?.();
+        response = await get({});
+      }
+    }
+  } catch (error) {
+    idle.clear();
+    await file.close();
+    if (idle.reason) {
+      throw new DownloadError(`The file host did not respond (${idle.reason}); call again to retry`, 'interrupted');
+    }
+    throw error;
+  }
+
+  const length = Number(response.headers['content-length']);
+  const total = complete
+    ? offset
+    : range && range[2] !== '*'
+      ? Number(range[2])
+      : Number.isFinite(length) ? offset + length : undefined;
+  const validator = validatorOf(response.headers);
+
+  let received = offset;
+  let reported = offset;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      idle.touch();
+      if (options.onProgress && received - reported >= PROGRESS_INTERVAL_BYTES) {
+        reported = received;
+        void options.onProgress({ progress: received, total, message: `Downloaded ${received} bytes` });
+      }
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    if (complete) await file.close();
+    else await pipeline(response.data, counter, file.createWriteStream(), { signal: idle.signal });
+  } catch (error) {
+    // Kept for the resume, which sends it back as If-Range
+    await writeValidator(validatorFile, validator);
+    throw new DownloadError(
+      `Download interrupted after ${(await fileSize(partial)) ?? 0} of ${total ?? 'unknown'} bytes ` +
+      `(${idle.reason ?? (error instanceof Error ? error.message : error)}); call again to resume`,
+      'interrupted'
+    );
+  } finally {
+    idle.clear();
+  }
+
+  const bytes = (await fileSize(partial)) ?? 0;
+  if (total !== undefined && bytes !== total) {
+    await writeValidator(validatorFile, validator);
+    throw new DownloadError(
+      `Download interrupted after ${bytes} of ${total} bytes; call again to resume`,
+      'interrupted'
+    );
+  }
+
+  const sha256 = await sha256File(partial);
+  const checksumFile = `${destination}.sha256`;
+  const checksum = await openForWriting(checksumFile, REPLACE_FLAGS);
+  try {
+    await rename(partial, destination);
+    await checksum.writeFile(`${sha256}  ${basename(destination)}\n`);
+  } finally {
+    await checksum.close();
+  }
+  await rm(validatorFile, { force: true });
+  return {
+    path: destination,
+    bytes,
+    sha256,
+    checksum_file: checksumFile,
+    ...(offset > 0 ? { resumed_from_byte: offset } : {}),
+  };
+}
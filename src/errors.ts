@@ -0,0 +1,218 @@
+/**
+ * Mapping from Tavus HTTP failures to MCP errors.
+ *
+ * Every error carries a diagnostics object (HTTP status, method, path, tool,
+ * resource IDs, Tavus error details and retry hints) in the McpError `data`
+ * field. When TAVUS_ERRORS_AS_RESULTS is enabled the same information is
+ * returned as an `isError` tool result instead, so the model can read it and
+ * recover rather than the call failing outright.
+ */
+
+import axios, { AxiosError } from 'axios';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { RetryRecord, parseRetryAfter } from './client.js';
+import { DEFAULT_PROFILE_NAME } from './profiles.js';
+
+export interface ErrorContext {
+  tool?: string;
+  profile?: string;
+  args?: Record<string, any>;
+  retries?: RetryRecord[];
+}
+
+export interface ErrorDiagnostics {
+  tool?: string;
+  profile?: string;
+  status?: number;
+  method?: string;
+  path?: string;
+  resource_ids?: Record<string, string>;
+  tavus_error?: string;
+  field_errors?: string[];
+  retry_after_seconds?: number;
+  retryable?: boolean;
+  retries?: number;
+  network_error?: string;
+}
+
+export function errorsAsResultsFromEnv(env: NodeJS.ProcessEnv = process.env): boolean {
+  return ['1', 'true', 'yes'].includes((env.TAVUS_ERRORS_AS_RESULTS ?? '').toLowerCase());
+}
+
+function resourceIds(args: Record<string, any> | undefined): Record<string, string> | undefined {
+  if (!args) return undefined;
+  const ids = Object.entries(args).filter(
+    ([key, value]) => key.endsWith('_id') && typeof value === 'string'
+  );
+  return ids.length > 0 ? Object.fromEntries(ids) : undefined;
+}
+
+/**
+ * Pulls the human-readable message and any per-field errors out of a Tavus
+ * error body. Tavus uses `error` or `message` for the summary and `errors`
+ * or `detail` (object or array) for validation failures.
+ */
+export function extractTavusError(body: unknown): { message?: string; fieldErrors: string[] } {
+  const fieldErrors: string[] = [];
+  if (typeof body === 'string') {
+    return { message: body.trim() || undefined, fieldErrors };
+  }
+  if (typeof body !== 'object' || body === null) {
+    return { fieldErrors };
+  }
+
+  const data = body as Record<string, any>;
+  const message = [data.error, data.message].find((value) => typeof value === 'string');
+
+  const collect = (details: unknown) => {
+    if (Array.isArray(details)) {
+      for (const entry of details) {
+        if (typeof entry === 'string') {
+          fieldErrors.push(entry);
+        } else if (entry && typeof entry === 'object') {
+          const location = Array.isArray(entry.loc) ? entry.loc.join('.') : entry.field ?? entry.path;
+          const text = entry.msg ?? entry.message ?? JSON.stringify(entry);
+          fieldErrors.push(location ? `${location}: ${text}` : String(text));
+        }
+      }
+    } else if (details && typeof details === 'object') {
+      for (const [field, value] of Object.entries(details)) {
+        const messages = Array.isArray(value) ? value.join(', ') : String(value);
+        fieldErrors.push(`${field}: ${messages}`);
+      }
+    } else if (typeof details === 'string') {
+      fieldErrors.push(details);
+    }
+  };
+  collect(data.errors);
+  collect(data.detail);
+  if (data.error && typeof data.error === 'object') collect(data.error);
+
+  return { message, fieldErrors };
+}
+
+function describeIds(ids: Record<string, string> | undefined): string {
+  if (!ids) return 'the requested resource';
+  return Object.entries(ids).map(([field, id]) => `${field} ${id}`).join(', ');
+}
+
+function fromAxiosError(error: AxiosError, context: ErrorContext): McpError {
+  const response = error.response;
+  const { message: tavusMessage, fieldErrors } = extractTavusError(response?.data);
+  const retries = context.retries?.length ?? 0;
+  const diagnostics: ErrorDiagnostics = {
+    tool: context.tool,
+    profile: context.profile,
+    status: response?.status,
+    method: error.config?.method?.toUpperCase(),
+    path: error.config?.url,
+    resource_ids: resourceIds(context.args),
+    tavus_error: tavusMessage,
+    field_errors: fieldErrors.length > 0 ? fieldErrors : undefined,
+    retries: retries > 0 ? retries : undefined,
+  };
+  const detail = tavusMessage ? `: ${tavusMessage}` : '';
+  const after = retries > 0 ? ` (after ${retries} retries)` : '';
+
+  // The SDK only forwards the error message to clients, so the request
+  // that failed is summarized there as well as in `data`
+  const request = [
+    context.profile && `profile ${context.profile}`,
+    context.tool,
+    diagnostics.method && `${diagnostics.method} ${diagnostics.path}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+  const keySource = context.profile && context.profile !== DEFAULT_PROFILE_NAME
+    ? `the API key for profile "${context.profile}"`
+    : 'TAVUS_API_KEY';
+  const fail = (code: ErrorCode, message: string) =>
+    new McpError(code, request ? `${message} [${request}]` : message, diagnostics);
+
+  if (!response) {
+    diagnostics.network_error = error.code ?? error.message;
+    diagnostics.retryable = true;
+    return fail(
+      ErrorCode.InternalError,
+      `Could not reach Tavus (${error.code ?? error.message})${after}; check network connectivity and try again`
+    );
+  }
+
+  const status = response.status;
+  switch (true) {
+    case status === 400 || status === 422: {
+      const fields = fieldErrors.length > 0 ? ` [${fieldErrors.join('; ')}]` : '';
+      return fail(
+        ErrorCode.InvalidParams,
+        `Tavus rejected the request (HTTP ${status})${detail}${fields}`
+      );
+    }
+    case status === 401 || status === 403:
+      return fail(
+        ErrorCode.InvalidRequest,
+        `Tavus denied access (HTTP ${status})${detail}. Check that ${keySource} is set to a valid, active API key with access to this resource`
+      );
+    case status === 402:
+      return fail(
+        ErrorCode.InvalidRequest,
+        `Tavus reports insufficient credits (HTTP 402)${detail}. Add credits or upgrade the plan before retrying`
+      );
+    case status === 404:
+      return fail(
+        ErrorCode.InvalidParams,
+        `Tavus could not find ${describeIds(diagnostics.resource_ids)} (HTTP 404)${detail}`
+      );
+    case status === 429: {
+      const retryAfter = parseRetryAfter(response.headers?.['retry-after']);
+      diagnostics.retryable = true;
+      if (retryAfter !== undefined) diagnostics.retry_after_seconds = Math.ceil(retryAfter / 1000);
+      const hint = retryAfter !== undefined
+        ? `retry in ${Math.ceil(retryAfter / 1000)}s`
+        : 'wait a moment before retrying';
+      return fail(
+        ErrorCode.InternalError,
+        `Tavus rate limit exceeded (HTTP 429)${after}; ${hint}`
+      );
+    }
+    case status >= 500:
+      diagnostics.retryable = true;
+      return fail(
+        ErrorCode.InternalError,
+        `Tavus service error (HTTP ${status})${detail}${after}; this is usually temporary, try again shortly`
+      );
+    default:
+      return fail(
+        ErrorCode.InternalError,
+        `Tavus API error (HTTP ${status})${detail}`
+      );
+  }
+}
+
+/**
+ * Converts any error raised while handling a request into an McpError.
+ */
+export function toMcpError(error: unknown, context: ErrorContext = {}): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (axios.isAxiosError(error)) {
+    return fromAxiosError(error, context);
+  }
+  return new McpError(ErrorCode.InternalError, `Unexpected error: ${error}`, { tool: context.tool });
+}
+
+/**
+ * Renders an McpError as an `isError` tool result.
+ */
+export function errorResult(error: McpError) {
+  const text = error.data !== undefined
+    ? `${error.message}\n\n${JSON.stringify(error.data, null, 2)}`
+    : error.message;
+  return {
+    content: [{
+      type: 'text',
+      text,
+    }],
+    isError: true,
+  };
+}
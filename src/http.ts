@@ -0,0 +1,184 @@
+/**
+ * HTTP transport for hosting a shared Tavus MCP server.
+ *
+ * Clients open an SSE stream with `GET /sse` and post JSON-RPC messages to
+ * `POST /messages?sessionId=...`. Every SSE connection gets its own MCP
+ * server instance, so subscriptions and progress notifications stay
+ * per-client while the Tavus client and callback receiver are shared.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+
+export interface TransportOptions {
+  transport: 'stdio' | 'http';
+  host: string;
+  port: number;
+  authToken?: string;
+}
+
+interface Session {
+  transport: SSEServerTransport;
+  server: Server;
+}
+
+function flagValue(argv: string[], name: string): string | undefined {
+  const index = argv.findIndex((arg) => arg === name || arg.startsWith(`${name}=`));
+  if (index === -1) return undefined;
+  const arg = argv[index];
+  return arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : argv[index + 1];
+}
+
+/**
+ * Resolves the transport from CLI flags, falling back to environment
+ * variables and then to stdio.
+ *
+ * Flags: --transport <stdio|http> (or --http), --host <host>, --port <port>
+ * Env: TAVUS_MCP_TRANSPORT, TAVUS_MCP_HOST, TAVUS_MCP_PORT, TAVUS_MCP_AUTH_TOKEN
+ */
+export function transportOptionsFromArgs(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportOptions {
+  const transport = argv.includes('--http')
+    ? 'http'
+    : flagValue(argv, '--transport') ?? env.TAVUS_MCP_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unsupported transport "${transport}"; expected "stdio" or "http"`);
+  }
+
+  const rawPort = flagValue(argv, '--port') ?? env.TAVUS_MCP_PORT;
+  const port = rawPort === undefined ? DEFAULT_HTTP_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${rawPort}"`);
+  }
+
+  return {
+    transport,
+    host: flagValue(argv, '--host') ?? env.TAVUS_MCP_HOST ?? DEFAULT_HTTP_HOST,
+    port,
+    authToken: env.TAVUS_MCP_AUTH_TOKEN || undefined,
+  };
+}
+
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true;
+  const header = req.headers.authorization ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const expected = Buffer.from(token);
+  const provided = Buffer.from(match[1].trim());
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+export class HttpTransportHost {
+  private httpServer?: HttpServer;
+  private sessions = new Map<string, Session>();
+
+  constructor(
+    private createMcpServer: () => Server,
+    private options: TransportOptions
+  ) {}
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  get address(): string {
+    const address = this.httpServer?.address();
+    const port = typeof address === 'object' && address ? address.port : this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  async start(): Promise<void> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[HTTP Error]', error);
+        if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    if (!this.options.authToken) {
+      console.error('Warning: TAVUS_MCP_AUTH_TOKEN is not set; the HTTP transport accepts unauthenticated requests');
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const { server } of [...this.sessions.values()]) {
+      await server.close();
+    }
+    this.sessions.clear();
+    if (!this.httpServer) return;
+    await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+    this.httpServer = undefined;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: this.sessions.size });
+      return;
+    }
+
+    if (!isAuthorized(req, this.options.authToken)) {
+      sendJson(res, 401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.openSession(res);
+      return;
+    }
+
+    if (url.pathname === MESSAGES_PATH && req.method === 'POST') {
+      const sessionId = url.searchParams.get('sessionId') ?? '';
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendJson(res, 404, { error: `Unknown session: ${sessionId}` });
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  }
+
+  private async openSession(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const server = this.createMcpServer();
+    const { sessionId } = transport;
+    this.sessions.set(sessionId, { transport, server });
+
+    res.on('close', () => {
+      if (this.sessions.delete(sessionId)) {
+        void server.close();
+      }
+    });
+
+    await server.connect(transport);
+  }
+}
@@ -15,24 +15,157 @@
  * - Speech Synthesis: Generate speech audio from text
  */
 
+import { realpathSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  CompleteRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import axios, { AxiosInstance, AxiosError } from 'axios';
+import {
+  CONVERSATION_LISTING,
+  LIPSYNC_LISTING,
+  PERSONA_LISTING,
+  REPLICA_LISTING,
+  SPEECH_LISTING,
+  VIDEO_LISTING,
+  listResource,
+} from './listing.js';
+import {
+  JobTarget,
+  LIPSYNC_JOB,
+  REPLICA_JOB,
+  SPEECH_JOB,
+  SUCCESS_STATUSES,
+  VIDEO_JOB,
+  WaitContext,
+  waitForJob,
+} from './polling.js';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  ManifestEntry,
+  PlannedRow,
+  loadRecipients,
+  mapWithConcurrency,
+  planBatch,
+} from './batch.js';
+import {
+  RetryRecord,
+  describeRetries,
+  installRequestPolicy,
+  retryOptionsFromEnv,
+  trackRetries,
+} from './client.js';
+import { ResponseCache, cacheOptionsFromEnv, readFresh } from './cache.js';
+import { AuditCall, AuditLog, auditOptionsFromEnv, installAuditObserver, trackRequests } from './audit.js';
+import {
+  DownloadError,
+  DownloadOptions,
+  DownloadTarget,
+  LIPSYNC_DOWNLOAD,
+  SPEECH_DOWNLOAD,
+  VIDEO_DOWNLOAD,
+  defaultFileName,
+  downloadFile,
+  downloadOptionsFromEnv,
+  resolveDestination,
+} from './downloads.js';
+import { ErrorContext, errorResult, errorsAsResultsFromEnv, toMcpError } from './errors.js';
+import { HttpTransportHost, TransportOptions, transportOptionsFromArgs } from './http.js';
+import {
+  JobLedger,
+  LEDGER_RESOURCES,
+  LedgerEntry,
+  installStatusObserver,
+  isPending,
+  ledgerOptionsFromEnv,
+  newBatchId,
+} from './ledger.js';
+import { JsonPatchError, PatchOperation, applyPatch, diff } from './json-patch.js';
+import {
+  PersonaFileOptions,
+  canonicalPersona,
+  formatPersonaFile,
+  loadPersonaFile,
+  personaDifferences,
+  personaFileOptionsFromEnv,
+  syntaxForPath,
+  writePersonaFile,
+} from './persona-files.js';
+import { desiredPersona, unrecognizedPersonaFields } from './personas.js';
+import {
+  MEDIA_REQUIREMENTS,
+  MediaKind,
+  PREFLIGHT_FIELDS,
+  PreflightOptions,
+  PreflightReport,
+  describeIssues,
+  preflightMedia,
+  preflightOptionsFromEnv,
+} from './preflight.js';
+import { ActiveProfile, ProfileRegistry, loadProfiles } from './profiles.js';
+import { CompletionSource, completionSource, getPrompt, listPrompts } from './prompts.js';
+import {
+  DEFAULT_RESOURCE_POLL_SECONDS,
+  ParsedResourceUri,
+  SubscriptionPoller,
+  listResourceTemplates,
+  listResources,
+  parseResourceUri,
+  statusFingerprint,
+} from './resources.js';
+import { MUTATING_TOOLS, SafetyPolicy, safetyOptionsFromEnv } from './safety.js';
+import { TOOLS, ToolDefinition, findTool, usesProfile } from './tools.js';
+import { Transcript, TranscriptUnavailableError, buildTranscript, formatTranscript } from './transcripts.js';
+import {
+  LOCAL_FILE_INPUTS,
+  UploadError,
+  UploadManager,
+  uploadOptionsFromEnv,
+} from './uploads.js';
+import {
+  BUDGET_WINDOWS,
+  BudgetExceededError,
+  Budgets,
+  UsageEstimate,
+  UsageHold,
+  UsageMeter,
+  UsageUnits,
+  addUnits,
+  estimateConversation,
+  estimateReplica,
+  estimateSpeech,
+  estimateVideo,
+  mergeBudgets,
+  usageOptionsFromEnv,
+} from './usage.js';
+import { validateArguments } from './validation.js';
+import { CallbackReceiver, callbackOptionsFromEnv } from './webhooks.js';
 
-// Environment variables
-const TAVUS_API_KEY = process.env.TAVUS_API_KEY;
-if (!TAVUS_API_KEY) {
-  throw new Error('TAVUS_API_KEY environment variable is required');
-}
+// Tavus API base URL; override with TAVUS_API_BASE (e.g. to use the mock server)
+const DEFAULT_TAVUS_API_BASE = 'https://tavusapi.com/v2';
 
-// Tavus API base URL
-const TAVUS_API_BASE = 'https://tavusapi.com/v2';
+// MCP caps completion results at 100 values per response
+const MAX_COMPLETION_VALUES = 100;
+
+interface PreflightResult {
+  field: string;
+  report: PreflightReport;
+}
 
 // Type definitions for Tavus API responses
 interface TavusReplica {
@@ -65,16 +198,6 @@ interface TavusConversation {
   created_at: string;
 }
 
-interface TavusPersona {
-  persona_id: string;
-  persona_name?: string;
-  replica_id?: string;
-  context?: string;
-  system_prompt?: string;
-  created_at: string;
-  updated_at: string;
-}
-
 interface TavusLipsync {
   lipsync_id: string;
   status: string;
@@ -90,12 +213,95 @@ interface TavusSpeech {
   created_at: string;
 }
 
-class TavusServer {
-  private server: Server;
-  private axiosInstance: AxiosInstance;
+export class TavusServer {
+  private profiles: ProfileRegistry;
+  // Default profile each MCP session picked with set_default_profile
+  private sessionDefaults = new WeakMap<Server, string>();
+  private callbacks?: CallbackReceiver;
+  private ledger?: JobLedger;
+  private audit?: AuditLog;
+  private cache?: ResponseCache;
+  private downloads: DownloadOptions;
+  private personaFiles: PersonaFileOptions;
+  private uploads: UploadManager;
+  private preflight: PreflightOptions;
+  private usage: UsageMeter;
+  private errorsAsResults: boolean;
+  private safety: SafetyPolicy;
+
+  /**
+   * All configuration is read from `env`, which defaults to process.env.
+   */
+  constructor(private env: NodeJS.ProcessEnv = process.env) {
+    this.errorsAsResults = errorsAsResultsFromEnv(env);
+    this.safety = new SafetyPolicy(safetyOptionsFromEnv(env));
+    this.downloads = downloadOptionsFromEnv(env);
+    this.personaFiles = personaFileOptionsFromEnv(env);
+    this.uploads = new UploadManager(uploadOptionsFromEnv(env));
+    this.preflight = preflightOptionsFromEnv(env);
+    this.usage = new UsageMeter(usageOptionsFromEnv(env));
+
+    const ledgerOptions = ledgerOptionsFromEnv(env);
+    if (ledgerOptions) {
+      this.ledger = new JobLedger(ledgerOptions);
+    }
+
+    const auditOptions = auditOptionsFromEnv(env);
+    if (auditOptions) {
+      this.audit = new AuditLog(auditOptions);
+    }
+
+    const cacheOptions = cacheOptionsFromEnv(env);
+    if (cacheOptions) {
+      this.cache = new ResponseCache(cacheOptions);
+    }
+
+    const retryOptions = retryOptionsFromEnv(env);
+    const apiBase = env.TAVUS_API_BASE || DEFAULT_TAVUS_API_BASE;
+    this.profiles = new ProfileRegistry(loadProfiles(env), (profile) => {
+      // Configure axios instance with Tavus API settings
+      const client = axios.create({
+        baseURL: profile.baseUrl ?? apiBase,
+        headers: {
+          'x-api-key': profile.apiKey,
+          'Content-Type': 'application/json',
+        },
+        timeout: 30000, // 30 second timeout
+      });
+      installAuditObserver(client);
+      installRequestPolicy(client, retryOptions);
+      installStatusObserver(client, (id, status) => {
+        this.ledger?.observe(id, status);
+        this.uploads.observe(id, status);
+        this.usage.observe(id, status);
+      });
+      this.cache?.install(client, profile.name);
+      return client;
+    });
+
+    const callbackOptions = callbackOptionsFromEnv(env);
+    if (callbackOptions) {
+      this.callbacks = new CallbackReceiver(callbackOptions, (event) => {
+        if (!event.status) return;
+        this.uploads.observe(event.id, event.status);
+        this.usage.observe(event.id, event.status);
+      });
+    }
+  }
+
+  /**
+   * The Tavus client for the profile of the tool call in progress.
+   */
+  private get axiosInstance(): AxiosInstance {
+    return this.profiles.active().client;
+  }
 
-  constructor() {
-    this.server = new Server(
+  /**
+   * Builds an MCP server with every handler registered. Stdio mode uses a
+   * single instance; HTTP mode creates one per client session.
+   */
+  createServer(): Server {
+    const server = new Server(
       {
         name: "tavus-mcp",
         version: "0.1.0",
@@ -103,688 +309,409 @@ class TavusServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+          },
+          prompts: {},
         },
       }
     );
 
-    // Configure axios instance with Tavus API settings
-    this.axiosInstance = axios.create({
-      baseURL: TAVUS_API_BASE,
-      headers: {
-        'x-api-key': TAVUS_API_KEY,
-        'Content-Type': 'application/json',
-      },
-      timeout: 30000, // 30 second timeout
-    });
+    const pollSeconds = Number(this.env.TAVUS_RESOURCE_POLL_SECONDS) || DEFAULT_RESOURCE_POLL_SECONDS;
+    const subscriptions = new SubscriptionPoller(
+      // Polling must see each change, never a cached copy
+      (uri) => this.profiles.run(this.sessionProfile(server), () => readFresh(async () => {
+        const parsed = this.parseUri(uri);
+        return statusFingerprint(parsed, await this.fetchResource(parsed));
+      })),
+      (uri) => server.sendResourceUpdated({ uri }),
+      pollSeconds * 1000
+    );
+
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server, subscriptions);
+    this.setupPromptHandlers(server);
 
-    this.setupToolHandlers();
-    
     // Error handling
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    server.onerror = (error) => console.error('[MCP Error]', error);
+    server.onclose = () => subscriptions.stop();
+    return server;
+  }
+
+  /**
+   * The profile calls of a session use when they do not name one.
+   */
+  private sessionProfile(server: Server): ActiveProfile {
+    return this.profiles.get(undefined, this.sessionDefaults.get(server));
   }
 
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server) {
     // List all available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        // Phoenix Replicas
-        {
-          name: 'create_replica',
-          description: 'Create a new AI replica from a training video',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              train_video_url: {
-                type: 'string',
-                description: 'Direct link to training video (S3, etc.)',
-              },
-              replica_name: {
-                type: 'string',
-                description: 'Name for the replica',
-              },
-              consent_video_url: {
-                type: 'string',
-                description: 'Optional separate consent video URL',
-              },
-              callback_url: {
-                type: 'string',
-                description: 'URL to receive training completion callback',
-              },
-              model_name: {
-                type: 'string',
-                description: 'Phoenix model version (phoenix-3 default)',
-                enum: ['phoenix-2', 'phoenix-3'],
-              },
-              properties: {
-                type: 'object',
-                description: 'Additional replica properties',
-                properties: {
-                  gaze_correction: { type: 'boolean' },
-                  background_green_screen: { type: 'boolean' },
-                },
-              },
-            },
-            required: ['train_video_url'],
-          },
-        },
-        {
-          name: 'get_replica',
-          description: 'Get details of a specific replica',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              replica_id: {
-                type: 'string',
-                description: 'Unique identifier for the replica',
-              },
-              verbose: {
-                type: 'boolean',
-                description: 'Include additional replica data',
-              },
-            },
-            required: ['replica_id'],
-          },
-        },
-        {
-          name: 'list_replicas',
-          description: 'List all replicas in your account',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-          },
-        },
-        {
-          name: 'delete_replica',
-          description: 'Delete a replica permanently',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              replica_id: {
-                type: 'string',
-                description: 'Unique identifier for the replica',
-              },
-            },
-            required: ['replica_id'],
-          },
-        },
-        {
-          name: 'rename_replica',
-          description: 'Rename an existing replica',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              replica_id: {
-                type: 'string',
-                description: 'Unique identifier for the replica',
-              },
-              replica_name: {
-                type: 'string',
-                description: 'New name for the replica',
-              },
-            },
-            required: ['replica_id', 'replica_name'],
-          },
-        },
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: TOOLS.filter((tool) => !this.safety.isHidden(tool.name)),
+    }));
 
-        // Video Generation
-        {
-          name: 'generate_video',
-          description: 'Generate a video using a replica and script or audio',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              replica_id: {
-                type: 'string',
-                description: 'Unique identifier for the replica',
-              },
-              script: {
-                type: 'string',
-                description: 'Text script for the video (alternative to audio_url)',
-              },
-              audio_url: {
-                type: 'string',
-                description: 'URL to audio file (.wav/.mp3) (alternative to script)',
-              },
-              video_name: {
-                type: 'string',
-                description: 'Name for the generated video',
-              },
-              background_url: {
-                type: 'string',
-                description: 'Website URL to use as background',
-              },
-              background_source_url: {
-                type: 'string',
-                description: 'Direct video URL to use as background',
-              },
-              callback_url: {
-                type: 'string',
-                description: 'URL to receive completion callback',
-              },
-              fast: {
-                type: 'boolean',
-                description: 'Use fast rendering (limited features)',
-              },
-              transparent_background: {
-                type: 'boolean',
-                description: 'Generate with transparent background (.webm)',
-              },
-              watermark_image_url: {
-                type: 'string',
-                description: 'URL to watermark image (png/jpeg)',
-              },
-              properties: {
-                type: 'object',
-                description: 'Additional video properties',
-                properties: {
-                  background_scroll: { type: 'boolean' },
-                  background_scroll_type: { type: 'string', enum: ['human', 'smooth'] },
-                  background_scroll_depth: { type: 'string', enum: ['middle', 'bottom'] },
-                  background_scroll_return: { type: 'string', enum: ['return', 'halt'] },
-                  start_with_wave: { type: 'boolean' },
-                },
-              },
-            },
-            required: ['replica_id'],
-            anyOf: [
-              { required: ['script'] },
-              { required: ['audio_url'] },
-            ],
-          },
-        },
-        {
-          name: 'get_video',
-          description: 'Get details of a specific video',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              video_id: {
-                type: 'string',
-                description: 'Unique identifier for the video',
-              },
-            },
-            required: ['video_id'],
-          },
-        },
-        {
-          name: 'list_videos',
-          description: 'List all videos in your account',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-          },
-        },
-        {
-          name: 'delete_video',
-          description: 'Delete a video permanently',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              video_id: {
-                type: 'string',
-                description: 'Unique identifier for the video',
-              },
-            },
-            required: ['video_id'],
-          },
-        },
-        {
-          name: 'rename_video',
-          description: 'Rename an existing video',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              video_id: {
-                type: 'string',
-                description: 'Unique identifier for the video',
-              },
-              video_name: {
-                type: 'string',
-                description: 'New name for the video',
-              },
-            },
-            required: ['video_id', 'video_name'],
-          },
-        },
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const retries: RetryRecord[] = [];
+      const context: ErrorContext = {
+        tool: request.params.name,
+        args: request.params.arguments,
+        retries,
+      };
+      const call: AuditCall = { requests: [], resource_ids: {} };
+      const startedAt = Date.now();
+      try {
+        const result = await trackRequests(call, () =>
+          trackRetries(retries, () => this.callTool(server, request, extra, context))
+        );
+        const failed = 'isError' in result && result.isError === true;
+        await this.writeAudit(server, request, context, call, startedAt, failed ? result.content[0]?.text : undefined);
+        if (retries.length === 0) {
+          return result;
+        }
+        return {
+          ...result,
+          content: [...result.content, { type: 'text', text: describeRetries(retries) }],
+        };
+      } catch (error) {
+        const mcpError = toMcpError(error, context);
+        await this.writeAudit(server, request, context, call, startedAt, mcpError.message);
+        if (this.errorsAsResults && mcpError.code !== ErrorCode.MethodNotFound) {
+          return errorResult(mcpError);
+        }
+        throw mcpError;
+      }
+    });
+  }
 
-        // Conversational Video Interface
-        {
-          name: 'create_conversation',
-          description: 'Create a new conversational video interface',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              replica_id: {
-                type: 'string',
-                description: 'Replica to use for the conversation',
-              },
-              persona_id: {
-                type: 'string',
-                description: 'Persona to use for the conversation',
-              },
-              conversation_name: {
-                type: 'string',
-                description: 'Name for the conversation',
-              },
-              callback_url: {
-                type: 'string',
-                description: 'URL to receive conversation events',
-              },
-              conversational_context: {
-                type: 'string',
-                description: 'Context for the conversation',
-              },
-              custom_greeting: {
-                type: 'string',
-                description: 'Custom greeting message',
-              },
-              enable_recording: {
-                type: 'boolean',
-                description: 'Enable conversation recording',
-              },
-            },
-          },
-        },
-        {
-          name: 'get_conversation',
-          description: 'Get details of a specific conversation',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              conversation_id: {
-                type: 'string',
-                description: 'Unique identifier for the conversation',
-              },
-            },
-            required: ['conversation_id'],
-          },
-        },
-        {
-          name: 'list_conversations',
-          description: 'List all conversations in your account',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-          },
-        },
-        {
-          name: 'end_conversation',
-          description: 'End an active conversation',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              conversation_id: {
-                type: 'string',
-                description: 'Unique identifier for the conversation',
-              },
-            },
-            required: ['conversation_id'],
-          },
-        },
-        {
-          name: 'delete_conversation',
-          description: 'Delete a conversation permanently',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              conversation_id: {
-                type: 'string',
-                description: 'Unique identifier for the conversation',
-              },
-            },
-            required: ['conversation_id'],
-          },
-        },
+  /**
+   * Writes a tool call to the audit log. `error` is set when the call
+   * failed or returned an error result.
+   */
+  private async writeAudit(
+    server: Server,
+    request: CallToolRequest,
+    context: ErrorContext,
+    call: AuditCall,
+    startedAt: number,
+    error?: string
+  ): Promise<void> {
+    if (!this.audit) return;
+    const client = server.getClientVersion();
+    const transport = server.transport as { sessionId?: string } | undefined;
+    const { confirm_token: _token, ...args } = request.params.arguments ?? {};
+    await this.audit.write({
+      timestamp: new Date(startedAt).toISOString(),
+      tool: request.params.name,
+      profile: context.profile,
+      client: { name: client?.name, version: client?.version, session: transport?.sessionId },
+      arguments: args,
+      requests: call.requests,
+      resource_ids: call.resource_ids,
+      duration_ms: Date.now() - startedAt,
+      outcome: error === undefined ? 'ok' : 'error',
+      error,
+    });
+  }
 
-        // Replica Personas
-        {
-          name: 'create_persona',
-          description: 'Create a new persona for conversational AI',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              persona_name: {
-                type: 'string',
-                description: 'Name for the persona',
-              },
-              replica_id: {
-                type: 'string',
-                description: 'Replica to use for this persona',
-              },
-              context: {
-                type: 'string',
-                description: 'Contextual information for the LLM',
-              },
-              system_prompt: {
-                type: 'string',
-                description: 'System prompt for the LLM',
-              },
-              layers: {
-                type: 'object',
-                description: 'Configuration layers for the persona',
-                properties: {
-                  stt: { type: 'object', description: 'Speech-to-text settings' },
-                  llm: { type: 'object', description: 'Language model settings' },
-                  tts: { type: 'object', description: 'Text-to-speech settings' },
-                  perception: { type: 'object', description: 'Perception settings (Raven-0)' },
-                },
-              },
-            },
-          },
-        },
-        {
-          name: 'get_persona',
-          description: 'Get details of a specific persona',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              persona_id: {
-                type: 'string',
-                description: 'Unique identifier for the persona',
-              },
-            },
-            required: ['persona_id'],
-          },
-        },
-        {
-          name: 'list_personas',
-          description: 'List all personas in your account',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-          },
-        },
-        {
-          name: 'patch_persona',
-          description: 'Update a persona using JSON patch format',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              persona_id: {
-                type: 'string',
-                description: 'Unique identifier for the persona',
-              },
-              patch: {
-                type: 'array',
-                description: 'JSON patch operations (RFC 6902)',
-                items: {
-                  type: 'object',
-                  properties: {
-                    op: { type: 'string', enum: ['add', 'remove', 'replace', 'copy', 'move', 'test'] },
-                    path: { type: 'string' },
-                    value: {},
-                  },
-                  required: ['op', 'path'],
-                },
-              },
-            },
-            required: ['persona_id', 'patch'],
-          },
-        },
-        {
-          name: 'delete_persona',
-          description: 'Delete a persona permanently',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              persona_id: {
-                type: 'string',
-                description: 'Unique identifier for the persona',
-              },
-            },
-            required: ['persona_id'],
-          },
-        },
+  private async callTool(
+    server: Server,
+    request: CallToolRequest,
+    extra: RequestHandlerExtra,
+    context: ErrorContext
+  ) {
+    const tool = findTool(request.params.name);
+    if (!tool) {
+      throw new McpError(
+        ErrorCode.MethodNotFound,
+        `Unknown tool: ${request.params.name}`
+      );
+    }
+    const args = validateArguments(tool.name, tool.inputSchema, request.params.arguments);
+    if (!usesProfile(tool)) {
+      return this.executeTool(server, tool, args, request, extra);
+    }
 
-        // Lipsync
-        {
-          name: 'create_lipsync',
-          description: 'Create a lipsync video by synchronizing audio with video',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              video_url: {
-                type: 'string',
-                description: 'URL to the source video',
-              },
-              audio_url: {
-                type: 'string',
-                description: 'URL to the audio file to sync',
-              },
-              callback_url: {
-                type: 'string',
-                description: 'URL to receive completion callback',
-              },
-            },
-            required: ['video_url', 'audio_url'],
-          },
-        },
-        {
-          name: 'get_lipsync',
-          description: 'Get details of a specific lipsync',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              lipsync_id: {
-                type: 'string',
-                description: 'Unique identifier for the lipsync',
-              },
-            },
-            required: ['lipsync_id'],
-          },
-        },
-        {
-          name: 'list_lipsyncs',
-          description: 'List all lipsyncs in your account',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-          },
-        },
-        {
-          name: 'delete_lipsync',
-          description: 'Delete a lipsync permanently',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              lipsync_id: {
-                type: 'string',
-                description: 'Unique identifier for the lipsync',
-              },
-            },
-            required: ['lipsync_id'],
-          },
-        },
+    // Calls that change an asset must see its current state
+    const fresh = args.fresh === true || MUTATING_TOOLS.has(tool.name);
+    delete args.fresh;
 
-        // Speech
-        {
-          name: 'generate_speech',
-          description: 'Generate speech audio from text using a replica',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              replica_id: {
-                type: 'string',
-                description: 'Replica to use for speech generation',
-              },
-              script: {
-                type: 'string',
-                description: 'Text script to convert to speech',
-              },
-              speech_name: {
-                type: 'string',
-                description: 'Name for the generated speech',
-              },
-              callback_url: {
-                type: 'string',
-                description: 'URL to receive completion callback',
-              },
-            },
-            required: ['replica_id', 'script'],
-          },
-        },
-        {
-          name: 'get_speech',
-          description: 'Get details of a specific speech',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              speech_id: {
-                type: 'string',
-                description: 'Unique identifier for the speech',
-              },
-            },
-            required: ['speech_id'],
-          },
-        },
-        {
-          name: 'list_speeches',
-          description: 'List all speeches in your account',
-          inputSchema: {
-            type: 'object',
-            properties: {},
-          },
-        },
-        {
-          name: 'delete_speech',
-          description: 'Delete a speech permanently',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              speech_id: {
-                type: 'string',
-                description: 'Unique identifier for the speech',
-              },
-            },
-            required: ['speech_id'],
-          },
-        },
-        {
-          name: 'rename_speech',
-          description: 'Rename an existing speech',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              speech_id: {
-                type: 'string',
-                description: 'Unique identifier for the speech',
-              },
-              speech_name: {
-                type: 'string',
-                description: 'New name for the speech',
-              },
-            },
-            required: ['speech_id', 'speech_name'],
-          },
-        },
+    // The profile selects the account; it must not be forwarded to Tavus
+    const profile = this.profiles.get(args.profile, this.sessionDefaults.get(server));
+    delete args.profile;
+    context.profile = profile.config.name;
+
+    const execute = () => this.executeTool(server, tool, args, request, extra);
+    const result = await this.profiles.run(profile, () => fresh ? readFresh(execute) : execute());
+    return {
+      ...result,
+      content: [
+        ...result.content,
+        { type: 'text', text: `Tavus profile: ${profile.config.name} (${profile.client.defaults.baseURL})` },
       ],
+    };
+  }
+
+  private async executeTool(
+    server: Server,
+    tool: ToolDefinition,
+    args: Record<string, any>,
+    request: CallToolRequest,
+    extra: RequestHandlerExtra
+  ) {
+    this.safety.assertAllowed(tool.name, args);
+    const confirmation = await this.safety.confirm(tool.name, args, this.profiles.active().config.name, async (path) => {
+      const response = await this.axiosInstance.get(path);
+      return response.data;
+    });
+    if (confirmation) {
+      return confirmation;
+    }
+    this.callbacks?.applyCallbackUrl('callback_url' in (tool.inputSchema.properties ?? {}), args);
+
+    switch (tool.name) {
+      // Phoenix Replicas
+      case 'create_replica':
+        return await this.createReplica(args);
+      case 'preflight_media':
+        return await this.preflightMediaInput(args);
+      case 'get_replica':
+        return await this.getReplica(args);
+      case 'list_replicas':
+        return await this.listReplicas(args);
+      case 'delete_replica':
+        return await this.deleteReplica(args);
+      case 'rename_replica':
+        return await this.renameReplica(args);
+      case 'wait_for_replica_training':
+        return await this.waitFor(REPLICA_JOB, args, this.waitContext(server, request, extra));
+
+      // Videos
+      case 'generate_video':
+        return await this.generateVideo(args);
+      case 'get_video':
+        return await this.getVideo(args);
+      case 'list_videos':
+        return await this.listVideos(args);
+      case 'delete_video':
+        return await this.deleteVideo(args);
+      case 'rename_video':
+        return await this.renameVideo(args);
+      case 'wait_for_video':
+        return await this.waitFor(VIDEO_JOB, args, this.waitContext(server, request, extra));
+      case 'download_video':
+        return await this.download(VIDEO_DOWNLOAD, args, this.waitContext(server, request, extra));
+      case 'generate_videos_batch':
+        return await this.generateVideosBatch(args);
+
+      // Conversations
+      case 'create_conversation':
+        return await this.createConversation(args);
+      case 'get_conversation':
+        return await this.getConversation(args);
+      case 'get_conversation_transcript':
+        return await this.getConversationTranscript(args);
+      case 'list_conversations':
+        return await this.listConversations(args);
+      case 'end_conversation':
+        return await this.endConversation(args);
+      case 'delete_conversation':
+        return await this.deleteConversation(args);
+
+      // Personas
+      case 'create_persona':
+        return await this.createPersona(args);
+      case 'get_persona':
+        return await this.getPersona(args);
+      case 'list_personas':
+        return await this.listPersonas(args);
+      case 'patch_persona':
+        return await this.patchPersona(args);
+      case 'update_persona':
+        return await this.updatePersona(args);
+      case 'delete_persona':
+        return await this.deletePersona(args);
+      case 'export_persona':
+        return await this.exportPersona(args);
+      case 'import_persona':
+        return await this.importPersona(args);
+      case 'diff_persona':
+        return await this.diffPersona(args);
+
+      // Lipsync
+      case 'create_lipsync':
+        return await this.createLipsync(args);
+      case 'get_lipsync':
+        return await this.getLipsync(args);
+      case 'list_lipsyncs':
+        return await this.listLipsyncs(args);
+      case 'delete_lipsync':
+        return await this.deleteLipsync(args);
+      case 'wait_for_lipsync':
+        return await this.waitFor(LIPSYNC_JOB, args, this.waitContext(server, request, extra));
+      case 'download_lipsync':
+        return await this.download(LIPSYNC_DOWNLOAD, args, this.waitContext(server, request, extra));
+
+      // Speech
+      case 'generate_speech':
+        return await this.generateSpeech(args);
+      case 'get_speech':
+        return await this.getSpeech(args);
+      case 'list_speeches':
+        return await this.listSpeeches(args);
+      case 'delete_speech':
+        return await this.deleteSpeech(args);
+      case 'rename_speech':
+        return await this.renameSpeech(args);
+      case 'wait_for_speech':
+        return await this.waitFor(SPEECH_JOB, args, this.waitContext(server, request, extra));
+      case 'download_speech':
+        return await this.download(SPEECH_DOWNLOAD, args, this.waitContext(server, request, extra));
+
+      // Usage
+      case 'get_usage':
+        return await this.getUsage(args);
+
+      // Cache
+      case 'get_cache_stats':
+        return this.getCacheStats(args);
+
+      // Job Ledger
+      case 'list_jobs':
+        return await this.listJobs(args);
+      case 'get_job':
+        return await this.getJob(args);
+
+      // Profiles
+      case 'list_profiles':
+        return this.listProfiles(server);
+      case 'set_default_profile':
+        return this.setDefaultProfile(server, args);
+
+      // Callback Events
+      case 'list_callback_events':
+        return this.listCallbackEvents(args);
+      case 'get_callback_events':
+        return this.getCallbackEvents(args);
+
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${request.params.name}`
+        );
+    }
+  }
+
+  private setupResourceHandlers(server: Server, subscriptions: SubscriptionPoller) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: listResources(),
     }));
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: listResourceTemplates(),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
       try {
-        switch (request.params.name) {
-          // Phoenix Replicas
-          case 'create_replica':
-            return await this.createReplica(request.params.arguments);
-          case 'get_replica':
-            return await this.getReplica(request.params.arguments);
-          case 'list_replicas':
-            return await this.listReplicas();
-          case 'delete_replica':
-            return await this.deleteReplica(request.params.arguments);
-          case 'rename_replica':
-            return await this.renameReplica(request.params.arguments);
-
-          // Videos
-          case 'generate_video':
-            return await this.generateVideo(request.params.arguments);
-          case 'get_video':
-            return await this.getVideo(request.params.arguments);
-          case 'list_videos':
-            return await this.listVideos();
-          case 'delete_video':
-            return await this.deleteVideo(request.params.arguments);
-          case 'rename_video':
-            return await this.renameVideo(request.params.arguments);
-
-          // Conversations
-          case 'create_conversation':
-            return await this.createConversation(request.params.arguments);
-          case 'get_conversation':
-            return await this.getConversation(request.params.arguments);
-          case 'list_conversations':
-            return await this.listConversations();
-          case 'end_conversation':
-            return await this.endConversation(request.params.arguments);
-          case 'delete_conversation':
-            return await this.deleteConversation(request.params.arguments);
-
-          // Personas
-          case 'create_persona':
-            return await this.createPersona(request.params.arguments);
-          case 'get_persona':
-            return await this.getPersona(request.params.arguments);
-          case 'list_personas':
-            return await this.listPersonas();
-          case 'patch_persona':
-            return await this.patchPersona(request.params.arguments);
-          case 'delete_persona':
-            return await this.deletePersona(request.params.arguments);
-
-          // Lipsync
-          case 'create_lipsync':
-            return await this.createLipsync(request.params.arguments);
-          case 'get_lipsync':
-            return await this.getLipsync(request.params.arguments);
-          case 'list_lipsyncs':
-            return await this.listLipsyncs();
-          case 'delete_lipsync':
-            return await this.deleteLipsync(request.params.arguments);
-
-          // Speech
-          case 'generate_speech':
-            return await this.generateSpeech(request.params.arguments);
-          case 'get_speech':
-            return await this.getSpeech(request.params.arguments);
-          case 'list_speeches':
-            return await this.listSpeeches();
-          case 'delete_speech':
-            return await this.deleteSpeech(request.params.arguments);
-          case 'rename_speech':
-            return await this.renameSpeech(request.params.arguments);
-
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${request.params.name}`
-            );
-        }
+        const body = await this.profiles.run(this.sessionProfile(server), () => this.fetchResource(this.parseUri(uri)));
+        return {
+          contents: [{
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(body, null, 2),
+          }],
+        };
       } catch (error) {
-        if (error instanceof McpError) {
-          throw error;
-        }
-        if (axios.isAxiosError(error)) {
-          const message = error.response?.data?.error || error.message;
-          throw new McpError(ErrorCode.InternalError, `Tavus API error: ${message}`);
-        }
-        throw new McpError(ErrorCode.InternalError, `Unexpected error: ${error}`);
+        throw toMcpError(error);
+      }
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      try {
+        await this.profiles.run(this.sessionProfile(server), () => subscriptions.subscribe(request.params.uri));
+        return {};
+      } catch (error) {
+        throw toMcpError(error);
       }
     });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  private setupPromptHandlers(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPrompts(),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      getPrompt(request.params.name, request.params.arguments)
+    );
+
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      const source = ref.type === 'ref/prompt'
+        ? completionSource(String(ref.name), argument.name)
+        : undefined;
+      if (!source) {
+        return { completion: { values: [] } };
+      }
+      try {
+        return { completion: await this.profiles.run(this.sessionProfile(server), () => this.completeId(source, argument.value)) };
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    });
+  }
+
+  private async completeId(source: CompletionSource, prefix: string) {
+    const listing = source === 'replica_id' ? REPLICA_LISTING : PERSONA_LISTING;
+    const nameField = listing.nameField!;
+    const { data } = await listResource(this.axiosInstance, listing, { all: true });
+    const needle = prefix.toLowerCase();
+    const matches = data
+      .filter((item: any) =>
+        String(item[source] ?? '').toLowerCase().startsWith(needle) ||
+        String(item[nameField] ?? '').toLowerCase().includes(needle))
+      .map((item: any) => String(item[source]));
+    return {
+      values: matches.slice(0, MAX_COMPLETION_VALUES),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETION_VALUES,
+    };
+  }
+
+  private parseUri(uri: string): ParsedResourceUri {
+    const parsed = parseResourceUri(uri);
+    if (!parsed) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+    }
+    return parsed;
+  }
+
+  private async fetchResource(parsed: ParsedResourceUri) {
+    if (parsed.id === undefined) {
+      return listResource(this.axiosInstance, parsed.kind.listing, { all: true });
+    }
+    const response = await this.axiosInstance.get(
+      `${parsed.kind.listing.path}/${encodeURIComponent(parsed.id)}`
+    );
+    return response.data;
   }
 
   // Phoenix Replicas Methods
   private async createReplica(args: any) {
-    const response = await this.axiosInstance.post('/replicas', args);
+    const { response, notes } = await this.createWithMedia('create_replica', '/replicas', args);
+    await this.recordJob('create_replica', args, response.data);
     return {
       content: [{
         type: 'text',
         text: JSON.stringify(response.data, null, 2),
-      }],
+      }, ...notes],
     };
   }
 
@@ -800,12 +727,12 @@ class TavusServer {
     };
   }
 
-  private async listReplicas() {
-    const response = await this.axiosInstance.get('/replicas');
+  private async listReplicas(args: any) {
+    const result = await listResource(this.axiosInstance, REPLICA_LISTING, args);
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(response.data, null, 2),
+        text: JSON.stringify(result, null, 2),
       }],
     };
   }
@@ -813,6 +740,7 @@ class TavusServer {
   private async deleteReplica(args: any) {
     const { replica_id } = args;
     await this.axiosInstance.delete(`/replicas/${replica_id}`);
+    await this.recordJob('delete_replica', args);
     return {
       content: [{
         type: 'text',
@@ -825,7 +753,7 @@ class TavusServer {
     const { replica_id, replica_name } = args;
     const response = await this.axiosInstance.patch(`/replicas/${replica_id}/name`, {
       replica_name,
-    });
+    }, { idempotent: true });
     return {
       content: [{
         type: 'text',
@@ -836,12 +764,13 @@ class TavusServer {
 
   // Video Methods
   private async generateVideo(args: any) {
-    const response = await this.axiosInstance.post('/videos', args);
+    const { response, notes } = await this.createWithMedia('generate_video', '/videos', args);
+    await this.recordJob('generate_video', args, response.data);
     return {
       content: [{
         type: 'text',
         text: JSON.stringify(response.data, null, 2),
-      }],
+      }, ...notes],
     };
   }
 
@@ -856,12 +785,12 @@ class TavusServer {
     };
   }
 
-  private async listVideos() {
-    const response = await this.axiosInstance.get('/videos');
+  private async listVideos(args: any) {
+    const result = await listResource(this.axiosInstance, VIDEO_LISTING, args);
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(response.data, null, 2),
+        text: JSON.stringify(result, null, 2),
       }],
     };
   }
@@ -869,6 +798,7 @@ class TavusServer {
   private async deleteVideo(args: any) {
     const { video_id } = args;
     await this.axiosInstance.delete(`/videos/${video_id}`);
+    await this.recordJob('delete_video', args);
     return {
       content: [{
         type: 'text',
@@ -881,7 +811,7 @@ class TavusServer {
     const { video_id, video_name } = args;
     const response = await this.axiosInstance.patch(`/videos/${video_id}/name`, {
       video_name,
-    });
+    }, { idempotent: true });
     return {
       content: [{
         type: 'text',
@@ -890,9 +820,114 @@ class TavusServer {
     };
   }
 
+  private async generateVideosBatch(args: any) {
+    let rows: PlannedRow[];
+    try {
+      rows = planBatch(args, loadRecipients(args));
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid recipients for generate_videos_batch: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const invalid = rows.filter((row) => row.errors.length > 0);
+    if (invalid.length > 0) {
+      const report = invalid.map(({ row, recipient, errors }) => ({ row, recipient, errors }));
+      return {
+        content: [{
+          type: 'text',
+          text: `No videos were submitted: ${invalid.length} of ${rows.length} rows are invalid\n\n` +
+            JSON.stringify(report, null, 2),
+        }],
+        isError: true,
+      };
+    }
+
+    if (args.dry_run) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Dry run: all ${rows.length} rows are valid; no videos were submitted\n\n` +
+            JSON.stringify(rows.map(({ row, request }) => ({ row, request })), null, 2),
+        }],
+      };
+    }
+
+    // The whole batch must fit the budget before any row is sent
+    const estimates = rows.map((row) => estimateVideo(row.request!));
+    const hold = this.reserveBudget(estimates.reduce<UsageUnits>((total, estimate) => addUnits(total, estimate.units), {}));
+
+    // A failed row is recorded in the manifest rather than abandoning the rest
+    const batchId = newBatchId();
+    const videos = await mapWithConcurrency(rows, args.concurrency ?? DEFAULT_BATCH_CONCURRENCY, async (row, index): Promise<ManifestEntry> => {
+      const body = row.request!;
+      try {
+        const response = await this.axiosInstance.post('/videos', body);
+        await this.recordJob('generate_videos_batch', body, response.data, batchId);
+        await this.recordUsage('generate_videos_batch', estimates[index], response.data?.video_id, hold);
+        return {
+          row: row.row,
+          video_name: response.data.video_name ?? body.video_name,
+          video_id: response.data.video_id,
+          status: response.data.status ?? 'queued',
+          hosted_url: response.data.hosted_url,
+        };
+      } catch (error) {
+        return {
+          row: row.row,
+          video_name: body.video_name as string | undefined,
+          status: 'failed',
+          error: toMcpError(error, { tool: 'generate_videos_batch', args: body }).message,
+        };
+      }
+    }).finally(() => this.usage.release(hold));
+
+    const failed = videos.filter((video) => video.status === 'failed').length;
+    const manifest = {
+      batch_id: batchId,
+      replica_id: args.replica_id,
+      total: rows.length,
+      submitted: rows.length - failed,
+      failed,
+      videos,
+    };
+    return {
+      content: [{
+        type: 'text',
+        text: `Submitted ${manifest.submitted} of ${rows.length} videos` +
+          (failed > 0 ? ` (${failed} failed)` : '') +
+          `\n\n${JSON.stringify(manifest, null, 2)}`,
+      }],
+      isError: manifest.submitted === 0,
+    };
+  }
+
   // Conversation Methods
   private async createConversation(args: any) {
-    const response = await this.axiosInstance.post('/conversations', args);
+    const estimate = estimateConversation(args);
+    const hold = this.reserveBudget(estimate.units);
+    try {
+      const response = await this.axiosInstance.post('/conversations', args);
+      await this.recordJob('create_conversation', args, response.data);
+      await this.recordUsage('create_conversation', estimate, response.data?.conversation_id, hold);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(response.data, null, 2),
+        }],
+      };
+    } finally {
+      this.usage.release(hold);
+    }
+  }
+
+  private async getConversation(args: any) {
+    const { conversation_id, verbose } = args;
+    const response = await this.axiosInstance.get(
+      `/conversations/${conversation_id}`,
+      verbose ? { params: { verbose: true } } : undefined
+    );
     return {
       content: [{
         type: 'text',
@@ -901,23 +936,34 @@ class TavusServer {
     };
   }
 
-  private async getConversation(args: any) {
-    const { conversation_id } = args;
-    const response = await this.axiosInstance.get(`/conversations/${conversation_id}`);
+  private async getConversationTranscript(args: any) {
+    const { conversation_id, format, include_system } = args;
+    const response = await this.axiosInstance.get(`/conversations/${conversation_id}`, {
+      params: { verbose: true },
+    });
+    let transcript: Transcript;
+    try {
+      transcript = buildTranscript(response.data, include_system);
+    } catch (error) {
+      if (error instanceof TranscriptUnavailableError) {
+        throw new McpError(ErrorCode.InvalidRequest, error.message);
+      }
+      throw error;
+    }
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(response.data, null, 2),
+        text: formatTranscript(transcript, format ?? 'markdown'),
       }],
     };
   }
 
-  private async listConversations() {
-    const response = await this.axiosInstance.get('/conversations');
+  private async listConversations(args: any) {
+    const result = await listResource(this.axiosInstance, CONVERSATION_LISTING, args);
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(response.data, null, 2),
+        text: JSON.stringify(result, null, 2),
       }],
     };
   }
@@ -925,6 +971,8 @@ class TavusServer {
   private async endConversation(args: any) {
     const { conversation_id } = args;
     const response = await this.axiosInstance.post(`/conversations/${conversation_id}/end`);
+    await this.recordJob('end_conversation', args, response.data);
+    await this.usage.end(conversation_id);
     return {
       content: [{
         type: 'text',
@@ -936,6 +984,8 @@ class TavusServer {
   private async deleteConversation(args: any) {
     const { conversation_id } = args;
     await this.axiosInstance.delete(`/conversations/${conversation_id}`);
+    await this.recordJob('delete_conversation', args);
+    await this.usage.end(conversation_id);
     return {
       content: [{
         type: 'text',
@@ -947,6 +997,7 @@ class TavusServer {
   // Persona Methods
   private async createPersona(args: any) {
     const response = await this.axiosInstance.post('/personas', args);
+    await this.recordJob('create_persona', args, response.data);
     return {
       content: [{
         type: 'text',
@@ -958,16 +1009,32 @@ class TavusServer {
   private async getPersona(args: any) {
     const { persona_id } = args;
     const response = await this.axiosInstance.get(`/personas/${persona_id}`);
+    const content = [{
+      type: 'text',
+      text: JSON.stringify(response.data, null, 2),
+    }];
+    const unrecognized = unrecognizedPersonaFields(response.data);
+    if (Object.keys(unrecognized).length > 0) {
+      content.push({ type: 'text', text: JSON.stringify({ unrecognized_fields: unrecognized }, null, 2) });
+    }
+    return { content };
+  }
+
+  private async listPersonas(args: any) {
+    const result = await listResource(this.axiosInstance, PERSONA_LISTING, args);
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(response.data, null, 2),
+        text: JSON.stringify(result, null, 2),
       }],
     };
   }
 
-  private async listPersonas() {
-    const response = await this.axiosInstance.get('/personas');
+  private async patchPersona(args: any) {
+    const { persona_id, patch } = args;
+    const current = await this.axiosInstance.get(`/personas/${persona_id}`);
+    this.checkPersonaPatch(persona_id, current.data, patch);
+    const response = await this.axiosInstance.patch(`/personas/${persona_id}`, patch);
     return {
       content: [{
         type: 'text',
@@ -976,20 +1043,70 @@ class TavusServer {
     };
   }
 
-  private async patchPersona(args: any) {
-    const { persona_id, patch } = args;
-    const response = await this.axiosInstance.patch(`/personas/${persona_id}`, patch);
+  private async updatePersona(args: any) {
+    const { persona_id, prune, dry_run, ...definition } = args;
+    return this.syncPersona(persona_id, definition, prune, dry_run);
+  }
+
+  /**
+   * Sends the patch that makes a persona match `definition`; shared by
+   * update_persona and import_persona.
+   */
+  private async syncPersona(personaId: string, definition: Record<string, unknown>, prune?: boolean, dryRun?: boolean) {
+    const current = (await this.axiosInstance.get(`/personas/${personaId}`)).data;
+    const patch = diff(current, desiredPersona(current, definition, prune));
+    if (patch.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Persona ${personaId} already matches the definition; nothing to update`,
+        }],
+      };
+    }
+
+    const updated = this.checkPersonaPatch(personaId, current, patch);
+    if (dryRun) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Dry run: ${patch.length} operation(s) would be sent to PATCH /personas/${personaId}\n\n` +
+            JSON.stringify({ patch, result: updated }, null, 2),
+        }],
+      };
+    }
+
+    const response = await this.axiosInstance.patch(`/personas/${personaId}`, patch);
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(response.data, null, 2),
+        text: `Applied ${patch.length} operation(s) to persona ${personaId}\n\n` +
+          JSON.stringify({ patch, response: response.data }, null, 2),
       }],
     };
   }
 
+  /**
+   * Applies a patch to a local copy of the persona so that a bad operation
+   * fails here with a clear message instead of as an opaque Tavus error.
+   */
+  private checkPersonaPatch(personaId: string, current: unknown, patch: PatchOperation[]) {
+    try {
+      return applyPatch(current, patch);
+    } catch (error) {
+      if (error instanceof JsonPatchError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Patch does not apply to persona ${personaId}: ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+
   private async deletePersona(args: any) {
     const { persona_id } = args;
     await this.axiosInstance.delete(`/personas/${persona_id}`);
+    await this.recordJob('delete_persona', args);
     return {
       content: [{
         type: 'text',
@@ -998,14 +1115,106 @@ class TavusServer {
     };
   }
 
+  private async exportPersona(args: any) {
+    const { persona_id, path, format, include_secrets, overwrite } = args;
+    const response = await this.axiosInstance.get(`/personas/${persona_id}`);
+    const { persona, omitted_secrets } = canonicalPersona(response.data, include_secrets);
+    const text = formatPersonaFile(persona, format ?? (path ? syntaxForPath(path) : 'yaml'));
+    const omitted = omitted_secrets.length > 0
+      ? `Left out secret values (pass include_secrets to keep them): ${omitted_secrets.join(', ')}`
+      : undefined;
+
+    if (!path) {
+      return {
+        content: [
+          { type: 'text', text },
+          ...(omitted ? [{ type: 'text', text: omitted }] : []),
+        ],
+      };
+    }
+    let file: string;
+    try {
+      file = await writePersonaFile(this.personaFiles.root, path, text, overwrite);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Could not write persona file: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    return {
+      content: [{
+        type: 'text',
+        text: `Exported persona ${persona_id} to ${file}${omitted ? `\n\n${omitted}` : ''}`,
+      }],
+    };
+  }
+
+  private async importPersona(args: any) {
+    const { persona_id, prune, dry_run } = args;
+    const { persona, source } = await this.readPersonaFile(args);
+    if (persona_id) {
+      return this.syncPersona(persona_id, persona, prune, dry_run);
+    }
+
+    if (dry_run) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Dry run: a new persona would be created from ${source}\n\n${JSON.stringify(persona, null, 2)}`,
+        }],
+      };
+    }
+    const response = await this.axiosInstance.post('/personas', persona);
+    await this.recordJob('import_persona', persona, response.data);
+    return {
+      content: [{
+        type: 'text',
+        text: `Created persona ${response.data.persona_id} from ${source}\n\n${JSON.stringify(response.data, null, 2)}`,
+      }],
+    };
+  }
+
+  private async diffPersona(args: any) {
+    const { persona_id } = args;
+    const { persona, source } = await this.readPersonaFile(args);
+    const response = await this.axiosInstance.get(`/personas/${persona_id}`);
+
+    // Secrets are compared on neither side, so none are echoed back
+    const differences = personaDifferences(
+      canonicalPersona(response.data).persona,
+      canonicalPersona(persona).persona
+    );
+    return {
+      content: [{
+        type: 'text',
+        text: differences.length === 0
+          ? `Persona ${persona_id} matches ${source}`
+          : `Persona ${persona_id} differs from ${source} in ${differences.length} place(s)\n\n` +
+            JSON.stringify(differences, null, 2),
+      }],
+    };
+  }
+
+  private async readPersonaFile(args: { path?: string; content?: string }) {
+    try {
+      return await loadPersonaFile(this.personaFiles.root, args);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid persona file: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
   // Lipsync Methods
   private async createLipsync(args: any) {
-    const response = await this.axiosInstance.post('/lipsync', args);
+    const { response, notes } = await this.createWithMedia('create_lipsync', '/lipsync', args);
+    await this.recordJob('create_lipsync', args, response.data);
     return {
       content: [{
         type: 'text',
         text: JSON.stringify(response.data, null, 2),
-      }],
+      }, ...notes],
     };
   }
 
@@ -1020,12 +1229,12 @@ class TavusServer {
     };
   }
 
-  private async listLipsyncs() {
-    const response = await this.axiosInstance.get('/lipsync');
+  private async listLipsyncs(args: any) {
+    const result = await listResource(this.axiosInstance, LIPSYNC_LISTING, args);
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(response.data, null, 2),
+        text: JSON.stringify(result, null, 2),
       }],
     };
   }
@@ -1033,6 +1242,7 @@ class TavusServer {
   private async deleteLipsync(args: any) {
     const { lipsync_id } = args;
     await this.axiosInstance.delete(`/lipsync/${lipsync_id}`);
+    await this.recordJob('delete_lipsync', args);
     return {
       content: [{
         type: 'text',
@@ -1043,13 +1253,21 @@ class TavusServer {
 
   // Speech Methods
   private async generateSpeech(args: any) {
-    const response = await this.axiosInstance.post('/speech', args);
-    return {
-      content: [{
-        type: 'text',
-        text: JSON.stringify(response.data, null, 2),
-      }],
-    };
+    const estimate = estimateSpeech(args);
+    const hold = this.reserveBudget(estimate.units);
+    try {
+      const response = await this.axiosInstance.post('/speech', args);
+      await this.recordJob('generate_speech', args, response.data);
+      await this.recordUsage('generate_speech', estimate, response.data?.speech_id, hold);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(response.data, null, 2),
+        }],
+      };
+    } finally {
+      this.usage.release(hold);
+    }
   }
 
   private async getSpeech(args: any) {
@@ -1063,12 +1281,12 @@ class TavusServer {
     };
   }
 
-  private async listSpeeches() {
-    const response = await this.axiosInstance.get('/speech');
+  private async listSpeeches(args: any) {
+    const result = await listResource(this.axiosInstance, SPEECH_LISTING, args);
     return {
       content: [{
         type: 'text',
-        text: JSON.stringify(response.data, null, 2),
+        text: JSON.stringify(result, null, 2),
       }],
     };
   }
@@ -1076,6 +1294,7 @@ class TavusServer {
   private async deleteSpeech(args: any) {
     const { speech_id } = args;
     await this.axiosInstance.delete(`/speech/${speech_id}`);
+    await this.recordJob('delete_speech', args);
     return {
       content: [{
         type: 'text',
@@ -1088,7 +1307,7 @@ class TavusServer {
     const { speech_id, speech_name } = args;
     const response = await this.axiosInstance.patch(`/speech/${speech_id}/name`, {
       speech_name,
-    });
+    }, { idempotent: true });
     return {
       content: [{
         type: 'text',
@@ -1097,12 +1316,466 @@ class TavusServer {
     };
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('Tavus MCP server running on stdio');
+  // Job Polling Methods
+  private waitContext(server: Server, request: CallToolRequest, extra: RequestHandlerExtra): WaitContext {
+    const progressToken = request.params._meta?.progressToken;
+    if (progressToken === undefined) {
+      return { signal: extra.signal };
+    }
+    return {
+      signal: extra.signal,
+      onProgress: (update) => server.notification({
+        method: 'notifications/progress',
+        params: { progressToken, ...update },
+      }),
+    };
+  }
+
+  private async waitFor(target: JobTarget, args: any, context: WaitContext) {
+    const id = args[target.idField];
+    const result = await waitForJob(this.axiosInstance, target, id, args, context);
+    const summary = result.outcome === 'ready'
+      ? `${target.label} ${id} finished with status ${result.status}`
+      : result.outcome === 'error'
+        ? `${target.label} ${id} failed with status ${result.status}: ${result.error_message ?? 'no error message'}`
+        : `Timed out after ${result.elapsed_seconds}s waiting for ${target.label} ${id} (last status ${result.status})`;
+    return {
+      content: [{
+        type: 'text',
+        text: `${summary}\n\n${JSON.stringify(result, null, 2)}`,
+      }],
+      isError: result.outcome !== 'ready',
+    };
+  }
+
+  // Download Methods
+  private async download(target: DownloadTarget, args: any, context: WaitContext) {
+    const { label, idField, path } = target.job;
+    const id = args[idField];
+    const asset = (await this.axiosInstance.get(path(id))).data;
+    const url = asset?.[target.urlField];
+    if (!SUCCESS_STATUSES.includes(asset?.status) || typeof url !== 'string' || url === '') {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${label} ${id} is not ready to download (status: ${asset?.status ?? 'unknown'}); ` +
+          `call wait_for_${label} first`
+      );
+    }
+
+    try {
+      const destination = await resolveDestination(
+        this.downloads.root,
+        args.path ?? defaultFileName(target, id, url)
+      );
+      const result = await downloadFile(url, destination, {
+        overwrite: args.overwrite,
+        signal: context.signal,
+        readTimeoutMs: this.downloads.readTimeoutMs,
+        onProgress: context.onProgress,
+      });
+      return {
+        content: [{
+          type: 'text',
+          text: `Downloaded ${label} ${id} to ${result.path} (${result.bytes} bytes)\n\n` +
+            JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof DownloadError) {
+        throw new McpError(
+          error.kind === 'invalid' ? ErrorCode.InvalidParams : ErrorCode.InternalError,
+          error.message
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Media Input Methods
+  /**
+   * POSTs a creation request after checking its media and uploading the
+   * local files named in its media fields. The uploads stay until the
+   * created job finishes. Returns notes on what was done for the result.
+   */
+  private async createWithMedia(toolName: string, path: string, args: Record<string, any>) {
+    // Like the profile, skip_preflight is for this server, not for Tavus
+    const skipPreflight = args.skip_preflight === true;
+    delete args.skip_preflight;
+
+    const notes: Array<{ type: string; text: string }> = [];
+    let reports: PreflightResult[] = [];
+    if (this.preflight.enabled && !skipPreflight) {
+      reports = await this.runPreflight(toolName, args);
+      const warnings = describeIssues(reports, 'warning');
+      if (warnings.length > 0) {
+        notes.push({ type: 'text', text: `Preflight warnings:\n${warnings.join('\n')}` });
+      }
+    }
+
+    // Measured before staging, while a local audio file is still a path
+    const estimate = await this.estimateMediaUsage(toolName, args, reports);
+    const hold = estimate ? this.reserveBudget(estimate.units) : undefined;
+    try {
+      let staged: Awaited<ReturnType<UploadManager['stage']>>;
+      try {
+        staged = await this.uploads.stage(toolName, args);
+      } catch (error) {
+        if (error instanceof UploadError) {
+          throw new McpError(
+            error.kind === 'invalid' ? ErrorCode.InvalidParams : ErrorCode.InternalError,
+            error.message
+          );
+        }
+        throw error;
+      }
+
+      let response;
+      try {
+        response = await this.axiosInstance.post(path, staged.body);
+      } catch (error) {
+        await this.uploads.release(staged.uploads);
+        throw error;
+      }
+      const { job } = LOCAL_FILE_INPUTS[toolName];
+      const jobId = response.data?.[job.idField];
+      if (estimate) await this.recordUsage(toolName, estimate, jobId, hold);
+      if (typeof jobId === 'string') {
+        this.uploads.track(jobId, staged.uploads);
+      } else {
+        await this.uploads.release(staged.uploads);
+      }
+
+      if (staged.uploads.length > 0) {
+        const lines = staged.uploads.map((upload) => `- ${upload.field}: ${upload.source}`);
+        notes.push({ type: 'text', text: `Uploaded local files (removed once the ${job.label} finishes):\n${lines.join('\n')}` });
+      }
+      return { response, notes };
+    } finally {
+      if (hold) this.usage.release(hold);
+    }
+  }
+
+  /**
+   * Checks the media fields of a creation call. Errors stop the call;
+   * the reports are returned for their warnings.
+   */
+  private async runPreflight(toolName: string, args: Record<string, any>): Promise<PreflightResult[]> {
+    const checks = Object.entries(PREFLIGHT_FIELDS[toolName] ?? {})
+      .filter(([field]) => typeof args[field] === 'string');
+    const reports = await Promise.all(checks.map(async ([field, kind]) => ({
+      field,
+      report: await preflightMedia(args[field], kind, this.preflight),
+    })));
+
+    const errors = describeIssues(reports, 'error');
+    if (errors.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Preflight found problems with the media (pass skip_preflight: true to submit anyway):\n${errors.join('\n')}`
+      );
+    }
+    return reports;
+  }
+
+  /**
+   * Estimates the usage of a replica training or a video. The audio of a
+   * video is measured by preflight, or probed here when a video_minutes
+   * budget needs its length.
+   */
+  private async estimateMediaUsage(
+    toolName: string,
+    args: Record<string, any>,
+    reports: PreflightResult[]
+  ): Promise<UsageEstimate | undefined> {
+    if (toolName === 'create_replica') return estimateReplica();
+    if (toolName !== 'generate_video') return undefined;
+    if (typeof args.script === 'string' || typeof args.audio_url !== 'string') return estimateVideo(args);
+
+    let seconds = reports.find(({ field }) => field === 'audio_url')?.report.media?.duration_seconds;
+    const budgets = this.activeBudgets();
+    const limited = BUDGET_WINDOWS.some((window) => budgets[window]?.video_minutes !== undefined);
+    if (seconds === undefined && limited) {
+      const report = await preflightMedia(args.audio_url, 'audio', this.preflight);
+      seconds = report.media?.duration_seconds;
+      if (seconds === undefined) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Could not measure the length of audio_url, which a video_minutes budget needs:\n${describeIssues([{ field: 'audio_url', report }]).join('\n')}`
+        );
+      }
+    }
+    return estimateVideo(args, seconds);
+  }
+
+  private async preflightMediaInput(args: any) {
+    const { url, kind } = args;
+    const report = await preflightMedia(url, kind, this.preflight);
+    const errors = report.issues.filter((issue) => issue.severity === 'error').length;
+    const warnings = report.issues.length - errors;
+    const summary = report.issues.length === 0
+      ? `${url} passed all checks for a ${MEDIA_REQUIREMENTS[kind as MediaKind].label}`
+      : `${url} has ${errors} error(s) and ${warnings} warning(s) for a ${MEDIA_REQUIREMENTS[kind as MediaKind].label}`;
+    return {
+      content: [{
+        type: 'text',
+        text: `${summary}\n\n${JSON.stringify(report, null, 2)}`,
+      }],
+    };
+  }
+
+  // Usage Methods
+  private activeBudgets(): Budgets {
+    return mergeBudgets(this.usage.options.budgets, this.profiles.active().config.budgets);
+  }
+
+  /**
+   * Holds the units of a creation call against the active profile's
+   * budget, refusing the call if they do not fit. Callers release the hold
+   * once the call has been recorded or has failed.
+   */
+  private reserveBudget(units: UsageUnits): UsageHold {
+    try {
+      return this.usage.reserve(this.profiles.active().config.name, this.activeBudgets(), units);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw new McpError(ErrorCode.InvalidRequest, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async recordUsage(tool: string, estimate: UsageEstimate, resourceId?: unknown, hold?: UsageHold) {
+    await this.usage.record({
+      tool,
+      profile: this.profiles.active().config.name,
+      resource_id: typeof resourceId === 'string' ? resourceId : undefined,
+      ...estimate,
+    }, hold);
+  }
+
+  private async getUsage(args: any) {
+    const names = args.profile
+      ? [this.profiles.get(args.profile).config.name]
+      : this.profiles.list().map(({ name }) => name);
+    const report = this.usage.report(names, (name) =>
+      mergeBudgets(this.usage.options.budgets, this.profiles.get(name).config.budgets)
+    );
+    const limited = report.filter((entry) =>
+      BUDGET_WINDOWS.some((window) => Object.keys(entry[window].limits).length > 0)
+    ).length;
+    return {
+      content: [{
+        type: 'text',
+        text: `Usage for ${names.length} profile(s)` +
+          (limited > 0 ? `, ${limited} with budgets` : ', no budgets configured') +
+          `\n\n${JSON.stringify(report, null, 2)}`,
+      }],
+    };
+  }
+
+  // Cache Methods
+  private getCacheStats(args: any) {
+    if (!this.cache) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Response cache is disabled; unset TAVUS_CACHE=false to enable it'
+      );
+    }
+    const stats = this.cache.report();
+    if (args.clear) {
+      this.cache.clear();
+    }
+    return {
+      content: [{
+        type: 'text',
+        text: `${stats.hits} hit(s), ${stats.misses} miss(es), ${stats.entries} cached response(s)` +
+          (args.clear ? '; cache cleared' : '') +
+          `\n\n${JSON.stringify(stats, null, 2)}`,
+      }],
+    };
+  }
+
+  // Job Ledger Methods
+  private async recordJob(tool: string, args: Record<string, any>, response?: any, batchId?: string) {
+    await this.ledger?.record({
+      tool,
+      profile: this.profiles.active().config.name,
+      args,
+      response,
+      batch_id: batchId,
+    });
+  }
+
+  private requireLedger(): JobLedger {
+    if (!this.ledger) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Job ledger is disabled; unset TAVUS_LEDGER=false to enable it'
+      );
+    }
+    return this.ledger;
+  }
+
+  /**
+   * Re-fetches a job's asset so the ledger observer records its current
+   * status. Returns an error message instead of throwing.
+   */
+  private async refreshJob(job: LedgerEntry): Promise<string | undefined> {
+    if (!job.resource_id) return undefined;
+    try {
+      const { client } = this.profiles.get(job.profile);
+      await client.get(`${LEDGER_RESOURCES[job.resource].path}/${job.resource_id}`);
+      return undefined;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        this.ledger!.observe(job.resource_id, 'deleted');
+        return undefined;
+      }
+      return `${job.job_id}: ${toMcpError(error, { tool: 'list_jobs', profile: job.profile }).message}`;
+    }
+  }
+
+  private async listJobs(args: any) {
+    const ledger = this.requireLedger();
+    const { refresh, ...filter } = args;
+    filter.limit = filter.limit ?? 50;
+
+    let refreshErrors: string[] = [];
+    if (refresh) {
+      const pending = ledger.query(filter).filter(isPending);
+      const errors = await mapWithConcurrency(pending, DEFAULT_BATCH_CONCURRENCY, (job) => this.refreshJob(job));
+      refreshErrors = errors.filter((error): error is string => error !== undefined);
+    }
+
+    const jobs = ledger.query(filter);
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          ledger_file: ledger.file,
+          count: jobs.length,
+          jobs,
+          ...(refreshErrors.length > 0 ? { refresh_errors: refreshErrors } : {}),
+        }, null, 2),
+      }],
+    };
+  }
+
+  private async getJob(args: any) {
+    const ledger = this.requireLedger();
+    const { id, refresh } = args;
+    let job = ledger.find(id);
+    if (!job) {
+      throw new McpError(ErrorCode.InvalidParams, `No job ledger entry for ${id}`);
+    }
+
+    const refreshError = refresh ? await this.refreshJob(job) : undefined;
+    job = ledger.find(id)!;
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify(refreshError ? { ...job, refresh_error: refreshError } : job, null, 2),
+      }],
+    };
+  }
+
+  // Profile Methods
+  private listProfiles(server: Server) {
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify(this.profiles.list(this.sessionProfile(server).config.name), null, 2),
+      }],
+    };
+  }
+
+  // Only for this MCP session; other clients of an HTTP server keep theirs
+  private setDefaultProfile(server: Server, args: any) {
+    const profile = this.profiles.get(args.profile);
+    this.sessionDefaults.set(server, profile.config.name);
+    return {
+      content: [{
+        type: 'text',
+        text: `Default profile for this session is now ${profile.config.name} (${profile.client.defaults.baseURL})`,
+      }],
+    };
+  }
+
+  // Callback Event Methods
+  private requireCallbacks(): CallbackReceiver {
+    if (!this.callbacks) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Callback receiver is disabled; set TAVUS_WEBHOOK_PORT to enable it'
+      );
+    }
+    return this.callbacks;
+  }
+
+  private listCallbackEvents(args: any) {
+    const callbacks = this.requireCallbacks();
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          callback_url: callbacks.callbackUrl,
+          resources: callbacks.summarize(args.id_field),
+        }, null, 2),
+      }],
+    };
+  }
+
+  private getCallbackEvents(args: any) {
+    const { id } = args;
+    const events = this.requireCallbacks().getEvents(id);
+    return {
+      content: [{
+        type: 'text',
+        text: events.length > 0
+          ? JSON.stringify(events, null, 2)
+          : `No callbacks received for ${id}`,
+      }],
+    };
+  }
+
+  /**
+   * Stops the callback receiver, removes uploads still kept and waits for
+   * pending ledger, usage and audit writes.
+   */
+  async close() {
+    await this.callbacks?.close();
+    await this.uploads.close();
+    await this.ledger?.flush();
+    await this.usage.flush();
+    await this.audit?.flush();
+  }
+
+  async run(options: TransportOptions) {
+    await this.callbacks?.start();
+
+    let shutdown: () => Promise<void>;
+    if (options.transport === 'http') {
+      const host = new HttpTransportHost(() => this.createServer(), options);
+      await host.start();
+      shutdown = () => host.close();
+      console.error(`Tavus MCP server running on ${host.address} (SSE endpoint /sse)`);
+    } else {
+      const server = this.createServer();
+      await server.connect(new StdioServerTransport());
+      shutdown = () => server.close();
+      console.error('Tavus MCP server running on stdio');
+    }
+
+    process.on('SIGINT', async () => {
+      await this.close();
+      await shutdown();
+      process.exit(0);
+    });
   }
 }
 
-const server = new TavusServer();
-server.run().catch(console.error);
+// Only start when run as a program, so tests can import TavusServer
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  const server = new TavusServer();
+  server.run(transportOptionsFromArgs()).catch(console.error);
+}
@@ -0,0 +1,214 @@
+/**
+ * Append-only JSON Lines files shared between server processes.
+ *
+ * The job ledger and the usage meter keep their state as a log of events,
+ * one JSON object per line. Several servers may run against the same
+ * directory at once (two desktop clients, or stdio next to HTTP), so the
+ * file is never rewritten from memory: each event is appended with a
+ * single write, and each process reads what the others appended before it
+ * answers from its copy of the state.
+ *
+ * A file is rotated to `<file>.1` once it passes its size limit, and both
+ * are read. A line that does not parse, such as one cut short by a crash,
+ * is skipped with a warning; a file with no readable lines at all is moved
+ * aside rather than stopping the server.
+ */
+
+import { closeSync, fstatSync, mkdirSync, openSync, readSync, renameSync } from 'node:fs';
+import { appendFile, open, rename, stat, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// A rotation lock older than this was left by a process that died
+const STALE_LOCK_MS = 60 * 1000;
+
+export interface JournalOptions<T> {
+  file: string;
+  /** Size past which the file is rotated */
+  maxBytes: number;
+  /** Prefix of the warnings and errors logged, e.g. "Ledger" */
+  label: string;
+  /** Forgets the state built from earlier lines, before a full re-read */
+  reset(): void;
+  /** Adds one line, written by this process or another, to the state */
+  apply(line: T): void;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+export class Journal<T> {
+  private writing: Promise<void> = Promise.resolve();
+  // Where reading of the current file stopped, and which file that was
+  private position?: { ino: number; offset: number };
+  // Lines this process has appended and applied but not yet read back
+  private pending = new Set<string>();
+
+  constructor(private options: JournalOptions<T>) {
+    mkdirSync(dirname(options.file), { recursive: true });
+  }
+
+  get file(): string {
+    return this.options.file;
+  }
+
+  /**
+   * Applies the lines appended since the last sync. When the file was
+   * rotated or replaced in the meantime the state is reset and rebuilt
+   * from both files.
+   */
+  sync(): void {
+    const { file } = this.options;
+    let fd: number;
+    try {
+      fd = openSync(file, 'r');
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+      // Rotated and not yet written again, or never written
+      if (this.position?.ino !== 0) this.reload(0);
+      return;
+    }
+    try {
+      const { ino, size } = fstatSync(fd);
+      if (this.position?.ino !== ino || size < this.position.offset) {
+        this.reload(ino);
+      }
+      const position = this.position!;
+      if (size <= position.offset) return;
+
+      const chunk = Buffer.alloc(size - position.offset);
+      const bytesRead = readSync(fd, chunk, 0, chunk.length, position.offset);
+      // Only whole lines; the rest may still be being written
+      const end = chunk.subarray(0, bytesRead).lastIndexOf(0x0a) + 1;
+      const { lines, bad } = this.parse(chunk.subarray(0, end));
+      position.offset += end;
+      if (bad > 0 && lines === 0 && position.offset === end) {
+        this.moveAside();
+        return;
+      }
+      if (bad > 0) {
+        console.error(`[${this.options.label} Warning] Skipped ${bad} unreadable line(s) in ${file}`);
+      }
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  /**
+   * Appends a line the caller has already applied. Writes are queued so
+   * lines never interleave; a failed write is reported but never fails
+   * the caller.
+   */
+  append(line: T): Promise<void> {
+    const text = JSON.stringify(line);
+    this.pending.add(text);
+    this.writing = this.writing
+      .then(async () => {
+        await this.rotateIfNeeded(Buffer.byteLength(text) + 1);
+        await appendFile(this.options.file, `${text}\n`, { mode: 0o600 });
+      })
+      .catch((error) => console.error(`[${this.options.label} Error]`, error));
+    return this.writing;
+  }
+
+  /**
+   * Resolves once every pending write has reached the disk.
+   */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private reload(ino: number): void {
+    this.options.reset();
+    // The state was rebuilt from the files, so lines of this process are
+    // applied again as they are read
+    this.pending.clear();
+    this.position = { ino, offset: 0 };
+    const previous = `${this.options.file}.1`;
+    try {
+      const { bad } = this.parse(readWhole(previous));
+      if (bad > 0) {
+        console.error(`[${this.options.label} Warning] Skipped ${bad} unreadable line(s) in ${previous}`);
+      }
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+  }
+
+  private parse(bytes: Buffer): { lines: number; bad: number } {
+    let lines = 0;
+    let bad = 0;
+    for (const text of bytes.toString('utf8').split('\n')) {
+      if (text.trim() === '') continue;
+      if (this.pending.delete(text)) {
+        lines++;
+        continue;
+      }
+      let line: T;
+      try {
+        line = JSON.parse(text);
+      } catch {
+        bad++;
+        continue;
+      }
+      this.options.apply(line);
+      lines++;
+    }
+    return { lines, bad };
+  }
+
+  // A file with nothing readable in it, e.g. one in an older format
+  private moveAside(): void {
+    const { file, label } = this.options;
+    const aside = `${file}.bad-${Date.now()}`;
+    renameSync(file, aside);
+    console.error(`[${label} Warning] ${file} could not be read; moved it to ${aside} and started a new one`);
+    this.position = { ino: 0, offset: 0 };
+  }
+
+  // Renames the file to <file>.1 under a lock, so two processes passing the
+  // limit together rotate it once
+  private async rotateIfNeeded(incoming: number): Promise<void> {
+    const { file, maxBytes } = this.options;
+    let before;
+    try {
+      before = await stat(file);
+    } catch (error) {
+      if (isMissing(error)) return;
+      throw error;
+    }
+    if (before.size === 0 || before.size + incoming <= maxBytes) return;
+
+    const lock = `${file}.lock`;
+    let handle;
+    try {
+      handle = await open(lock, 'wx');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const held = await stat(lock).catch(() => undefined);
+      if (held && Date.now() - held.mtimeMs > STALE_LOCK_MS) await unlink(lock).catch(() => {});
+      // Another process is rotating; this line goes to whichever file is current
+      return;
+    }
+    try {
+      const current = await stat(file).catch(() => undefined);
+      // Rotated by another process between the two checks
+      if (current?.ino !== before.ino) return;
+      await rename(file, `${file}.1`);
+    } finally {
+      await handle.close();
+      await unlink(lock);
+    }
+  }
+}
+
+function readWhole(path: string): Buffer {
+  const fd = openSync(path, 'r');
+  try {
+    const buffer = Buffer.alloc(fstatSync(fd).size);
+    const bytesRead = readSync(fd, buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    closeSync(fd);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * JSON Patch (RFC 6902) and JSON Pointer (RFC 6901) helpers.
+ */
+
+export interface PatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: unknown;
+  from?: string;
+}
+
+export class JsonPatchError extends Error {
+  constructor(message: string, public readonly index?: number) {
+    super(index === undefined ? message : `Operation ${index}: ${message}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+export function formatPointer(tokens: string[]): string {
+  return tokens.map((token) => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) &&
+      deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new JsonPatchError(`"${token}" is not a valid array index`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new JsonPatchError(`array index ${index} is out of bounds`);
+  }
+  return index;
+}
+
+/**
+ * Returns whether a JSON pointer resolves to a value in the document.
+ */
+export function hasPointer(document: unknown, pointer: string): boolean {
+  try {
+    getPointer(document, pointer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getPointer(document: unknown, pointer: string): unknown {
+  let current = document;
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = (current as Record<string, unknown>)[token];
+    } else {
+      throw new JsonPatchError(`path "${pointer}" does not exist`);
+    }
+  }
+  return current;
+}
+
+function resolveParent(document: unknown, pointer: string): { parent: Record<string, unknown> | unknown[]; key: string } {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new JsonPatchError('the document root cannot be the target of this operation');
+  }
+  const key = tokens.pop()!;
+  const parent = getPointer(document, formatPointer(tokens));
+  if (!isContainer(parent)) {
+    throw new JsonPatchError(`parent of "${pointer}" is not an object or array`);
+  }
+  return { parent, key };
+}
+
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') return value;
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(parent, key, false);
+    return parent.splice(index, 1)[0];
+  }
+  if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+    throw new JsonPatchError(`path "${pointer}" does not exist`);
+  }
+  const removed = parent[key];
+  delete parent[key];
+  return removed;
+}
+
+/**
+ * Applies a patch to a copy of the document and returns the result.
+ * Throws JsonPatchError naming the failing operation if any step is invalid.
+ */
+export function applyPatch<T>(document: T, patch: PatchOperation[]): T {
+  let result: unknown = clone(document);
+
+  patch.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case 'add':
+          result = addValue(result, operation.path, clone(operation.value));
+          break;
+        case 'remove':
+          removeValue(result, operation.path);
+          break;
+        case 'replace':
+          if (operation.path === '') {
+            result = clone(operation.value);
+          } else {
+            getPointer(result, operation.path);
+            removeValue(result, operation.path);
+            result = addValue(result, operation.path, clone(operation.value));
+          }
+          break;
+        case 'move': {
+          if (operation.from === undefined) throw new JsonPatchError('"from" is required for move');
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new JsonPatchError('cannot move a value into one of its own children');
+          }
+          const value = removeValue(result, operation.from);
+          result = addValue(result, operation.path, value);
+          break;
+        }
+        case 'copy': {
+          if (operation.from === undefined) throw new JsonPatchError('"from" is required for copy');
+          result = addValue(result, operation.path, clone(getPointer(result, operation.from)));
+          break;
+        }
+        case 'test':
+          if (!deepEqual(getPointer(result, operation.path), operation.value)) {
+            throw new JsonPatchError(`test failed: value at "${operation.path}" does not match`);
+          }
+          break;
+        default:
+          throw new JsonPatchError(`unknown op "${(operation as PatchOperation).op}"`);
+      }
+    } catch (error) {
+      if (error instanceof JsonPatchError && error.index === undefined) {
+        throw new JsonPatchError(error.message, index);
+      }
+      throw error;
+    }
+  });
+
+  return result as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Computes a patch that turns `current` into `desired`. Objects are compared
+ * key by key; arrays of the same length element by element, and arrays that
+ * changed length are replaced whole.
+ */
+export function diff(current: unknown, desired: unknown, path: string[] = []): PatchOperation[] {
+  if (deepEqual(current, desired)) return [];
+
+  const pointer = formatPointer(path);
+  if (isPlainObject(current) && isPlainObject(desired)) {
+    const operations: PatchOperation[] = [];
+    for (const key of Object.keys(current)) {
+      if (!Object.prototype.hasOwnProperty.call(desired, key)) {
+        operations.push({ op: 'remove', path: formatPointer([...path, key]) });
+      }
+    }
+    for (const [key, value] of Object.entries(desired)) {
+      if (!Object.prototype.hasOwnProperty.call(current, key)) {
+        operations.push({ op: 'add', path: formatPointer([...path, key]), value });
+      } else {
+        operations.push(...diff(current[key], value, [...path, key]));
+      }
+    }
+    return operations;
+  }
+
+  if (Array.isArray(current) && Array.isArray(desired) && current.length === desired.length) {
+    return desired.flatMap((value, index) => diff(current[index], value, [...path, String(index)]));
+  }
+
+  return [{ op: 'replace', path: pointer, value: desired }];
+}
+
+/**
+ * Deep-merges `changes` into `base`: nested objects are merged, anything
+ * else in `changes` replaces the value in `base`.
+ */
+export function merge(base: unknown, changes: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(changes)) {
+    return clone(changes);
+  }
+  const merged: Record<string, unknown> = { ...clone(base) };
+  for (const [key, value] of Object.entries(changes)) {
+    merged[key] = Object.prototype.hasOwnProperty.call(base, key) ? merge(base[key], value) : clone(value);
+  }
+  return merged;
+}
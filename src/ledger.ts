@@ -0,0 +1,313 @@
+/**
+ * On-disk ledger of the Tavus assets this server creates and deletes.
+ *
+ * Every create/generate/delete call is appended to jobs.jsonl in
+ * TAVUS_LEDGER_DIR (default ~/.tavus-mcp) with its arguments, the IDs Tavus
+ * returned and a history of the statuses seen since. Statuses are picked up
+ * from any later GET of the asset, so polling with get_video or
+ * wait_for_video keeps the ledger current. Keys that look like secrets are
+ * redacted before anything is written.
+ *
+ * The file is a journal of calls and status changes rather than a snapshot,
+ * so servers sharing the directory each see the others' jobs and never
+ * overwrite them.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { AxiosInstance } from 'axios';
+import { Journal } from './journal.js';
+
+const LEDGER_FILE = 'jobs.jsonl';
+
+// Size past which jobs.jsonl is rotated to jobs.jsonl.1; entries older than
+// both files are dropped
+const MAX_LEDGER_BYTES = 10 * 1024 * 1024;
+
+// Statuses after which an asset no longer changes
+export const TERMINAL_STATUSES = ['ready', 'completed', 'error', 'failed', 'deleted', 'ended'];
+
+// Whole key names only, so settings such as max_tokens stay readable:
+// api_key, x-api-key, authorization, password, secret, access_token,
+// client_secret, secret_key, ...
+const SECRET_KEY = /^((.*[-_])?api[-_]?key|authorization|(.*[-_])?(password|secret|token)|(.*[-_])?secret[-_].*)$/i;
+
+export type LedgerResource = 'replica' | 'video' | 'conversation' | 'persona' | 'lipsync' | 'speech';
+
+export const LEDGER_RESOURCES: Record<LedgerResource, { idField: string; path: string }> = {
+  replica: { idField: 'replica_id', path: '/replicas' },
+  video: { idField: 'video_id', path: '/videos' },
+  conversation: { idField: 'conversation_id', path: '/conversations' },
+  persona: { idField: 'persona_id', path: '/personas' },
+  lipsync: { idField: 'lipsync_id', path: '/lipsync' },
+  speech: { idField: 'speech_id', path: '/speech' },
+};
+
+export type LedgerAction = 'create' | 'delete' | 'end';
+
+// Tools whose calls are recorded, and what they do
+export const LEDGER_TOOLS: Record<string, { resource: LedgerResource; action: LedgerAction }> = {
+  create_replica: { resource: 'replica', action: 'create' },
+  delete_replica: { resource: 'replica', action: 'delete' },
+  generate_video: { resource: 'video', action: 'create' },
+  generate_videos_batch: { resource: 'video', action: 'create' },
+  delete_video: { resource: 'video', action: 'delete' },
+  create_conversation: { resource: 'conversation', action: 'create' },
+  end_conversation: { resource: 'conversation', action: 'end' },
+  delete_conversation: { resource: 'conversation', action: 'delete' },
+  create_persona: { resource: 'persona', action: 'create' },
+  import_persona: { resource: 'persona', action: 'create' },
+  delete_persona: { resource: 'persona', action: 'delete' },
+  create_lipsync: { resource: 'lipsync', action: 'create' },
+  delete_lipsync: { resource: 'lipsync', action: 'delete' },
+  generate_speech: { resource: 'speech', action: 'create' },
+  delete_speech: { resource: 'speech', action: 'delete' },
+};
+
+export interface StatusSnapshot {
+  status: string;
+  at: string;
+}
+
+export interface LedgerEntry {
+  job_id: string;
+  tool: string;
+  action: LedgerAction;
+  resource: LedgerResource;
+  resource_id?: string;
+  batch_id?: string;
+  profile: string;
+  arguments: Record<string, unknown>;
+  status?: string;
+  status_history: StatusSnapshot[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LedgerRecord {
+  tool: string;
+  profile: string;
+  args: Record<string, unknown>;
+  response?: Record<string, any>;
+  batch_id?: string;
+}
+
+export interface JobFilter {
+  resource?: LedgerResource;
+  tool?: string;
+  status?: string;
+  pending_only?: boolean;
+  batch_id?: string;
+  profile?: string;
+  resource_id?: string;
+  created_after?: string;
+  created_before?: string;
+  limit?: number;
+}
+
+export interface LedgerOptions {
+  directory: string;
+}
+
+// One line of the ledger file: a recorded call, or a status seen for an asset
+type LedgerLine =
+  | { job: LedgerEntry }
+  | { status: { resource_id: string; status: string; at: string } };
+
+/**
+ * Reads the ledger location from TAVUS_LEDGER_DIR. Returns undefined when
+ * TAVUS_LEDGER is set to false, which turns the ledger off.
+ */
+export function ledgerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): LedgerOptions | undefined {
+  if (['0', 'false', 'no', 'off'].includes((env.TAVUS_LEDGER ?? '').toLowerCase())) {
+    return undefined;
+  }
+  return { directory: env.TAVUS_LEDGER_DIR || join(homedir(), '.tavus-mcp') };
+}
+
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY.test(key);
+}
+
+/**
+ * Copies a value with every secret-looking key replaced by "[redacted]".
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, isSecretKey(key) ? '[redacted]' : redactSecrets(field)])
+    );
+  }
+  return value;
+}
+
+export function isPending(entry: LedgerEntry): boolean {
+  return entry.status !== undefined && !TERMINAL_STATUSES.includes(entry.status);
+}
+
+export function newBatchId(): string {
+  return `batch_${randomBytes(4).toString('hex')}`;
+}
+
+export class JobLedger {
+  private entries: LedgerEntry[] = [];
+  private byJobId = new Map<string, LedgerEntry>();
+  private journal: Journal<LedgerLine>;
+
+  constructor(options: LedgerOptions) {
+    this.journal = new Journal<LedgerLine>({
+      file: join(options.directory, LEDGER_FILE),
+      maxBytes: MAX_LEDGER_BYTES,
+      label: 'Ledger',
+      reset: () => {
+        this.entries = [];
+        this.byJobId.clear();
+      },
+      apply: (line) => this.apply(line),
+    });
+    this.journal.sync();
+  }
+
+  get file(): string {
+    return this.journal.file;
+  }
+
+  /**
+   * Appends an entry for a recorded tool call and returns it. Deleting or
+   * ending an asset also updates the status of the entry that created it.
+   */
+  async record(input: LedgerRecord): Promise<LedgerEntry | undefined> {
+    const kind = LEDGER_TOOLS[input.tool];
+    if (!kind) return undefined;
+
+    const { idField } = LEDGER_RESOURCES[kind.resource];
+    const now = new Date().toISOString();
+    const resourceId = input.response?.[idField] ?? input.args[idField];
+    const status = kind.action === 'delete'
+      ? 'deleted'
+      : kind.action === 'end'
+        ? 'ended'
+        : input.response?.status;
+
+    const entry: LedgerEntry = {
+      job_id: `job_${randomBytes(6).toString('hex')}`,
+      tool: input.tool,
+      action: kind.action,
+      resource: kind.resource,
+      resource_id: typeof resourceId === 'string' ? resourceId : undefined,
+      batch_id: input.batch_id,
+      profile: input.profile,
+      arguments: redactSecrets(input.args) as Record<string, unknown>,
+      status,
+      status_history: status ? [{ status, at: now }] : [],
+      created_at: now,
+      updated_at: now,
+    };
+    this.journal.sync();
+    const line: LedgerLine = { job: entry };
+    this.apply(line);
+    void this.journal.append(line);
+    if (kind.action !== 'create' && entry.resource_id) {
+      this.observeAt(entry.resource_id, status!, now);
+    }
+    await this.journal.flush();
+    return entry;
+  }
+
+  /**
+   * Records a status seen for an asset on the entries that track it.
+   */
+  observe(resourceId: string, status: string): void {
+    this.journal.sync();
+    this.observeAt(resourceId, status, new Date().toISOString());
+  }
+
+  /**
+   * Entries matching `filter`, newest first, including those other
+   * servers recorded.
+   */
+  query(filter: JobFilter = {}): LedgerEntry[] {
+    this.journal.sync();
+    const matches = this.entries.filter((entry) =>
+      (!filter.resource || entry.resource === filter.resource) &&
+      (!filter.tool || entry.tool === filter.tool) &&
+      (!filter.status || entry.status === filter.status) &&
+      (!filter.pending_only || isPending(entry)) &&
+      (!filter.batch_id || entry.batch_id === filter.batch_id) &&
+      (!filter.profile || entry.profile === filter.profile) &&
+      (!filter.resource_id || entry.resource_id === filter.resource_id) &&
+      (!filter.created_after || entry.created_at >= filter.created_after) &&
+      (!filter.created_before || entry.created_at < filter.created_before));
+    return matches.reverse().slice(0, filter.limit ?? matches.length);
+  }
+
+  /**
+   * Finds an entry by job_id, or the most recent entry for a Tavus ID.
+   */
+  find(id: string): LedgerEntry | undefined {
+    this.journal.sync();
+    return this.byJobId.get(id) ??
+      [...this.entries].reverse().find((entry) => entry.resource_id === id);
+  }
+
+  /**
+   * Resolves once every pending write has reached the disk.
+   */
+  flush(): Promise<void> {
+    return this.journal.flush();
+  }
+
+  private observeAt(resourceId: string, status: string, at: string): void {
+    const line: LedgerLine = { status: { resource_id: resourceId, status, at } };
+    if (this.apply(line)) void this.journal.append(line);
+  }
+
+  // Adds a line to the entries; returns whether anything changed
+  private apply(line: LedgerLine): boolean {
+    if ('job' in line && line.job?.job_id) {
+      if (this.byJobId.has(line.job.job_id)) return false;
+      this.entries.push(line.job);
+      this.byJobId.set(line.job.job_id, line.job);
+      return true;
+    }
+    if ('status' in line && line.status?.resource_id) {
+      const { resource_id, status, at } = line.status;
+      let changed = false;
+      for (const entry of this.entries) {
+        // Servers' lines can arrive out of order; an older status never
+        // replaces a newer one
+        if (entry.resource_id !== resource_id || entry.status === status || entry.updated_at > at) continue;
+        entry.status = status;
+        entry.status_history.push({ status, at });
+        entry.updated_at = at;
+        changed = true;
+      }
+      return changed;
+    }
+    return false;
+  }
+}
+
+/**
+ * Reports the status of every fetched asset, which keeps the ledger (and
+ * anything else waiting on a job) up to date.
+ */
+export function installStatusObserver(
+  instance: AxiosInstance,
+  observe: (id: string, status: string) => void
+): void {
+  const itemPath = new RegExp(
+    `^(${Object.values(LEDGER_RESOURCES).map(({ path }) => path).join('|')})/([^/?]+)$`
+  );
+  instance.interceptors.response.use((response) => {
+    const match = response.config.method === 'get' ? response.config.url?.match(itemPath) : null;
+    if (match && typeof response.data?.status === 'string') {
+      observe(decodeURIComponent(match[2]), response.data.status);
+    }
+    return response;
+  });
+}
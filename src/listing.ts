@@ -0,0 +1,282 @@
+/**
+ * Pagination, filtering and sorting shared by the list_* tools.
+ *
+ * Tavus list endpoints accept `limit` and `page` query parameters and return
+ * `{ data, total_count }`. Filtering and sorting happen locally on whatever
+ * was fetched, so they cover the whole account only when `all` is set.
+ * `all` fetches at most MAX_AUTO_PAGES pages and marks the result
+ * `truncated` when there were more.
+ */
+
+import { AxiosInstance } from 'axios';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { JsonSchema } from './validation.js';
+
+// Page size used when auto-paginating with `all: true`
+const AUTO_PAGE_SIZE = 100;
+
+// Upper bound on pages fetched by a single auto-paginated call
+const MAX_AUTO_PAGES = 50;
+
+export interface ListResource {
+  path: string;
+  label: string;
+  nameField?: string;
+  sortFields: string[];
+  serverFilters?: string[];
+}
+
+export const REPLICA_LISTING: ListResource = {
+  path: '/replicas',
+  label: 'replicas',
+  nameField: 'replica_name',
+  sortFields: ['created_at', 'updated_at', 'replica_name', 'status', 'replica_type'],
+  serverFilters: ['replica_type'],
+};
+
+export const VIDEO_LISTING: ListResource = {
+  path: '/videos',
+  label: 'videos',
+  nameField: 'video_name',
+  sortFields: ['created_at', 'video_name', 'status'],
+};
+
+export const CONVERSATION_LISTING: ListResource = {
+  path: '/conversations',
+  label: 'conversations',
+  nameField: 'conversation_name',
+  sortFields: ['created_at', 'conversation_name', 'status'],
+};
+
+export const PERSONA_LISTING: ListResource = {
+  path: '/personas',
+  label: 'personas',
+  nameField: 'persona_name',
+  sortFields: ['created_at', 'updated_at', 'persona_name'],
+};
+
+export const LIPSYNC_LISTING: ListResource = {
+  path: '/lipsync',
+  label: 'lipsyncs',
+  sortFields: ['created_at', 'status'],
+};
+
+export const SPEECH_LISTING: ListResource = {
+  path: '/speech',
+  label: 'speeches',
+  nameField: 'speech_name',
+  sortFields: ['created_at', 'speech_name', 'status'],
+};
+
+export interface ListOptions {
+  limit?: number;
+  page?: number;
+  all?: boolean;
+  status?: string;
+  name_contains?: string;
+  created_after?: string;
+  created_before?: string;
+  replica_type?: string;
+  sort_by?: string;
+  sort_order?: 'asc' | 'desc';
+}
+
+/**
+ * Builds the input schema properties for a list tool.
+ */
+export function listProperties(resource: ListResource): Record<string, JsonSchema> {
+  const properties: Record<string, JsonSchema> = {
+    limit: {
+      type: 'integer',
+      description: 'Number of items per page (not used with all)',
+      minimum: 1,
+    },
+    page: {
+      type: 'integer',
+      description: 'Page number to fetch (starts at 1)',
+      minimum: 1,
+    },
+    all: {
+      type: 'boolean',
+      description: `Fetch every page of ${resource.label} before filtering and sorting, ` +
+        `up to ${MAX_AUTO_PAGES * AUTO_PAGE_SIZE} items (the result has truncated: true when there were more)`,
+    },
+    status: {
+      type: 'string',
+      description: 'Only include items with this status',
+    },
+    created_after: {
+      type: 'string',
+      description: 'Only include items created at or after this ISO 8601 timestamp',
+    },
+    created_before: {
+      type: 'string',
+      description: 'Only include items created at or before this ISO 8601 timestamp',
+    },
+    sort_by: {
+      type: 'string',
+      description: 'Field to sort results by',
+      enum: resource.sortFields,
+    },
+    sort_order: {
+      type: 'string',
+      description: 'Sort direction (asc default)',
+      enum: ['asc', 'desc'],
+    },
+  };
+
+  if (resource.nameField) {
+    properties.name_contains = {
+      type: 'string',
+      description: `Only include items whose ${resource.nameField} contains this text (case-insensitive)`,
+    };
+  }
+
+  if (resource.serverFilters?.includes('replica_type')) {
+    properties.replica_type = {
+      type: 'string',
+      description: 'Only include replicas of this type',
+      enum: ['user', 'system'],
+    };
+  }
+
+  return properties;
+}
+
+function parseTimestamp(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be an ISO 8601 timestamp, got "${value}"`);
+  }
+  return timestamp;
+}
+
+function extractItems(body: any): { items: any[]; total?: number } {
+  if (Array.isArray(body)) {
+    return { items: body };
+  }
+  return {
+    items: Array.isArray(body?.data) ? body.data : [],
+    total: typeof body?.total_count === 'number' ? body.total_count : undefined,
+  };
+}
+
+function serverParams(resource: ListResource, options: ListOptions): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const filter of resource.serverFilters ?? []) {
+    const value = options[filter as keyof ListOptions];
+    if (value !== undefined) params[filter] = value;
+  }
+  return params;
+}
+
+async function fetchAll(
+  client: AxiosInstance,
+  resource: ListResource,
+  options: ListOptions
+): Promise<{ items: any[]; total?: number; truncated: boolean }> {
+  const items: any[] = [];
+  let total: number | undefined;
+
+  for (let page = 1; page <= MAX_AUTO_PAGES; page++) {
+    const response = await client.get(resource.path, {
+      params: { ...serverParams(resource, options), limit: AUTO_PAGE_SIZE, page },
+    });
+    const batch = extractItems(response.data);
+    items.push(...batch.items);
+    total = batch.total ?? total;
+
+    if (batch.items.length < AUTO_PAGE_SIZE) return { items, total, truncated: false };
+    if (total !== undefined && items.length >= total) return { items, total, truncated: false };
+  }
+
+  return { items, total, truncated: true };
+}
+
+function compareValues(a: unknown, b: unknown, field: string): number {
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : 1;
+  if (b === undefined || b === null) return -1;
+  if (field.endsWith('_at')) {
+    return (Date.parse(String(a)) || 0) - (Date.parse(String(b)) || 0);
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Applies the local filters and sort order to a list of Tavus items.
+ */
+export function filterAndSort(resource: ListResource, items: any[], options: ListOptions): any[] {
+  const after = parseTimestamp('created_after', options.created_after);
+  const before = parseTimestamp('created_before', options.created_before);
+  const needle = options.name_contains?.toLowerCase();
+
+  const filtered = items.filter((item) => {
+    if (options.status && item.status !== options.status) return false;
+    if (options.replica_type && item.replica_type !== options.replica_type) return false;
+    if (needle && resource.nameField) {
+      const name = String(item[resource.nameField] ?? '').toLowerCase();
+      if (!name.includes(needle)) return false;
+    }
+    if (after !== undefined || before !== undefined) {
+      const created = Date.parse(item.created_at);
+      if (Number.isNaN(created)) return false;
+      if (after !== undefined && created < after) return false;
+      if (before !== undefined && created > before) return false;
+    }
+    return true;
+  });
+
+  if (options.sort_by) {
+    const field = options.sort_by;
+    const direction = options.sort_order === 'desc' ? -1 : 1;
+    // Missing values always sort last regardless of direction
+    filtered.sort((a, b) => {
+      const missingA = a[field] === undefined || a[field] === null;
+      const missingB = b[field] === undefined || b[field] === null;
+      if (missingA || missingB) return compareValues(a[field], b[field], field);
+      return direction * compareValues(a[field], b[field], field);
+    });
+  }
+
+  return filtered;
+}
+
+/**
+ * Fetches one page (or every page when `all` is set) of a Tavus list
+ * endpoint and applies the local filters and sort order.
+ */
+export async function listResource(
+  client: AxiosInstance,
+  resource: ListResource,
+  options: ListOptions
+) {
+  if (options.all) {
+    const { items, total, truncated } = await fetchAll(client, resource, options);
+    const data = filterAndSort(resource, items, options);
+    return {
+      data,
+      total_count: total ?? items.length,
+      fetched_count: items.length,
+      returned_count: data.length,
+      // Filters and sorting covered only the items fetched
+      ...(truncated ? { truncated: true } : {}),
+    };
+  }
+
+  const params: Record<string, unknown> = serverParams(resource, options);
+  if (options.limit !== undefined) params.limit = options.limit;
+  if (options.page !== undefined) params.page = options.page;
+
+  const response = await client.get(resource.path, { params });
+  const { items, total } = extractItems(response.data);
+  const data = filterAndSort(resource, items, options);
+  return {
+    data,
+    total_count: total ?? items.length,
+    page: options.page ?? 1,
+    limit: options.limit,
+    fetched_count: items.length,
+    returned_count: data.length,
+  };
+}
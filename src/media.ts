@@ -0,0 +1,400 @@
+/**
+ * Media header parsing for MP4/MOV, WAV and MP3.
+ *
+ * Only the headers are read, through a reader that fetches byte ranges, so
+ * the same code inspects a local file or a remote one fetched with HTTP
+ * Range requests. For MP4 that means the top-level box headers and the
+ * `moov` box, which holds the duration, track dimensions, sample counts and
+ * the audio sample description. WAV durations come from the `fmt ` and
+ * `data` chunks; MP3 durations from a Xing/Info header when present and the
+ * bit rate of the first frame otherwise.
+ */
+
+import { open } from 'node:fs/promises';
+
+export type MediaContainer = 'mp4' | 'mov' | 'webm' | 'wav' | 'mp3';
+
+export interface VideoTrackInfo {
+  codec: string;
+  width: number;
+  height: number;
+  frame_rate?: number;
+}
+
+export interface AudioTrackInfo {
+  codec: string;
+  sample_rate: number;
+  channels?: number;
+  bit_rate?: number;
+}
+
+export interface MediaInfo {
+  container: MediaContainer;
+  duration_seconds?: number;
+  video?: VideoTrackInfo;
+  audio?: AudioTrackInfo;
+}
+
+/**
+ * Random access to the bytes of a file. `read` returns fewer bytes than
+ * asked for at the end of the file.
+ */
+export interface MediaReader {
+  size?: number;
+  read(offset: number, length: number): Promise<Buffer>;
+}
+
+export class MediaParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaParseError';
+  }
+}
+
+// Largest moov box read; real ones are a few megabytes at most
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+// How far into an MP3 (after any ID3 tag) the first frame is looked for
+const MP3_SYNC_WINDOW = 64 * 1024;
+
+export async function fileReader(path: string): Promise<MediaReader & { close(): Promise<void> }> {
+  const handle = await open(path, 'r');
+  const { size } = await handle.stat();
+  return {
+    size,
+    async read(offset, length) {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+      return buffer.subarray(0, bytesRead);
+    },
+    close: () => handle.close(),
+  };
+}
+
+/**
+ * Works out the container from the first bytes of a file.
+ */
+export function sniffContainer(head: Buffer): MediaContainer | undefined {
+  if (head.length >= 12 && head.toString('latin1', 4, 8) === 'ftyp') {
+    return head.toString('latin1', 8, 12) === 'qt  ' ? 'mov' : 'mp4';
+  }
+  if (head.length >= 12 && head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  if (head.length >= 4 && head.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'webm';
+  }
+  if (head.toString('latin1', 0, 3) === 'ID3' || parseMp3Header(head, 0)) {
+    return 'mp3';
+  }
+  return undefined;
+}
+
+/**
+ * Reads the headers of a media file. WebM is recognized but not parsed.
+ */
+export async function probeMedia(reader: MediaReader): Promise<MediaInfo> {
+  const head = await reader.read(0, 4096);
+  const container = sniffContainer(head);
+  try {
+    switch (container) {
+      case 'mp4':
+      case 'mov':
+        return { container, ...(await parseMp4(reader)) };
+      case 'wav':
+        return await parseWav(reader);
+      case 'mp3':
+        return await parseMp3(reader, head);
+      case 'webm':
+        return { container };
+      default:
+        throw new MediaParseError('Not a recognized media file (expected MP4, MOV, WebM, WAV or MP3)');
+    }
+  } catch (error) {
+    // A read past the end of a buffer: the headers are shorter than they claim
+    if (error instanceof RangeError) {
+      throw new MediaParseError(`${container!.toUpperCase()} headers are truncated (${error.message})`);
+    }
+    throw error;
+  }
+}
+
+// MP4 / MOV
+
+interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+function* children(buffer: Buffer, start: number, end: number): Generator<Box> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) throw new MediaParseError(`Malformed MP4 box at byte ${offset}`);
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) {
+      throw new MediaParseError(`Malformed MP4 box at byte ${offset}`);
+    }
+    yield { type: buffer.toString('latin1', offset + 4, offset + 8), start: offset + header, end: offset + size };
+    offset += size;
+  }
+}
+
+// Offset of a fixed-size field `length` bytes long at `offset` into a box,
+// which must hold it
+function field(box: Box, offset: number, length: number): number {
+  if (offset < 0 || box.start + offset + length > box.end) {
+    throw new MediaParseError(`MP4 ${box.type} box is truncated`);
+  }
+  return box.start + offset;
+}
+
+function child(buffer: Buffer, box: Box, type: string): Box | undefined {
+  for (const item of children(buffer, box.start, box.end)) {
+    if (item.type === type) return item;
+  }
+  return undefined;
+}
+
+function descend(buffer: Buffer, box: Box | undefined, ...types: string[]): Box | undefined {
+  for (const type of types) {
+    if (!box) return undefined;
+    box = child(buffer, box, type);
+  }
+  return box;
+}
+
+// mvhd and mdhd share their layout: version 1 widens the times to 64 bits
+function readTimes(buffer: Buffer, box: Box): { timescale: number; duration: number } {
+  const version = buffer[field(box, 0, 1)];
+  return version === 1
+    ? { timescale: buffer.readUInt32BE(field(box, 20, 4)), duration: Number(buffer.readBigUInt64BE(field(box, 24, 8))) }
+    : { timescale: buffer.readUInt32BE(field(box, 12, 4)), duration: buffer.readUInt32BE(field(box, 16, 4)) };
+}
+
+async function findMoov(reader: MediaReader): Promise<Buffer> {
+  let offset = 0;
+  for (;;) {
+    const header = await reader.read(offset, 16);
+    if (header.length < 8) break;
+    let size = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (size === 1 && header.length >= 16) {
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    }
+    const type = header.toString('latin1', 4, 8);
+    if (type === 'moov') {
+      // A moov box with a size of 0 is the last box in the file
+      if (size === 0 && reader.size !== undefined) size = reader.size - offset;
+      if (size < headerSize) {
+        throw new MediaParseError(`Malformed MP4 moov box at byte ${offset}`);
+      }
+      if (size > MAX_MOOV_BYTES) {
+        throw new MediaParseError(`MP4 moov box is too large to read (${size} bytes)`);
+      }
+      const moov = await reader.read(offset, size);
+      if (moov.length < size) {
+        throw new MediaParseError('MP4 file ends inside its moov box');
+      }
+      return moov;
+    }
+    // A size of 0 runs to the end of the file, so nothing follows it
+    if (size === 0 || size < headerSize) break;
+    offset += size;
+  }
+  throw new MediaParseError('MP4 file has no moov box (the file may be incomplete)');
+}
+
+async function parseMp4(reader: MediaReader): Promise<Omit<MediaInfo, 'container'>> {
+  const moov = await findMoov(reader);
+  const root: Box = { type: 'moov', start: moov.readUInt32BE(0) === 1 ? 16 : 8, end: moov.length };
+  const info: Omit<MediaInfo, 'container'> = {};
+
+  const mvhd = child(moov, root, 'mvhd');
+  if (mvhd) {
+    const { timescale, duration } = readTimes(moov, mvhd);
+    if (timescale > 0) info.duration_seconds = round(duration / timescale);
+  }
+
+  for (const trak of children(moov, root.start, root.end)) {
+    if (trak.type !== 'trak') continue;
+    const hdlr = descend(moov, trak, 'mdia', 'hdlr');
+    const handler = hdlr ? moov.toString('latin1', field(hdlr, 8, 4), hdlr.start + 12) : undefined;
+    const mdhd = descend(moov, trak, 'mdia', 'mdhd');
+    const stbl = descend(moov, trak, 'mdia', 'minf', 'stbl');
+    const stsd = stbl && child(moov, stbl, 'stsd');
+    if (!stsd || stsd.end - stsd.start < 16) continue;
+
+    // First sample entry: size, codec fourcc, then codec-specific fields
+    const entry = stsd.start + 8;
+    const codec = moov.toString('latin1', entry + 4, entry + 8).trim();
+
+    if (handler === 'vide' && !info.video) {
+      const tkhd = child(moov, trak, 'tkhd');
+      // tkhd ends with the display width and height as 16.16 fixed point
+      const tkhdSize = tkhd ? tkhd.end - tkhd.start : 0;
+      let width = tkhd ? moov.readUInt32BE(field(tkhd, tkhdSize - 8, 4)) >>> 16 : 0;
+      let height = tkhd ? moov.readUInt32BE(field(tkhd, tkhdSize - 4, 4)) >>> 16 : 0;
+      if ((!width || !height) && entry + 36 <= stsd.end) {
+        width = moov.readUInt16BE(entry + 32);
+        height = moov.readUInt16BE(entry + 34);
+      }
+
+      let frameRate: number | undefined;
+      const stts = child(moov, stbl!, 'stts');
+      if (stts && mdhd) {
+        const count = moov.readUInt32BE(field(stts, 4, 4));
+        let samples = 0;
+        for (let i = 0; i < count && stts.start + 16 + i * 8 <= stts.end; i++) {
+          samples += moov.readUInt32BE(stts.start + 8 + i * 8);
+        }
+        const { timescale, duration } = readTimes(moov, mdhd);
+        if (duration > 0 && timescale > 0) frameRate = round(samples / (duration / timescale));
+      }
+      info.video = { codec, width, height, ...(frameRate ? { frame_rate: frameRate } : {}) };
+    } else if (handler === 'soun' && !info.audio && entry + 36 <= stsd.end) {
+      info.audio = {
+        codec,
+        channels: moov.readUInt16BE(entry + 24),
+        sample_rate: moov.readUInt32BE(entry + 32) >>> 16,
+      };
+    }
+  }
+  return info;
+}
+
+// WAV
+
+const WAV_FORMATS: Record<number, string> = { 1: 'pcm', 3: 'float', 6: 'alaw', 7: 'mulaw', 0xfffe: 'pcm' };
+
+async function parseWav(reader: MediaReader): Promise<MediaInfo> {
+  let offset = 12;
+  let audio: AudioTrackInfo | undefined;
+  let byteRate = 0;
+  for (;;) {
+    const header = await reader.read(offset, 8);
+    if (header.length < 8) break;
+    const id = header.toString('latin1', 0, 4);
+    const size = header.readUInt32LE(4);
+
+    if (id === 'fmt ') {
+      const fmt = await reader.read(offset + 8, 16);
+      if (fmt.length < 16) throw new MediaParseError('WAV fmt chunk is truncated');
+      const format = fmt.readUInt16LE(0);
+      byteRate = fmt.readUInt32LE(8);
+      audio = {
+        codec: WAV_FORMATS[format] ?? `format 0x${format.toString(16)}`,
+        channels: fmt.readUInt16LE(2),
+        sample_rate: fmt.readUInt32LE(4),
+        bit_rate: byteRate * 8,
+      };
+    } else if (id === 'data') {
+      if (!audio) throw new MediaParseError('WAV data chunk comes before its fmt chunk');
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF; fall back to the file size
+      const bytes = size === 0 || size === 0xffffffff
+        ? (reader.size ?? offset + 8) - offset - 8
+        : size;
+      return {
+        container: 'wav',
+        ...(byteRate > 0 ? { duration_seconds: round(bytes / byteRate) } : {}),
+        audio,
+      };
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  throw new MediaParseError(audio ? 'WAV file has no data chunk' : 'WAV file has no fmt chunk');
+}
+
+// MP3 (MPEG audio layer III)
+
+const MP3_BIT_RATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+interface Mp3Frame {
+  offset: number;
+  mpeg1: boolean;
+  sampleRate: number;
+  bitRate: number;
+  mono: boolean;
+}
+
+function parseMp3Header(buffer: Buffer, offset: number): Mp3Frame | undefined {
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return undefined;
+  const version = (buffer[offset + 1] >> 3) & 3;  // 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+  const layer = (buffer[offset + 1] >> 1) & 3;    // 1 = layer III
+  const bitRateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 3;
+  if (version === 1 || layer !== 1 || bitRateIndex === 0 || bitRateIndex === 15 || sampleRateIndex === 3) {
+    return undefined;
+  }
+  const mpeg1 = version === 3;
+  return {
+    offset,
+    mpeg1,
+    sampleRate: MP3_SAMPLE_RATES[sampleRateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4),
+    bitRate: (mpeg1 ? MP3_BIT_RATES.mpeg1 : MP3_BIT_RATES.mpeg2)[bitRateIndex] * 1000,
+    mono: buffer[offset + 3] >> 6 === 3,
+  };
+}
+
+function findMp3Frame(buffer: Buffer, start: number): Mp3Frame | undefined {
+  for (let offset = start; offset + 4 <= buffer.length; offset++) {
+    const frame = parseMp3Header(buffer, offset);
+    if (frame) return frame;
+  }
+  return undefined;
+}
+
+async function parseMp3(reader: MediaReader, head: Buffer): Promise<MediaInfo> {
+  // An ID3v2 tag stores its size as four 7-bit bytes, plus a footer if flagged
+  let start = 0;
+  if (head.length >= 10 && head.toString('latin1', 0, 3) === 'ID3') {
+    start = 10 + ((head[6] << 21) | (head[7] << 14) | (head[8] << 7) | head[9]) + (head[5] & 0x10 ? 10 : 0);
+  }
+
+  const window = await reader.read(start, MP3_SYNC_WINDOW);
+  const frame = findMp3Frame(window, 0);
+  if (!frame) {
+    throw new MediaParseError('No MPEG audio layer III frame found');
+  }
+
+  const samplesPerFrame = frame.mpeg1 ? 1152 : 576;
+  // The Xing/Info header sits after the side information of the first frame
+  const sideInfo = frame.mpeg1 ? (frame.mono ? 17 : 32) : (frame.mono ? 9 : 17);
+  const xing = frame.offset + 4 + sideInfo;
+  let duration: number | undefined;
+  if (xing + 12 <= window.length && ['Xing', 'Info'].includes(window.toString('latin1', xing, xing + 4))) {
+    const flags = window.readUInt32BE(xing + 4);
+    if (flags & 1) duration = (window.readUInt32BE(xing + 8) * samplesPerFrame) / frame.sampleRate;
+  }
+  if (duration === undefined && reader.size !== undefined) {
+    duration = ((reader.size - start - frame.offset) * 8) / frame.bitRate;
+  }
+
+  return {
+    container: 'mp3',
+    ...(duration !== undefined ? { duration_seconds: round(duration) } : {}),
+    audio: {
+      codec: 'mp3',
+      sample_rate: frame.sampleRate,
+      channels: frame.mono ? 1 : 2,
+      bit_rate: frame.bitRate,
+    },
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
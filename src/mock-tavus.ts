@@ -0,0 +1,649 @@
+#!/usr/bin/env node
+
+/**
+ * Mock Tavus API for offline development and testing.
+ *
+ * Implements the replica, video, conversation, persona, lipsync and speech
+ * endpoints the MCP server calls, backed by in-memory state. Async jobs move
+ * through their real status sequence one step per GET of the item, so a
+ * caller that polls sees the same transitions as against Tavus.
+ *
+ * Failures can be injected with `failNext()` or over HTTP:
+ *
+ *   POST /__mock/failures  { "status": 429, "path": "/videos", "count": 2, "retry_after": 1 }
+ *   POST /__mock/failures  { "hang": true, "path": "/replicas" }   // never responds
+ *   POST /__mock/reset     clears state, failures and the request log
+ *   GET  /__mock/requests  lists every API request received
+ *
+ * Finished videos, lipsyncs and speeches link to files served by the mock
+ * itself under /media, with Range support so resumed downloads can be
+ * tested. A failure with `truncate_after` cuts a media response off after
+ * that many bytes.
+ *
+ * Run standalone with `npm run mock` and point the server at it:
+ *
+ *   TAVUS_API_BASE=http://127.0.0.1:4010/v2 TAVUS_API_KEY=mock npx tavus-mcp
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import { realpathSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { applyPatch, JsonPatchError, PatchOperation } from './json-patch.js';
+
+const API_PREFIX = '/v2';
+const CONTROL_PREFIX = '/__mock';
+const MEDIA_PREFIX = '/media';
+
+// Size of every mock media file
+const MEDIA_SIZE = 256 * 1024;
+
+const DEFAULT_MOCK_PORT = 4010;
+
+export interface MockFailure {
+  status?: number;
+  method?: string;
+  path?: string;
+  count?: number;
+  retry_after?: number;
+  hang?: boolean;
+  delay_ms?: number;
+  body?: unknown;
+  /** Media requests only: send this many bytes of the file, then drop the connection */
+  truncate_after?: number;
+  /** Media requests only: send this many bytes of the file, then send nothing more */
+  stall_after?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+export interface MockTavusOptions {
+  /** API key the mock accepts; any non-empty key is accepted when unset */
+  apiKey?: string;
+  /** GET polls needed for an async job to finish (default 3) */
+  stepsToComplete?: number;
+}
+
+type Entity = Record<string, any>;
+
+interface Collection {
+  idField: string;
+  prefix: string;
+  items: Map<string, Entity>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (match: RegExpMatchArray, request: MockRequest) => [number, unknown];
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, public readonly body: unknown) {
+    super(`HTTP ${status}`);
+  }
+}
+
+function badRequest(message: string, errors?: Record<string, string[]>): HttpError {
+  return new HttpError(400, errors ? { message, errors } : { message });
+}
+
+function requireFields(body: Entity, fields: string[]): void {
+  const errors: Record<string, string[]> = {};
+  for (const field of fields) {
+    if (body[field] === undefined || body[field] === '') {
+      errors[field] = ['Missing data for required field.'];
+    }
+  }
+  if (Object.keys(errors).length > 0) {
+    throw badRequest('Invalid request', errors);
+  }
+}
+
+export class MockTavusApi {
+  private httpServer?: HttpServer;
+  private failures: MockFailure[] = [];
+  private openSockets = new Set<import('node:net').Socket>();
+  private collections: Record<string, Collection> = {};
+  // Media paths whose content was replaced, and how many times
+  private mediaVersions = new Map<string, number>();
+  private routes: Route[] = [];
+  private stepsToComplete: number;
+  readonly requests: MockRequest[] = [];
+
+  constructor(private options: MockTavusOptions = {}) {
+    this.stepsToComplete = Math.max(1, options.stepsToComplete ?? 3);
+    this.reset();
+    this.defineRoutes();
+  }
+
+  /**
+   * Base URL to use as TAVUS_API_BASE, available after start().
+   */
+  get url(): string {
+    return `${this.origin}${API_PREFIX}`;
+  }
+
+  /**
+   * URL of a file served under /media, available after start().
+   */
+  mediaUrl(path: string): string {
+    return `${this.origin}${MEDIA_PREFIX}/${path}`;
+  }
+
+  /**
+   * Changes the content and ETag of a file served under /media, as when an
+   * asset is regenerated while a download of it is under way.
+   */
+  replaceMedia(path: string): void {
+    const key = `${MEDIA_PREFIX}/${path}`;
+    this.mediaVersions.set(key, (this.mediaVersions.get(key) ?? 0) + 1);
+  }
+
+  private get origin(): string {
+    const address = this.httpServer?.address();
+    if (!address || typeof address !== 'object') {
+      throw new Error('Mock Tavus API is not running');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async start(port = 0, host = '127.0.0.1'): Promise<void> {
+    this.httpServer = createServer((req, res) => void this.handle(req, res));
+    this.httpServer.on('connection', (socket) => {
+      this.openSockets.add(socket);
+      socket.on('close', () => this.openSockets.delete(socket));
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(port, host, () => resolve());
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.httpServer) return;
+    // Hung requests would otherwise keep the server open forever
+    for (const socket of this.openSockets) socket.destroy();
+    await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+    this.httpServer = undefined;
+  }
+
+  reset(): void {
+    const collection = (idField: string, prefix: string): Collection => ({ idField, prefix, items: new Map() });
+    this.collections = {
+      replicas: collection('replica_id', 'r'),
+      videos: collection('video_id', 'v'),
+      conversations: collection('conversation_id', 'c'),
+      personas: collection('persona_id', 'p'),
+      lipsync: collection('lipsync_id', 'l'),
+      speech: collection('speech_id', 's'),
+    };
+    this.failures = [];
+    this.mediaVersions.clear();
+    this.requests.length = 0;
+  }
+
+  /**
+   * Makes the next matching request(s) fail. Without a status the request
+   * hangs (or is delayed by delay_ms) instead.
+   */
+  failNext(failure: MockFailure): void {
+    this.failures.push({ count: 1, ...failure });
+  }
+
+  /**
+   * Adds an item directly to a collection, e.g. a replica that is already
+   * trained. Returns the stored item.
+   */
+  seed(collectionName: string, item: Entity): Entity {
+    const collection = this.collections[collectionName];
+    if (!collection) throw new Error(`Unknown collection ${collectionName}`);
+    const now = new Date().toISOString();
+    const stored = {
+      [collection.idField]: this.newId(collection),
+      created_at: now,
+      updated_at: now,
+      ...item,
+    };
+    collection.items.set(stored[collection.idField], stored);
+    return stored;
+  }
+
+  get(collectionName: string, id: string): Entity | undefined {
+    return this.collections[collectionName]?.items.get(id);
+  }
+
+  private newId(collection: Collection): string {
+    return `${collection.prefix}${randomBytes(5).toString('hex')}`;
+  }
+
+  private defineRoutes(): void {
+    const route = (method: string, path: string, handle: Route['handle']) => {
+      const pattern = new RegExp(`^${path.replace(/:id/g, '([^/]+)')}$`);
+      this.routes.push({ method, pattern, handle });
+    };
+
+    // Replicas
+    route('POST', '/replicas', (_, { body }) => {
+      requireFields(body as Entity, ['train_video_url']);
+      const input = body as Entity;
+      const replica = this.create('replicas', {
+        replica_name: input.replica_name ?? 'Untitled replica',
+        model_name: input.model_name ?? 'phoenix-3',
+        status: 'started',
+        training_progress: '0/100',
+        replica_type: 'user',
+        callback_url: input.callback_url,
+      });
+      return [200, { replica_id: replica.replica_id, status: replica.status }];
+    });
+    route('GET', '/replicas', (_, request) => this.list('replicas', request, (item) =>
+      !request.query.replica_type || item.replica_type === request.query.replica_type));
+    route('GET', '/replicas/:id', ([, id]) => [200, this.advance('replicas', id)]);
+    route('DELETE', '/replicas/:id', ([, id]) => this.remove('replicas', id));
+    route('PATCH', '/replicas/:id/name', ([, id], { body }) =>
+      this.rename('replicas', id, 'replica_name', body as Entity));
+
+    // Videos
+    route('POST', '/videos', (_, { body }) => {
+      const input = body as Entity;
+      requireFields(input, ['replica_id']);
+      if (!input.script && !input.audio_url) {
+        throw badRequest('Either script or audio_url is required');
+      }
+      this.find('replicas', input.replica_id);
+      const video = this.create('videos', {
+        video_name: input.video_name ?? 'Untitled video',
+        replica_id: input.replica_id,
+        status: 'queued',
+        generation_progress: '0/100',
+        callback_url: input.callback_url,
+      });
+      return [200, {
+        video_id: video.video_id,
+        video_name: video.video_name,
+        status: video.status,
+        hosted_url: `https://videos.mock.tavus.io/video/${video.video_id}`,
+        created_at: video.created_at,
+      }];
+    });
+    route('GET', '/videos', (_, request) => this.list('videos', request));
+    route('GET', '/videos/:id', ([, id]) => [200, this.advance('videos', id)]);
+    route('DELETE', '/videos/:id', ([, id]) => this.remove('videos', id));
+    route('PATCH', '/videos/:id/name', ([, id], { body }) =>
+      this.rename('videos', id, 'video_name', body as Entity));
+
+    // Conversations
+    route('POST', '/conversations', (_, { body }) => {
+      const input = body as Entity;
+      if (!input.replica_id && !input.persona_id) {
+        throw badRequest('replica_id or persona_id is required');
+      }
+      const conversation = this.create('conversations', {
+        conversation_name: input.conversation_name ?? 'Untitled conversation',
+        replica_id: input.replica_id,
+        persona_id: input.persona_id,
+        status: 'active',
+        callback_url: input.callback_url,
+      });
+      conversation.conversation_url = `https://tavus.daily.co/${conversation.conversation_id}`;
+      return [200, conversation];
+    });
+    route('GET', '/conversations', (_, request) => this.list('conversations', request));
+    // Events (transcript, perception analysis, shutdown) only come back with verbose=true
+    route('GET', '/conversations/:id', ([, id], { query }) => {
+      const { events, ...conversation } = this.present(this.find('conversations', id));
+      return [200, query.verbose === 'true' ? { ...conversation, events: events ?? [] } : conversation];
+    });
+    route('POST', '/conversations/:id/end', ([, id]) => {
+      const conversation = this.find('conversations', id);
+      conversation.status = 'ended';
+      conversation.updated_at = new Date().toISOString();
+      return [200, { conversation_id: id, status: 'ended' }];
+    });
+    route('DELETE', '/conversations/:id', ([, id]) => this.remove('conversations', id));
+
+    // Personas
+    route('POST', '/personas', (_, { body }) => {
+      const input = body as Entity;
+      const persona = this.create('personas', {
+        persona_name: input.persona_name,
+        default_replica_id: input.default_replica_id ?? input.replica_id,
+        system_prompt: input.system_prompt,
+        context: input.context,
+        layers: input.layers,
+      });
+      return [200, { persona_id: persona.persona_id, persona_name: persona.persona_name, created_at: persona.created_at }];
+    });
+    route('GET', '/personas', (_, request) => this.list('personas', request));
+    route('GET', '/personas/:id', ([, id]) => [200, this.find('personas', id)]);
+    route('PATCH', '/personas/:id', ([, id], { body }) => {
+      const persona = this.find('personas', id);
+      if (!Array.isArray(body)) {
+        throw badRequest('Request body must be a JSON Patch array');
+      }
+      let updated: Entity;
+      try {
+        updated = applyPatch(persona, body as PatchOperation[]);
+      } catch (error) {
+        if (error instanceof JsonPatchError) throw badRequest(error.message);
+        throw error;
+      }
+      updated.persona_id = id;
+      updated.updated_at = new Date().toISOString();
+      this.collections.personas.items.set(id, updated);
+      return [200, updated];
+    });
+    route('DELETE', '/personas/:id', ([, id]) => this.remove('personas', id));
+
+    // Lipsync
+    route('POST', '/lipsync', (_, { body }) => {
+      requireFields(body as Entity, ['video_url', 'audio_url']);
+      const lipsync = this.create('lipsync', {
+        status: 'started',
+        source_video_url: (body as Entity).video_url,
+        source_audio_url: (body as Entity).audio_url,
+        callback_url: (body as Entity).callback_url,
+      });
+      return [200, { lipsync_id: lipsync.lipsync_id, status: lipsync.status, created_at: lipsync.created_at }];
+    });
+    route('GET', '/lipsync', (_, request) => this.list('lipsync', request));
+    route('GET', '/lipsync/:id', ([, id]) => [200, this.advance('lipsync', id)]);
+    route('DELETE', '/lipsync/:id', ([, id]) => this.remove('lipsync', id));
+
+    // Speech
+    route('POST', '/speech', (_, { body }) => {
+      const input = body as Entity;
+      requireFields(input, ['replica_id', 'script']);
+      this.find('replicas', input.replica_id);
+      const speech = this.create('speech', {
+        speech_name: input.speech_name ?? 'Untitled speech',
+        replica_id: input.replica_id,
+        script: input.script,
+        status: 'started',
+        callback_url: input.callback_url,
+      });
+      return [200, { speech_id: speech.speech_id, speech_name: speech.speech_name, status: speech.status, created_at: speech.created_at }];
+    });
+    route('GET', '/speech', (_, request) => this.list('speech', request));
+    route('GET', '/speech/:id', ([, id]) => [200, this.advance('speech', id)]);
+    route('DELETE', '/speech/:id', ([, id]) => this.remove('speech', id));
+    route('PATCH', '/speech/:id/name', ([, id], { body }) =>
+      this.rename('speech', id, 'speech_name', body as Entity));
+  }
+
+  private create(collectionName: string, fields: Entity): Entity {
+    const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+    return this.seed(collectionName, { ...defined, _steps: 0 });
+  }
+
+  private find(collectionName: string, id: string): Entity {
+    const collection = this.collections[collectionName];
+    const item = collection.items.get(id);
+    if (!item) {
+      throw new HttpError(404, { error: `${collection.idField} ${id} not found` });
+    }
+    return item;
+  }
+
+  private list(collectionName: string, request: MockRequest, filter: (item: Entity) => boolean = () => true): [number, unknown] {
+    const items = [...this.collections[collectionName].items.values()].filter(filter);
+    const limit = Number(request.query.limit) || items.length || 1;
+    const page = Number(request.query.page) || 1;
+    const data = items.slice((page - 1) * limit, page * limit).map((item) => this.present(item));
+    return [200, { data, total_count: items.length }];
+  }
+
+  private remove(collectionName: string, id: string): [number, unknown] {
+    this.find(collectionName, id);
+    this.collections[collectionName].items.delete(id);
+    return [200, {}];
+  }
+
+  private rename(collectionName: string, id: string, field: string, body: Entity): [number, unknown] {
+    requireFields(body ?? {}, [field]);
+    const item = this.find(collectionName, id);
+    item[field] = body[field];
+    item.updated_at = new Date().toISOString();
+    return [200, this.present(item)];
+  }
+
+  /**
+   * Moves an async job one step along its status sequence and returns it.
+   */
+  private advance(collectionName: string, id: string): Entity {
+    const item = this.find(collectionName, id);
+    const finished = ['ready', 'completed', 'error'].includes(item.status);
+    if (!finished && item._steps !== undefined) {
+      item._steps += 1;
+      const done = item._steps >= this.stepsToComplete;
+      const percent = `${Math.min(100, Math.round((item._steps / this.stepsToComplete) * 100))}/100`;
+      switch (collectionName) {
+        case 'replicas':
+          item.training_progress = percent;
+          item.status = done ? 'completed' : 'started';
+          if (done) item.thumbnail_video_url = `https://cdn.mock.tavus.io/replicas/${id}.mp4`;
+          break;
+        case 'videos':
+          item.generation_progress = percent;
+          item.status = done ? 'ready' : 'generating';
+          if (done) {
+            item.hosted_url = `https://videos.mock.tavus.io/video/${id}`;
+            item.download_url = this.mediaUrl(`videos/${id}.mp4`);
+            item.stream_url = `https://stream.mock.tavus.io/${id}.m3u8`;
+          }
+          break;
+        case 'lipsync':
+          item.status = done ? 'completed' : 'started';
+          if (done) item.video_url = this.mediaUrl(`lipsync/${id}.mp4`);
+          break;
+        case 'speech':
+          item.status = done ? 'ready' : 'started';
+          if (done) item.audio_url = this.mediaUrl(`speech/${id}.mp3`);
+          break;
+      }
+      item.updated_at = new Date().toISOString();
+    }
+    return this.present(item);
+  }
+
+  private present(item: Entity): Entity {
+    const { _steps, ...visible } = item;
+    return visible;
+  }
+
+  private takeFailure(request: MockRequest): MockFailure | undefined {
+    const index = this.failures.findIndex((failure) =>
+      (!failure.method || failure.method.toUpperCase() === request.method) &&
+      (!failure.path || request.path.startsWith(failure.path)));
+    if (index === -1) return undefined;
+    const failure = this.failures[index];
+    failure.count = (failure.count ?? 1) - 1;
+    if (failure.count <= 0) this.failures.splice(index, 1);
+    return failure;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    let body: unknown;
+    try {
+      body = await readJson(req);
+    } catch {
+      send(res, 400, { message: 'Request body is not valid JSON' });
+      return;
+    }
+
+    if (url.pathname.startsWith(CONTROL_PREFIX)) {
+      this.handleControl(req.method ?? 'GET', url.pathname.slice(CONTROL_PREFIX.length), body, res);
+      return;
+    }
+
+    if (url.pathname.startsWith(`${MEDIA_PREFIX}/`)) {
+      this.serveMedia(req, url.pathname, res);
+      return;
+    }
+
+    if (!url.pathname.startsWith(API_PREFIX)) {
+      send(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const request: MockRequest = {
+      method: req.method ?? 'GET',
+      path: url.pathname.slice(API_PREFIX.length) || '/',
+      query: Object.fromEntries(url.searchParams),
+      headers: req.headers,
+      body,
+    };
+    this.requests.push(request);
+
+    const apiKey = req.headers['x-api-key'];
+    if (!apiKey || (this.options.apiKey !== undefined && apiKey !== this.options.apiKey)) {
+      send(res, 401, { message: 'Invalid access token' });
+      return;
+    }
+
+    const failure = this.takeFailure(request);
+    if (failure) {
+      if (failure.hang) return;
+      if (failure.delay_ms) await new Promise((resolve) => setTimeout(resolve, failure.delay_ms));
+      if (failure.status) {
+        const headers: Record<string, string> = {};
+        if (failure.retry_after !== undefined) headers['Retry-After'] = String(failure.retry_after);
+        send(res, failure.status, failure.body ?? { error: `Injected failure (HTTP ${failure.status})` }, headers);
+        return;
+      }
+    }
+
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+      const match = request.path.match(route.pattern);
+      if (!match) continue;
+      try {
+        const [status, payload] = route.handle(match, request);
+        send(res, status, payload);
+      } catch (error) {
+        if (error instanceof HttpError) {
+          send(res, error.status, error.body);
+        } else {
+          send(res, 500, { error: String(error) });
+        }
+      }
+      return;
+    }
+
+    send(res, 404, { error: `No route for ${request.method} ${request.path}` });
+  }
+
+  /**
+   * Serves a file of MEDIA_SIZE bytes derived from its path. Like a CDN it
+   * needs no API key, sends an ETag and honors "Range: bytes=N-", ignoring
+   * the range when an If-Range header names an older ETag.
+   */
+  private serveMedia(req: IncomingMessage, path: string, res: ServerResponse): void {
+    const request: MockRequest = { method: req.method ?? 'GET', path, query: {}, headers: req.headers };
+    this.requests.push(request);
+    if (request.method !== 'GET') {
+      send(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const version = this.mediaVersions.get(path) ?? 0;
+    const content = mediaContent(path, version);
+    const etag = `"${path}-${version}"`;
+    const ifRange = req.headers['if-range'];
+    const range = ifRange === undefined || ifRange === etag
+      ? String(req.headers.range ?? '').match(/^bytes=(\d+)-$/)
+      : null;
+    const start = range ? Number(range[1]) : 0;
+    if (start >= content.length) {
+      res.writeHead(416, { 'Content-Range': `bytes */${content.length}` });
+      res.end();
+      return;
+    }
+
+    const body = content.subarray(start);
+    res.writeHead(range ? 206 : 200, {
+      'Content-Type': path.endsWith('.mp3') ? 'audio/mpeg' : 'video/mp4',
+      'Content-Length': String(body.length),
+      'Accept-Ranges': 'bytes',
+      ETag: etag,
+      ...(range ? { 'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}` } : {}),
+    });
+
+    const failure = this.takeFailure(request);
+    if (failure?.truncate_after !== undefined) {
+      res.write(body.subarray(0, failure.truncate_after), () => res.destroy());
+      return;
+    }
+    if (failure?.stall_after !== undefined) {
+      // The connection stays open until the client gives up or close() runs
+      res.write(body.subarray(0, failure.stall_after));
+      return;
+    }
+    res.end(body);
+  }
+
+  private handleControl(method: string, path: string, body: unknown, res: ServerResponse): void {
+    if (method === 'POST' && path === '/failures') {
+      const failures = Array.isArray(body) ? body : [body];
+      failures.forEach((failure) => this.failNext(failure as MockFailure));
+      send(res, 200, { pending: this.failures.length });
+    } else if (method === 'POST' && path === '/reset') {
+      this.reset();
+      send(res, 200, { reset: true });
+    } else if (method === 'GET' && path === '/requests') {
+      send(res, 200, this.requests.map(({ headers, ...request }) => request));
+    } else {
+      send(res, 404, { error: 'Unknown mock control endpoint' });
+    }
+  }
+}
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (raw.trim() === '') {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(raw));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function mediaContent(path: string, version: number): Buffer {
+  return Buffer.alloc(MEDIA_SIZE, version > 0 ? `mock media ${path} v${version}\n` : `mock media ${path}\n`);
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Standalone mode: node build/mock-tavus.js [--port 4010]
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  const portFlag = process.argv.indexOf('--port');
+  const port = portFlag === -1 ? Number(process.env.MOCK_TAVUS_PORT) || DEFAULT_MOCK_PORT : Number(process.argv[portFlag + 1]);
+  const mock = new MockTavusApi({ apiKey: process.env.MOCK_TAVUS_API_KEY });
+  mock.start(port).then(() => {
+    console.error(`Mock Tavus API listening on ${mock.url}`);
+  }).catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
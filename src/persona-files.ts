@@ -0,0 +1,258 @@
+/**
+ * Persona files: a stable, versioned JSON or YAML form of a persona that
+ * can live in version control next to the code that uses it.
+ *
+ * A file holds the persona's editable fields and layers, with fields Tavus
+ * manages (IDs and timestamps) and null values left out. Keys are written
+ * in a fixed order — the order of the persona schema, then alphabetical —
+ * so exporting the same persona twice gives byte-identical files and
+ * diffs only show real changes. Secret-looking values such as
+ * layers.llm.api_key are left out unless explicitly requested.
+ *
+ * Files are read and written under TAVUS_PERSONA_DIR (default: the
+ * server's working directory); paths outside it, including through
+ * symlinks, are rejected.
+ */
+
+import { lstat, mkdir, readFile, realpath, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { isInside } from './downloads.js';
+import { diff, formatPointer, getPointer } from './json-patch.js';
+import { isSecretKey } from './ledger.js';
+import { PERSONA_LAYERS_SCHEMA } from './personas.js';
+import { JsonSchema } from './validation.js';
+import { parseYaml, toYaml } from './yaml.js';
+
+export const PERSONA_FILE_FORMAT = 'tavus-persona';
+export const PERSONA_FILE_VERSION = 1;
+
+// Fields Tavus sets itself, which a file never carries
+export const SERVER_MANAGED_PERSONA_FIELDS = ['persona_id', 'created_at', 'updated_at'];
+
+export type PersonaFileSyntax = 'json' | 'yaml';
+
+export interface PersonaFile {
+  format: typeof PERSONA_FILE_FORMAT;
+  version: typeof PERSONA_FILE_VERSION;
+  persona: Record<string, unknown>;
+}
+
+export interface PersonaFileOptions {
+  root: string;
+}
+
+export interface CanonicalPersona {
+  persona: Record<string, unknown>;
+  /** JSON pointers of the secret values that were left out */
+  omitted_secrets: string[];
+}
+
+// Decides the key order of a persona file
+const PERSONA_FILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    persona_name: { type: 'string' },
+    default_replica_id: { type: 'string' },
+    context: { type: 'string' },
+    system_prompt: { type: 'string' },
+    layers: PERSONA_LAYERS_SCHEMA,
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function canonicalize(
+  value: unknown,
+  schema: JsonSchema | undefined,
+  path: string[],
+  options: { includeSecrets: boolean; omitted: string[] }
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => canonicalize(item, schema?.items, [...path, String(index)], options));
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  const declared = Object.keys(schema?.properties ?? {});
+  const keys = [
+    ...declared.filter((key) => key in value),
+    ...Object.keys(value).filter((key) => !declared.includes(key)).sort(),
+  ];
+  const result: Record<string, unknown> = {};
+  for (const key of keys) {
+    const field = value[key];
+    if (field === null || field === undefined) continue;
+    if (!options.includeSecrets && isSecretKey(key)) {
+      options.omitted.push(formatPointer([...path, key]));
+      continue;
+    }
+    result[key] = canonicalize(field, schema?.properties?.[key], [...path, key], options);
+  }
+  return result;
+}
+
+/**
+ * Reduces a persona, as Tavus returns it or as read from a file, to the
+ * canonical content of a persona file.
+ */
+export function canonicalPersona(data: unknown, includeSecrets = false): CanonicalPersona {
+  if (!isRecord(data)) {
+    throw new Error('A persona must be an object');
+  }
+  const editable = Object.fromEntries(
+    Object.entries(data).filter(([key]) => !SERVER_MANAGED_PERSONA_FIELDS.includes(key))
+  );
+  const omitted: string[] = [];
+  const persona = canonicalize(editable, PERSONA_FILE_SCHEMA, [], { includeSecrets, omitted });
+  return { persona: persona as Record<string, unknown>, omitted_secrets: omitted };
+}
+
+export function personaFileOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): PersonaFileOptions {
+  return { root: resolve(env.TAVUS_PERSONA_DIR || process.cwd()) };
+}
+
+/**
+ * Resolves a requested path against the persona directory. Paths that end
+ * up outside it, before or after following symlinks, are rejected.
+ */
+async function resolvePersonaPath(root: string, requested: string, create: boolean): Promise<string> {
+  const file = resolve(root, requested);
+  if (!isInside(root, file)) {
+    throw new Error(`${requested} is outside the persona directory ${root}`);
+  }
+
+  if (create) {
+    await mkdir(dirname(file), { recursive: true });
+    // Writing through a symlink could land anywhere
+    if ((await lstat(file).catch(() => undefined))?.isSymbolicLink()) {
+      throw new Error(`${requested} is a symlink; write to a regular file instead`);
+    }
+  }
+  let realFile: string;
+  try {
+    realFile = create ? join(await realpath(dirname(file)), basename(file)) : await realpath(file);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new Error(code === 'ENOENT' ? `${file} does not exist` : `could not read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!isInside(await realpath(root), realFile)) {
+    throw new Error(`${requested} resolves outside the persona directory ${root}`);
+  }
+  return file;
+}
+
+export function syntaxForPath(path: string): PersonaFileSyntax {
+  return ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? 'yaml' : 'json';
+}
+
+export function formatPersonaFile(persona: Record<string, unknown>, syntax: PersonaFileSyntax): string {
+  const file: PersonaFile = {
+    format: PERSONA_FILE_FORMAT,
+    version: PERSONA_FILE_VERSION,
+    persona,
+  };
+  return syntax === 'yaml' ? toYaml(file) : `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/**
+ * Parses the text of a persona file and returns its canonical persona.
+ * Without a known syntax, text starting with "{" is read as JSON and
+ * anything else as YAML.
+ */
+export function parsePersonaFile(text: string, syntax?: PersonaFileSyntax): Record<string, unknown> {
+  const json = syntax ? syntax === 'json' : text.trimStart().startsWith('{');
+  let file: unknown;
+  try {
+    file = json ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`not valid ${json ? 'JSON' : 'YAML'}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!isRecord(file) || file.format !== PERSONA_FILE_FORMAT) {
+    throw new Error(`not a persona file (expected "format: ${PERSONA_FILE_FORMAT}")`);
+  }
+  if (typeof file.version !== 'number' || file.version > PERSONA_FILE_VERSION) {
+    throw new Error(`unsupported persona file version ${JSON.stringify(file.version)}; this server reads version ${PERSONA_FILE_VERSION}`);
+  }
+  if (!isRecord(file.persona)) {
+    throw new Error('"persona" must be an object');
+  }
+  return canonicalPersona(file.persona, true).persona;
+}
+
+/**
+ * Loads a persona file from either a path (resolved against `root`) or its
+ * text. Returns the persona and a label for messages.
+ */
+export async function loadPersonaFile(
+  root: string,
+  options: { path?: string; content?: string }
+): Promise<{ persona: Record<string, unknown>; source: string }> {
+  if ((options.path === undefined) === (options.content === undefined)) {
+    throw new Error('pass either path or content');
+  }
+  if (options.content !== undefined) {
+    return { persona: parsePersonaFile(options.content), source: 'the given content' };
+  }
+
+  const file = await resolvePersonaPath(root, options.path!, false);
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new Error(code === 'ENOENT' ? `${file} does not exist` : `could not read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  try {
+    return { persona: parsePersonaFile(text, syntaxForPath(file)), source: file };
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Writes a persona file under `root`, creating its directory if needed, and
+ * returns the absolute path written. An existing file is only replaced
+ * when `overwrite` is set.
+ */
+export async function writePersonaFile(
+  root: string,
+  path: string,
+  text: string,
+  overwrite = false
+): Promise<string> {
+  const file = await resolvePersonaPath(root, path, true);
+  try {
+    await writeFile(file, text, { flag: overwrite ? 'w' : 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`${file} already exists; pass overwrite: true to replace it`);
+    }
+    throw error;
+  }
+  return file;
+}
+
+export interface PersonaDifference {
+  path: string;
+  live?: unknown;
+  file?: unknown;
+}
+
+/**
+ * Lists where a file's persona differs from the live one. A difference
+ * without `live` exists only in the file, one without `file` only in Tavus.
+ */
+export function personaDifferences(
+  live: Record<string, unknown>,
+  local: Record<string, unknown>
+): PersonaDifference[] {
+  return diff(live, local).map((operation) => ({
+    path: operation.path,
+    ...(operation.op !== 'add' ? { live: getPointer(live, operation.path) } : {}),
+    ...(operation.op !== 'remove' ? { file: operation.value } : {}),
+  }));
+}
@@ -0,0 +1,359 @@
+/**
+ * Persona types and the schemas for their configuration layers.
+ *
+ * A Tavus persona is configured through four optional layers: speech-to-text
+ * (stt), the language model (llm), text-to-speech (tts) and Raven visual
+ * perception (perception). The interfaces below model the fields Tavus
+ * documents for each layer, and the matching JSON schemas tell the model
+ * which fields exist when it creates or edits a persona. A layer field the
+ * schemas do not know is rejected rather than sent to Tavus.
+ */
+
+import { merge } from './json-patch.js';
+import { isSecretKey } from './ledger.js';
+import { JsonSchema } from './validation.js';
+
+export type SttEngine = 'tavus-turbo' | 'tavus-advanced';
+export type Sensitivity = 'low' | 'medium' | 'high';
+export type TtsEngine = 'cartesia' | 'elevenlabs' | 'playht';
+export type PerceptionModel = 'raven-0' | 'basic' | 'off';
+export type PipelineMode = 'full' | 'echo';
+
+/**
+ * OpenAI-style function definition the LLM or perception layer may call.
+ */
+export interface PersonaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export interface SttLayer {
+  stt_engine?: SttEngine;
+  participant_pause_sensitivity?: Sensitivity;
+  participant_interrupt_sensitivity?: Sensitivity;
+  hotwords?: string;
+  smart_turn_detection?: boolean;
+}
+
+export interface LlmLayer {
+  model?: string;
+  base_url?: string;
+  api_key?: string;
+  tools?: PersonaTool[];
+  headers?: Record<string, string>;
+  extra_body?: Record<string, unknown>;
+  speculative_inference?: boolean;
+}
+
+export interface TtsVoiceSettings {
+  speed?: number | string;
+  emotion?: string[];
+  stability?: number;
+  similarity_boost?: number;
+  [setting: string]: unknown;
+}
+
+export interface TtsLayer {
+  tts_engine?: TtsEngine;
+  api_key?: string;
+  external_voice_id?: string;
+  voice_settings?: TtsVoiceSettings;
+  playht_user_id?: string;
+  tts_emotion_control?: boolean;
+  tts_model_name?: string;
+}
+
+export interface PerceptionLayer {
+  perception_model?: PerceptionModel;
+  ambient_awareness_queries?: string[];
+  perception_tool_prompt?: string;
+  perception_tools?: PersonaTool[];
+}
+
+export interface PersonaLayers {
+  stt?: SttLayer;
+  llm?: LlmLayer;
+  tts?: TtsLayer;
+  perception?: PerceptionLayer;
+}
+
+export interface TavusPersona {
+  persona_id: string;
+  persona_name?: string;
+  default_replica_id?: string;
+  context?: string;
+  system_prompt?: string;
+  pipeline_mode?: PipelineMode;
+  layers?: PersonaLayers;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export const PIPELINE_MODE_SCHEMA: JsonSchema = {
+  type: 'string',
+  description: 'full runs the whole STT, LLM and TTS pipeline; echo has the replica speak only the text or audio sent to the conversation',
+  enum: ['full', 'echo'],
+};
+
+const SENSITIVITY_SCHEMA: JsonSchema = {
+  type: 'string',
+  enum: ['low', 'medium', 'high'],
+};
+
+const TOOL_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'OpenAI-style function tool',
+  properties: {
+    type: { type: 'string', enum: ['function'] },
+    function: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Function name' },
+        description: { type: 'string', description: 'What the function does and when to call it' },
+        parameters: { type: 'object', description: 'JSON Schema for the function arguments' },
+      },
+      required: ['name'],
+    },
+  },
+  required: ['type', 'function'],
+};
+
+export const STT_LAYER_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'Speech-to-text settings',
+  additionalProperties: false,
+  properties: {
+    stt_engine: {
+      type: 'string',
+      description: 'Transcription engine',
+      enum: ['tavus-turbo', 'tavus-advanced'],
+    },
+    participant_pause_sensitivity: {
+      ...SENSITIVITY_SCHEMA,
+      description: 'How long a pause counts as the participant finishing their turn (high = shorter pause)',
+    },
+    participant_interrupt_sensitivity: {
+      ...SENSITIVITY_SCHEMA,
+      description: 'How readily the participant can interrupt the replica (high = more easily)',
+    },
+    hotwords: {
+      type: 'string',
+      description: 'Names and terms the transcriber should favor, e.g. product names (tavus-advanced only)',
+    },
+    smart_turn_detection: {
+      type: 'boolean',
+      description: 'Use context-aware turn detection instead of pauses alone',
+    },
+  },
+};
+
+export const LLM_LAYER_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'Language model settings',
+  additionalProperties: false,
+  properties: {
+    model: {
+      type: 'string',
+      description: 'Tavus-hosted model (e.g. tavus-gpt-4o, tavus-gpt-4o-mini, tavus-llama) or the model name of a custom OpenAI-compatible endpoint',
+    },
+    base_url: {
+      type: 'string',
+      description: 'Base URL of a custom OpenAI-compatible LLM',
+    },
+    api_key: {
+      type: 'string',
+      description: 'API key for the custom LLM',
+    },
+    tools: {
+      type: 'array',
+      description: 'Functions the LLM may call; calls are sent to the conversation as tool-call events',
+      items: TOOL_SCHEMA,
+    },
+    headers: {
+      type: 'object',
+      description: 'Extra HTTP headers sent to the custom LLM',
+    },
+    extra_body: {
+      type: 'object',
+      description: 'Extra fields merged into each request to the LLM, e.g. temperature',
+    },
+    speculative_inference: {
+      type: 'boolean',
+      description: 'Start generating before the participant finishes speaking to reduce latency',
+    },
+  },
+};
+
+export const TTS_LAYER_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'Text-to-speech settings',
+  additionalProperties: false,
+  properties: {
+    tts_engine: {
+      type: 'string',
+      description: 'Voice provider',
+      enum: ['cartesia', 'elevenlabs', 'playht'],
+    },
+    api_key: {
+      type: 'string',
+      description: 'API key for the voice provider, when using your own account',
+    },
+    external_voice_id: {
+      type: 'string',
+      description: 'Voice ID at the voice provider',
+    },
+    voice_settings: {
+      type: 'object',
+      description: 'Provider-specific voice settings, e.g. speed and emotion (cartesia) or stability and similarity_boost (elevenlabs)',
+    },
+    playht_user_id: {
+      type: 'string',
+      description: 'PlayHT user ID (playht only)',
+    },
+    tts_emotion_control: {
+      type: 'boolean',
+      description: 'Let the replica adjust vocal emotion to the conversation (cartesia only)',
+    },
+    tts_model_name: {
+      type: 'string',
+      description: 'Provider model, e.g. sonic (cartesia) or eleven_turbo_v2_5 (elevenlabs)',
+    },
+  },
+};
+
+export const PERCEPTION_LAYER_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'Raven visual perception settings',
+  additionalProperties: false,
+  properties: {
+    perception_model: {
+      type: 'string',
+      description: 'raven-0 for full visual understanding, basic for simple context, off to disable',
+      enum: ['raven-0', 'basic', 'off'],
+    },
+    ambient_awareness_queries: {
+      type: 'array',
+      description: 'Questions Raven keeps checking in the background, e.g. "Is the user wearing a jacket?" (raven-0 only)',
+      items: { type: 'string' },
+    },
+    perception_tool_prompt: {
+      type: 'string',
+      description: 'Instructions for when to call the perception tools (raven-0 only)',
+    },
+    perception_tools: {
+      type: 'array',
+      description: 'Functions Raven may call when it sees something relevant (raven-0 only)',
+      items: TOOL_SCHEMA,
+    },
+  },
+};
+
+export const PERSONA_LAYERS_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'Configuration layers for the persona',
+  additionalProperties: false,
+  properties: {
+    stt: STT_LAYER_SCHEMA,
+    llm: LLM_LAYER_SCHEMA,
+    tts: TTS_LAYER_SCHEMA,
+    perception: PERCEPTION_LAYER_SCHEMA,
+  },
+};
+
+const PERSONA_FIELDS = [
+  'persona_id',
+  'persona_name',
+  'default_replica_id',
+  'context',
+  'system_prompt',
+  'pipeline_mode',
+  'layers',
+  'created_at',
+  'updated_at',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lists the fields of a persona returned by Tavus that the types above do
+ * not model, keyed by path (layer fields as `layers.<layer>.<field>`). The
+ * persona itself is shown as Tavus sent it; this only annotates it.
+ */
+export function unrecognizedPersonaFields(data: unknown): Record<string, unknown> {
+  const unrecognized: Record<string, unknown> = {};
+  if (!isRecord(data)) return unrecognized;
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!PERSONA_FIELDS.includes(key)) unrecognized[key] = value;
+  }
+  if (isRecord(data.layers)) {
+    const layerSchemas = PERSONA_LAYERS_SCHEMA.properties!;
+    for (const [name, layer] of Object.entries(data.layers)) {
+      const declared = layerSchemas[name]?.properties;
+      if (!declared || !isRecord(layer)) {
+        if (layer !== null && layer !== undefined) unrecognized[`layers.${name}`] = layer;
+        continue;
+      }
+      for (const [field, value] of Object.entries(layer)) {
+        if (!(field in declared)) unrecognized[`layers.${name}.${field}`] = value;
+      }
+    }
+  }
+  return unrecognized;
+}
+
+// Persona fields update_persona manages; IDs and timestamps are left alone
+export const EDITABLE_PERSONA_FIELDS = [
+  'persona_name',
+  'default_replica_id',
+  'context',
+  'system_prompt',
+  'pipeline_mode',
+  'layers',
+];
+
+// Copies secret values the definition left out back from the current
+// persona, wherever their enclosing object is still there
+function keepSecrets(current: Record<string, unknown>, desired: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(current)) {
+    if (!(key in desired)) {
+      if (isSecretKey(key)) desired[key] = value;
+    } else if (isRecord(value) && isRecord(desired[key])) {
+      desired[key] = { ...(desired[key] as Record<string, unknown>) };
+      keepSecrets(value, desired[key] as Record<string, unknown>);
+    }
+  }
+}
+
+/**
+ * Builds the document update_persona should end up with. By default the
+ * definition is merged into the current persona, so fields it leaves out
+ * are kept; with `prune`, editable fields (and layer settings) the
+ * definition leaves out are removed. Secret values such as
+ * layers.llm.api_key are never pruned, since exported persona files leave
+ * them out.
+ */
+export function desiredPersona(
+  current: Record<string, unknown>,
+  definition: Record<string, unknown>,
+  prune = false
+): Record<string, unknown> {
+  if (!prune) {
+    return merge(current, definition) as Record<string, unknown>;
+  }
+  const desired: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(current)) {
+    if (!EDITABLE_PERSONA_FIELDS.includes(key)) desired[key] = value;
+  }
+  for (const [key, value] of Object.entries(definition)) {
+    if (EDITABLE_PERSONA_FIELDS.includes(key)) desired[key] = value;
+  }
+  keepSecrets(current, desired);
+  return desired;
+}
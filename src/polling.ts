@@ -0,0 +1,204 @@
+/**
+ * Polling helpers behind the wait_for_* tools.
+ *
+ * Video, replica, lipsync and speech jobs all run asynchronously on Tavus.
+ * These helpers re-fetch a job with exponential backoff until it reaches a
+ * terminal status or the caller's timeout expires, reporting each poll
+ * through an optional progress callback.
+ */
+
+import { AxiosInstance } from 'axios';
+import { JsonSchema } from './validation.js';
+
+export const SUCCESS_STATUSES = ['ready', 'completed'];
+const FAILURE_STATUSES = ['error', 'failed', 'deleted'];
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 5;
+const DEFAULT_MAX_POLL_INTERVAL_SECONDS = 30;
+const BACKOFF_FACTOR = 1.5;
+
+export interface JobTarget {
+  label: string;
+  idField: string;
+  path: (id: string) => string;
+  progressField?: string;
+  defaultTimeoutSeconds: number;
+}
+
+export const VIDEO_JOB: JobTarget = {
+  label: 'video',
+  idField: 'video_id',
+  path: (id) => `/videos/${id}`,
+  progressField: 'generation_progress',
+  defaultTimeoutSeconds: 900,
+};
+
+export const REPLICA_JOB: JobTarget = {
+  label: 'replica',
+  idField: 'replica_id',
+  path: (id) => `/replicas/${id}`,
+  progressField: 'training_progress',
+  defaultTimeoutSeconds: 3600,
+};
+
+export const LIPSYNC_JOB: JobTarget = {
+  label: 'lipsync',
+  idField: 'lipsync_id',
+  path: (id) => `/lipsync/${id}`,
+  defaultTimeoutSeconds: 900,
+};
+
+export const SPEECH_JOB: JobTarget = {
+  label: 'speech',
+  idField: 'speech_id',
+  path: (id) => `/speech/${id}`,
+  defaultTimeoutSeconds: 600,
+};
+
+export interface WaitOptions {
+  timeout_seconds?: number;
+  poll_interval_seconds?: number;
+  max_poll_interval_seconds?: number;
+}
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message: string;
+}
+
+export interface WaitContext {
+  signal?: AbortSignal;
+  onProgress?: (update: ProgressUpdate) => Promise<void>;
+}
+
+export interface WaitResult {
+  outcome: 'ready' | 'error' | 'timeout';
+  status?: string;
+  error_message?: string;
+  polls: number;
+  elapsed_seconds: number;
+  job: any;
+}
+
+/**
+ * Builds the input schema properties for a wait_for_* tool.
+ */
+export function waitProperties(target: JobTarget): Record<string, JsonSchema> {
+  return {
+    [target.idField]: {
+      type: 'string',
+      description: `Unique identifier for the ${target.label}`,
+    },
+    timeout_seconds: {
+      type: 'number',
+      description: `Give up after this many seconds (default ${target.defaultTimeoutSeconds})`,
+      minimum: 1,
+    },
+    poll_interval_seconds: {
+      type: 'number',
+      description: `Initial delay between polls (default ${DEFAULT_POLL_INTERVAL_SECONDS})`,
+      minimum: 1,
+    },
+    max_poll_interval_seconds: {
+      type: 'number',
+      description: `Upper bound for the backoff delay (default ${DEFAULT_MAX_POLL_INTERVAL_SECONDS})`,
+      minimum: 1,
+    },
+  };
+}
+
+/**
+ * Parses progress values such as "45/100" or "45" into a percentage.
+ */
+export function parsePercent(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:\/\s*(\d+(?:\.\d+)?))?\s*%?$/);
+  if (!match) return undefined;
+  const done = Number(match[1]);
+  const total = match[2] ? Number(match[2]) : 100;
+  return total > 0 ? (done / total) * 100 : undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Wait cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Wait cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Polls a Tavus job until it succeeds, fails or the timeout expires.
+ */
+export async function waitForJob(
+  client: AxiosInstance,
+  target: JobTarget,
+  id: string,
+  options: WaitOptions,
+  context: WaitContext = {}
+): Promise<WaitResult> {
+  const timeoutMs = (options.timeout_seconds ?? target.defaultTimeoutSeconds) * 1000;
+  const maxIntervalMs = (options.max_poll_interval_seconds ?? DEFAULT_MAX_POLL_INTERVAL_SECONDS) * 1000;
+  let intervalMs = Math.min(
+    (options.poll_interval_seconds ?? DEFAULT_POLL_INTERVAL_SECONDS) * 1000,
+    maxIntervalMs
+  );
+
+  const started = Date.now();
+  let polls = 0;
+  let reported = 0;
+  let job: any;
+
+  const finish = (outcome: WaitResult['outcome']): WaitResult => ({
+    outcome,
+    status: job?.status,
+    error_message: job?.error_message,
+    polls,
+    elapsed_seconds: Math.round((Date.now() - started) / 1000),
+    job,
+  });
+
+  for (;;) {
+    const response = await client.get(target.path(id));
+    job = response.data;
+    polls++;
+
+    const status = String(job?.status ?? 'unknown');
+    const rawProgress = target.progressField ? job?.[target.progressField] : undefined;
+    const percent = parsePercent(rawProgress);
+
+    if (context.onProgress) {
+      // Progress must never decrease, so fall back to the poll count when
+      // Tavus does not report a percentage
+      reported = Math.max(reported, percent ?? polls);
+      await context.onProgress({
+        progress: reported,
+        total: percent !== undefined ? 100 : undefined,
+        message: rawProgress !== undefined
+          ? `${target.label} ${id} ${status} (${rawProgress})`
+          : `${target.label} ${id} ${status}`,
+      });
+    }
+
+    if (SUCCESS_STATUSES.includes(status)) return finish('ready');
+    if (FAILURE_STATUSES.includes(status)) return finish('error');
+
+    const remaining = timeoutMs - (Date.now() - started);
+    if (remaining <= 0) return finish('timeout');
+
+    await sleep(Math.min(intervalMs, remaining), context.signal);
+    intervalMs = Math.min(intervalMs * BACKOFF_FACTOR, maxIntervalMs);
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * Preflight checks for media inputs.
+ *
+ * Replica training takes hours and a bad training video only shows up at
+ * the end as the replica's error_message, so media is checked before a job
+ * is submitted. A URL must be reachable and serve a media content type
+ * within the size limit. A local file, or the headers of a remote one
+ * fetched with Range requests, is parsed for its format, duration,
+ * resolution, frame rate and audio sample rate, which are compared with
+ * Tavus's requirements for what the media is used as.
+ *
+ * Problems that would make Tavus reject the job are errors; ones that only
+ * hurt quality, or checks that could not be made, are warnings.
+ *
+ * URLs come from the caller, who may be a remote client of the HTTP
+ * transport, so loopback, private and link-local hosts are refused unless
+ * TAVUS_PREFLIGHT_PRIVATE_HOSTS allows them. The check runs on the resolved
+ * addresses of every request, redirects included.
+ */
+
+import axios, { LookupAddressEntry } from 'axios';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { resolve } from 'node:path';
+import { Readable } from 'node:stream';
+import { MediaContainer, MediaInfo, MediaParseError, MediaReader, fileReader, probeMedia } from './media.js';
+import { UploadError, localPathOf, resolveLocalFile } from './uploads.js';
+
+const MB = 1024 * 1024;
+
+// Bytes fetched by the first request for a URL; enough for WAV, MP3 and
+// MP4 files with the moov box up front
+const FIRST_CHUNK_BYTES = 256 * 1024;
+
+const HTTP_TIMEOUT_MS = 15000;
+
+// Signed media links redirect once or twice at most
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (cloud metadata endpoints), shared,
+// multicast and reserved ranges. IPv4-mapped IPv6 addresses match the IPv4
+// rules
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Content types servers use for files whose type they do not know
+const GENERIC_CONTENT_TYPES = ['application/octet-stream', 'binary/octet-stream', 'application/mp4'];
+
+export type MediaKind = 'training_video' | 'consent_video' | 'video' | 'audio';
+
+export const MEDIA_KINDS: MediaKind[] = ['training_video', 'consent_video', 'video', 'audio'];
+
+export interface MediaRequirements {
+  label: string;
+  containers: MediaContainer[];
+  contentType: 'video' | 'audio';
+  maxBytes?: number;
+  minDurationSeconds?: number;
+  recommendedHeight?: number;
+  recommendedFrameRate?: number;
+  needsAudio?: boolean;
+  recommendedSampleRate?: number;
+}
+
+const VIDEO_CONTAINERS: MediaContainer[] = ['mp4', 'mov', 'webm'];
+
+// Tavus's published guidelines for replica training and media inputs
+export const MEDIA_REQUIREMENTS: Record<MediaKind, MediaRequirements> = {
+  training_video: {
+    label: 'training video',
+    containers: VIDEO_CONTAINERS,
+    contentType: 'video',
+    maxBytes: 750 * MB,
+    minDurationSeconds: 60,
+    recommendedHeight: 1080,
+    recommendedFrameRate: 24,
+    needsAudio: true,
+  },
+  consent_video: {
+    label: 'consent video',
+    containers: VIDEO_CONTAINERS,
+    contentType: 'video',
+    maxBytes: 750 * MB,
+    needsAudio: true,
+  },
+  video: {
+    label: 'video',
+    containers: VIDEO_CONTAINERS,
+    contentType: 'video',
+    maxBytes: 750 * MB,
+  },
+  audio: {
+    label: 'audio file',
+    containers: ['wav', 'mp3'],
+    contentType: 'audio',
+    recommendedSampleRate: 16000,
+  },
+};
+
+// Fields checked before each creation tool, and what they are used as
+export const PREFLIGHT_FIELDS: Record<string, Record<string, MediaKind>> = {
+  create_replica: { train_video_url: 'training_video', consent_video_url: 'consent_video' },
+  generate_video: { audio_url: 'audio' },
+  create_lipsync: { video_url: 'video', audio_url: 'audio' },
+};
+
+export interface PreflightOptions {
+  /** Whether creation tools run a preflight before submitting */
+  enabled: boolean;
+  /** Directory local paths are resolved against (TAVUS_UPLOAD_DIR) */
+  root: string;
+  /** Whether URLs may point at loopback, private or link-local hosts */
+  allowPrivateHosts: boolean;
+}
+
+export interface PreflightIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface PreflightReport {
+  source: string;
+  kind: MediaKind;
+  ok: boolean;
+  http_status?: number;
+  content_type?: string;
+  bytes?: number;
+  media?: MediaInfo;
+  issues: PreflightIssue[];
+}
+
+export function preflightOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): PreflightOptions {
+  return {
+    enabled: !['0', 'false', 'no', 'off'].includes((env.TAVUS_PREFLIGHT ?? '').toLowerCase()),
+    root: resolve(env.TAVUS_UPLOAD_DIR || process.cwd()),
+    allowPrivateHosts: ['1', 'true', 'yes'].includes((env.TAVUS_PREFLIGHT_PRIVATE_HOSTS ?? '').toLowerCase()),
+  };
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function privateHostError(host: string, address: string): Error {
+  const resolved = host === address ? '' : ` resolves to ${address}, which`;
+  return new Error(`${host}${resolved} is a loopback or private address; set TAVUS_PREFLIGHT_PRIVATE_HOSTS=true to allow it`);
+}
+
+// A hostname in a URL, with IPv6 literals unbracketed
+function refusePrivateHost(hostname: string): void {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isPrivateAddress(host)) throw privateHostError(host, host);
+}
+
+// DNS lookup for the requests of a probe, failing when any address a name
+// resolves to is private. Literal addresses skip the lookup and are checked
+// by refusePrivateHost
+async function publicLookup(hostname: string): Promise<[LookupAddressEntry[]]> {
+  const addresses = await lookup(hostname, { all: true });
+  const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (blocked) throw privateHostError(hostname, blocked.address);
+  return [addresses.map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 }))];
+}
+
+// Bytes of a remote file that could not be fetched, as opposed to ones that
+// were fetched and did not parse
+class MediaFetchError extends MediaParseError {}
+
+async function readLimited(stream: Readable, limit: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+      size += (chunk as Buffer).length;
+      if (size >= limit) break;
+    }
+  } finally {
+    stream.destroy();
+  }
+  return Buffer.concat(chunks).subarray(0, limit);
+}
+
+/**
+ * Fetches the start of a URL and returns what the server says about it,
+ * plus a reader for the file's bytes that uses Range requests when the
+ * server supports them.
+ */
+async function probeUrl(url: string, allowPrivateHosts: boolean): Promise<{
+  status: number;
+  contentType?: string;
+  size?: number;
+  reader?: MediaReader;
+}> {
+  // Global axios: the Tavus API key must not go to the file host. Its
+  // defaults are shared with every other user of axios in the process, so
+  // the redirect limit is set here rather than relied on
+  const fetch = (start: number, end: number) => axios.get(url, {
+    responseType: 'stream',
+    headers: { Range: `bytes=${start}-${end}` },
+    timeout: HTTP_TIMEOUT_MS,
+    maxRedirects: MAX_REDIRECTS,
+    validateStatus: () => true,
+    ...(allowPrivateHosts ? {} : {
+      lookup: publicLookup,
+      beforeRedirect: (options) => refusePrivateHost(options.hostname),
+    }),
+  });
+
+  if (!allowPrivateHosts) refusePrivateHost(new URL(url).hostname);
+
+  const response = await fetch(0, FIRST_CHUNK_BYTES - 1);
+  const contentType = response.headers['content-type'] ? String(response.headers['content-type']) : undefined;
+  if (response.status === 416) {
+    // Nothing to return for the range: the file is empty
+    response.data.destroy?.();
+    return { status: response.status, contentType, size: 0, reader: { size: 0, read: async () => Buffer.alloc(0) } };
+  }
+  if (response.status !== 200 && response.status !== 206) {
+    response.data.destroy?.();
+    return { status: response.status, contentType };
+  }
+
+  const range = String(response.headers['content-range'] ?? '').match(/^bytes \d+-\d+\/(\d+)$/);
+  const length = Number(response.headers['content-length']);
+  const size = range ? Number(range[1]) : response.status === 200 && Number.isFinite(length) ? length : undefined;
+  const ranged = response.status === 206;
+  const head = await readLimited(response.data, FIRST_CHUNK_BYTES);
+
+  const reader: MediaReader = {
+    size,
+    async read(offset, count) {
+      if (offset + count <= head.length || (size !== undefined && head.length >= size)) {
+        return head.subarray(offset, offset + count);
+      }
+      if (!ranged) {
+        throw new MediaFetchError('the server does not support Range requests, so only the start of the file could be read');
+      }
+      const bytes = `bytes ${offset}-${offset + count - 1}`;
+      try {
+        const part = await fetch(offset, offset + count - 1);
+        if (part.status === 416) {
+          part.data.destroy?.();
+          return Buffer.alloc(0);
+        }
+        if (part.status !== 206) {
+          part.data.destroy?.();
+          throw new MediaFetchError(`fetching ${bytes} failed with HTTP ${part.status}`);
+        }
+        return await readLimited(part.data, count);
+      } catch (error) {
+        if (error instanceof MediaFetchError) throw error;
+        throw new MediaFetchError(`fetching ${bytes} failed: ${(error as Error).message}`);
+      }
+    },
+  };
+  return { status: response.status, contentType, size, reader };
+}
+
+function describeBytes(bytes: number): string {
+  return bytes >= MB ? `${Math.round((bytes / MB) * 10) / 10} MB` : `${bytes} bytes`;
+}
+
+/**
+ * Compares what is known about a file with the requirements for its kind.
+ */
+export function checkMedia(
+  kind: MediaKind,
+  facts: { contentType?: string; bytes?: number; media?: MediaInfo }
+): PreflightIssue[] {
+  const requirements = MEDIA_REQUIREMENTS[kind];
+  const issues: PreflightIssue[] = [];
+  const error = (message: string) => issues.push({ severity: 'error', message });
+  const warning = (message: string) => issues.push({ severity: 'warning', message });
+
+  if (facts.contentType !== undefined) {
+    const mime = facts.contentType.split(';')[0].trim().toLowerCase();
+    if (!mime.startsWith(`${requirements.contentType}/`) && !GENERIC_CONTENT_TYPES.includes(mime)) {
+      error(`Content-Type ${mime} is not ${requirements.contentType}; the URL may point to a web page rather than the file itself`);
+    }
+  }
+
+  if (facts.bytes === 0) {
+    error('The file is empty');
+  } else if (facts.bytes !== undefined && requirements.maxBytes && facts.bytes > requirements.maxBytes) {
+    error(`Size ${describeBytes(facts.bytes)} is over the ${describeBytes(requirements.maxBytes)} limit for a ${requirements.label}`);
+  }
+
+  const media = facts.media;
+  if (!media) return issues;
+
+  if (!requirements.containers.includes(media.container)) {
+    error(`${media.container.toUpperCase()} is not accepted for a ${requirements.label} (expected ${requirements.containers.join(', ')})`);
+    return issues;
+  }
+  if (media.container === 'webm') {
+    warning('WebM headers are not inspected, so duration and resolution were not checked');
+    return issues;
+  }
+
+  if (requirements.contentType === 'video') {
+    if (!media.video) {
+      error('The file has no video track');
+    } else {
+      const { width, height, frame_rate } = media.video;
+      if (requirements.recommendedHeight && Math.min(width, height) < requirements.recommendedHeight) {
+        warning(`Resolution ${width}x${height} is below the recommended ${requirements.recommendedHeight}p`);
+      }
+      if (requirements.recommendedFrameRate && frame_rate !== undefined && frame_rate < requirements.recommendedFrameRate) {
+        warning(`Frame rate ${frame_rate} fps is below the recommended ${requirements.recommendedFrameRate} fps`);
+      }
+    }
+    if (requirements.needsAudio && !media.audio) {
+      error(`The ${requirements.label} has no audio track`);
+    }
+  }
+
+  if (
+    requirements.minDurationSeconds && media.duration_seconds !== undefined &&
+    media.duration_seconds < requirements.minDurationSeconds
+  ) {
+    error(`Duration ${media.duration_seconds}s is shorter than the ${requirements.minDurationSeconds}s minimum for a ${requirements.label}`);
+  }
+  if (
+    requirements.recommendedSampleRate && media.audio &&
+    media.audio.sample_rate < requirements.recommendedSampleRate
+  ) {
+    warning(`Audio sample rate ${media.audio.sample_rate} Hz is below the recommended ${requirements.recommendedSampleRate} Hz`);
+  }
+  return issues;
+}
+
+/**
+ * Checks one media input: an http(s) URL, a file:// URL or a local path.
+ */
+export async function preflightMedia(
+  source: string,
+  kind: MediaKind,
+  options: Pick<PreflightOptions, 'root' | 'allowPrivateHosts'>
+): Promise<PreflightReport> {
+  const report: PreflightReport = { source, kind, ok: true, issues: [] };
+  const finish = () => {
+    report.ok = !report.issues.some((issue) => issue.severity === 'error');
+    return report;
+  };
+  const fail = (severity: PreflightIssue['severity'], message: string) => {
+    report.issues.push({ severity, message });
+    return finish();
+  };
+
+  let requested: string | undefined;
+  try {
+    requested = localPathOf(source);
+  } catch (error) {
+    return fail('error', (error as Error).message);
+  }
+
+  let reader: MediaReader | undefined;
+  let close = async () => {};
+  if (requested !== undefined) {
+    try {
+      const file = await resolveLocalFile(options.root, source, requested);
+      const opened = await fileReader(file.path);
+      reader = opened;
+      close = opened.close;
+      report.bytes = file.size;
+    } catch (error) {
+      return fail('error', error instanceof UploadError ? error.message : `Could not read ${source}: ${(error as Error).message}`);
+    }
+  } else if (!/^https?:\/\//i.test(source)) {
+    return fail('error', 'Only http(s) URLs, file:// URLs and local paths can be checked');
+  } else {
+    try {
+      const probe = await probeUrl(source, options.allowPrivateHosts);
+      report.http_status = probe.status;
+      report.content_type = probe.contentType;
+      report.bytes = probe.size;
+      if (!probe.reader) {
+        return fail('error', `The URL is not reachable (HTTP ${probe.status})`);
+      }
+      reader = probe.reader;
+    } catch (error) {
+      return fail('error', `The URL is not reachable (${error instanceof Error ? error.message : error})`);
+    }
+  }
+
+  try {
+    report.media = await probeMedia(reader);
+  } catch (error) {
+    // A remote file that could not be read far enough is not known to be bad
+    const malformed = error instanceof MediaParseError && !(error instanceof MediaFetchError);
+    report.issues.push({
+      severity: malformed || requested !== undefined ? 'error' : 'warning',
+      message: `Could not read the media headers: ${error instanceof Error ? error.message : error}`,
+    });
+  } finally {
+    await close();
+  }
+
+  report.issues.unshift(...checkMedia(kind, {
+    contentType: report.content_type,
+    bytes: report.bytes,
+    media: report.media,
+  }));
+  return finish();
+}
+
+/**
+ * One line per issue, prefixed with the field it concerns.
+ */
+export function describeIssues(reports: Array<{ field?: string; report: PreflightReport }>, severity?: PreflightIssue['severity']): string[] {
+  return reports.flatMap(({ field, report }) => report.issues
+    .filter((issue) => !severity || issue.severity === severity)
+    .map((issue) => `- ${field ?? report.source}: ${issue.severity}: ${issue.message}`));
+}
@@ -0,0 +1,196 @@
+/**
+ * Named Tavus account profiles.
+ *
+ * Profiles come from three places, later ones overriding earlier ones:
+ * - TAVUS_API_KEY, as the profile named "default"
+ * - TAVUS_PROFILE_<NAME>_API_KEY / TAVUS_PROFILE_<NAME>_BASE_URL, with
+ *   optional TAVUS_PROFILE_<NAME>_BUDGET_DAILY / _BUDGET_SESSION
+ * - a JSON file named by TAVUS_PROFILES_FILE:
+ *   { "default": "staging", "profiles": { "staging": { "api_key": "...", "base_url": "..." } } }
+ *   where `api_key_env` may name an environment variable instead of `api_key`
+ *   and `budgets` may hold { "daily": ..., "session": ... } usage limits
+ *
+ * Each tool call runs against one profile, which is tracked for the
+ * duration of the call so every request it sends uses that account. The
+ * configured default never changes; set_default_profile picks a default
+ * for one MCP session only, so in HTTP mode one client's choice does not
+ * redirect another's calls.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFileSync } from 'node:fs';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { AxiosInstance } from 'axios';
+import { BUDGET_WINDOWS, Budgets, budgetsFromEnv, parseBudget } from './usage.js';
+import { JsonSchema } from './validation.js';
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export interface ProfileConfig {
+  name: string;
+  apiKey: string;
+  baseUrl?: string;
+  budgets?: Budgets;
+  source: 'env' | 'file';
+}
+
+export interface ProfileSettings {
+  profiles: ProfileConfig[];
+  defaultProfile?: string;
+}
+
+export const PROFILE_PROPERTY: JsonSchema = {
+  type: 'string',
+  description: 'Tavus account profile to use (defaults to the current default profile)',
+};
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/_/g, '-');
+}
+
+function profilesFromFile(path: string, env: NodeJS.ProcessEnv): ProfileSettings {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read TAVUS_PROFILES_FILE ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const profiles: ProfileConfig[] = [];
+  for (const [name, entry] of Object.entries<any>(parsed?.profiles ?? {})) {
+    const apiKey = entry?.api_key ?? (entry?.api_key_env ? env[entry.api_key_env] : undefined);
+    if (!apiKey) {
+      throw new Error(`Profile "${name}" in ${path} needs api_key or an api_key_env that is set`);
+    }
+    let budgets: Budgets | undefined;
+    if (entry.budgets !== undefined) {
+      budgets = {};
+      for (const window of BUDGET_WINDOWS) {
+        if (entry.budgets?.[window] !== undefined) {
+          budgets[window] = parseBudget(entry.budgets[window], `profile "${name}" in ${path}`);
+        }
+      }
+    }
+    profiles.push({ name: normalizeName(name), apiKey, baseUrl: entry.base_url, budgets, source: 'file' });
+  }
+  return {
+    profiles,
+    defaultProfile: typeof parsed?.default === 'string' ? normalizeName(parsed.default) : undefined,
+  };
+}
+
+/**
+ * Collects every configured profile and the name of the default one.
+ */
+export function loadProfiles(env: NodeJS.ProcessEnv = process.env): ProfileSettings {
+  const byName = new Map<string, ProfileConfig>();
+  let defaultProfile: string | undefined;
+
+  if (env.TAVUS_API_KEY) {
+    byName.set(DEFAULT_PROFILE_NAME, {
+      name: DEFAULT_PROFILE_NAME,
+      apiKey: env.TAVUS_API_KEY,
+      source: 'env',
+    });
+  }
+
+  for (const [key, value] of Object.entries(env)) {
+    const match = key.match(/^TAVUS_PROFILE_(.+)_API_KEY$/);
+    if (!match || !value) continue;
+    const name = normalizeName(match[1]);
+    byName.set(name, {
+      name,
+      apiKey: value,
+      baseUrl: env[`TAVUS_PROFILE_${match[1]}_BASE_URL`] || undefined,
+      budgets: budgetsFromEnv(env, `TAVUS_PROFILE_${match[1]}_BUDGET`),
+      source: 'env',
+    });
+  }
+
+  if (env.TAVUS_PROFILES_FILE) {
+    const fromFile = profilesFromFile(env.TAVUS_PROFILES_FILE, env);
+    for (const profile of fromFile.profiles) byName.set(profile.name, profile);
+    defaultProfile = fromFile.defaultProfile;
+  }
+
+  if (env.TAVUS_DEFAULT_PROFILE) {
+    defaultProfile = normalizeName(env.TAVUS_DEFAULT_PROFILE);
+  }
+
+  return { profiles: [...byName.values()], defaultProfile };
+}
+
+export interface ActiveProfile {
+  config: ProfileConfig;
+  client: AxiosInstance;
+}
+
+export class ProfileRegistry {
+  private profiles = new Map<string, ActiveProfile>();
+  private defaultName: string;
+  private current = new AsyncLocalStorage<ActiveProfile>();
+
+  constructor(settings: ProfileSettings, createClient: (profile: ProfileConfig) => AxiosInstance) {
+    if (settings.profiles.length === 0) {
+      throw new Error(
+        'TAVUS_API_KEY environment variable is required (or configure profiles with TAVUS_PROFILE_<NAME>_API_KEY or TAVUS_PROFILES_FILE)'
+      );
+    }
+    for (const config of settings.profiles) {
+      this.profiles.set(config.name, { config, client: createClient(config) });
+    }
+
+    const fallback = this.profiles.has(DEFAULT_PROFILE_NAME)
+      ? DEFAULT_PROFILE_NAME
+      : settings.profiles[0].name;
+    this.defaultName = settings.defaultProfile ?? fallback;
+    if (!this.profiles.has(this.defaultName)) {
+      throw new Error(`Default profile "${this.defaultName}" is not configured`);
+    }
+  }
+
+  get defaultProfile(): string {
+    return this.defaultName;
+  }
+
+  /**
+   * Resolves a profile by name, or the default profile when none is given.
+   * `defaultName` replaces the configured default, e.g. with the one an MCP
+   * session chose.
+   */
+  get(name?: string, defaultName = this.defaultName): ActiveProfile {
+    const key = name === undefined ? defaultName : normalizeName(name);
+    const profile = this.profiles.get(key);
+    if (!profile) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown profile "${name}". Configured profiles: ${[...this.profiles.keys()].join(', ')}`
+      );
+    }
+    return profile;
+  }
+
+  /**
+   * The profile of the tool call in progress, falling back to the default.
+   */
+  active(): ActiveProfile {
+    return this.current.getStore() ?? this.get();
+  }
+
+  /**
+   * Runs `fn` with every request bound to the given profile.
+   */
+  run<T>(profile: ActiveProfile, fn: () => Promise<T>): Promise<T> {
+    return this.current.run(profile, fn);
+  }
+
+  list(defaultName = this.defaultName) {
+    return [...this.profiles.values()].map(({ config, client }) => ({
+      name: config.name,
+      base_url: client.defaults.baseURL,
+      api_key: config.apiKey.length > 8 ? `…${config.apiKey.slice(-4)}` : '…',
+      source: config.source,
+      default: config.name === defaultName,
+    }));
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Prompt library for common multi-step Tavus workflows.
+ *
+ * Each prompt renders a single user message that walks the model through
+ * the existing tools in order. Arguments marked with `complete` are
+ * autocompleted from the IDs in the account.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export type CompletionSource = 'replica_id' | 'persona_id';
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+  complete?: CompletionSource;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  render: (args: Record<string, string>) => string;
+}
+
+function optional(label: string, value: string | undefined): string {
+  return value ? `\n- ${label}: ${value}` : '';
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'onboard_replica',
+    description: 'Train a new replica from a video and report when it is ready',
+    arguments: [
+      { name: 'train_video_url', description: 'Direct link to the training video', required: true },
+      { name: 'replica_name', description: 'Name for the new replica' },
+      { name: 'consent_video_url', description: 'Separate consent video, if the training video does not include consent' },
+    ],
+    render: (args) => `Onboard a new Tavus replica.
+
+Inputs:
+- Training video: ${args.train_video_url}${optional('Replica name', args.replica_name)}${optional('Consent video', args.consent_video_url)}
+
+Steps:
+1. Call create_replica with the training video${args.replica_name ? ', replica name' : ''}${args.consent_video_url ? ' and consent video' : ''} above. Use model_name "phoenix-3" unless told otherwise.
+2. Call wait_for_replica_training with the returned replica_id. Training can take several hours; if the wait times out, report the latest training_progress and stop.
+3. If training fails, report the error_message and suggest how to fix the training video.
+4. When training completes, summarize the replica_id, replica_name and status.`,
+  },
+  {
+    name: 'create_sales_demo_persona',
+    description: 'Create a sales-demo persona for a replica and start a conversation with it',
+    arguments: [
+      { name: 'replica_id', description: 'Replica that will present the demo', required: true, complete: 'replica_id' },
+      { name: 'product_name', description: 'Product being demoed', required: true },
+      { name: 'audience', description: 'Who the demo is for (e.g. "IT buyers at mid-size banks")' },
+      { name: 'greeting', description: 'Opening line for the conversation' },
+    ],
+    render: (args) => `Set up a live sales demo for ${args.product_name}.
+
+Inputs:
+- Replica: ${args.replica_id}
+- Product: ${args.product_name}${optional('Audience', args.audience)}${optional('Greeting', args.greeting)}
+
+Steps:
+1. Call get_replica for ${args.replica_id} and confirm its status is ready before continuing.
+2. Call create_persona with:
+   - persona_name: "${args.product_name} sales demo"
+   - replica_id: ${args.replica_id}
+   - system_prompt: a concise prompt for a friendly, knowledgeable sales engineer presenting ${args.product_name}${args.audience ? ` to ${args.audience}` : ''}. It should answer questions honestly, keep answers short, and offer next steps at the end.
+   - context: the key features and value propositions of ${args.product_name} that the persona should draw on.
+3. Call create_conversation with the new persona_id, replica_id ${args.replica_id}, conversation_name "${args.product_name} demo"${args.greeting ? ` and custom_greeting "${args.greeting}"` : ' and a short custom_greeting that introduces the product'}.
+4. Report the persona_id and the conversation_url to share with the prospect.`,
+  },
+  {
+    name: 'start_persona_conversation',
+    description: 'Start a conversation with an existing persona, optionally overriding its replica',
+    arguments: [
+      { name: 'persona_id', description: 'Persona to talk to', required: true, complete: 'persona_id' },
+      { name: 'replica_id', description: 'Replica to use instead of the persona default', complete: 'replica_id' },
+      { name: 'greeting', description: 'Opening line for the conversation' },
+      { name: 'context', description: 'Extra conversational context for this session' },
+    ],
+    render: (args) => `Start a Tavus conversation.
+
+Inputs:
+- Persona: ${args.persona_id}${optional('Replica', args.replica_id)}${optional('Greeting', args.greeting)}${optional('Context', args.context)}
+
+Steps:
+1. Call get_persona for ${args.persona_id}. ${args.replica_id ? `Use replica ${args.replica_id} for the conversation.` : 'If the persona has no default replica_id, ask which replica to use before continuing.'}
+2. Call create_conversation with the persona_id${args.replica_id ? ', replica_id' : ''}${args.greeting ? ', custom_greeting' : ''}${args.context ? ' and conversational_context' : ''} above.
+3. Report the conversation_id and conversation_url.`,
+  },
+  {
+    name: 'produce_personalized_video',
+    description: 'Generate a personalized video for one recipient and return its link',
+    arguments: [
+      { name: 'replica_id', description: 'Replica that will appear in the video', required: true, complete: 'replica_id' },
+      { name: 'recipient_name', description: 'Name of the person the video is for', required: true },
+      { name: 'message', description: 'What the video should say or cover', required: true },
+      { name: 'background_url', description: 'Website to show behind the replica' },
+    ],
+    render: (args) => `Produce a personalized video for ${args.recipient_name}.
+
+Inputs:
+- Replica: ${args.replica_id}
+- Recipient: ${args.recipient_name}
+- Message: ${args.message}${optional('Background website', args.background_url)}
+
+Steps:
+1. Write a natural, spoken-style script of 30-60 seconds that addresses ${args.recipient_name} by name and covers the message above. Show the script before generating.
+2. Call generate_video with replica_id ${args.replica_id}, the script, video_name "${args.recipient_name} - personalized"${args.background_url ? ` and background_url ${args.background_url}` : ''}.
+3. Call wait_for_video with the returned video_id.
+4. Report the hosted_url when the video is ready, or the error_message if it fails.`,
+  },
+  {
+    name: 'audit_stale_conversations',
+    description: 'Find conversations that have been left running and offer to end them',
+    arguments: [
+      { name: 'older_than_hours', description: 'Treat active conversations older than this as stale (default 24)' },
+    ],
+    render: (args) => {
+      const hours = Number(args.older_than_hours) > 0 ? Number(args.older_than_hours) : 24;
+      const cutoff = new Date(Date.now() - hours * 3600 * 1000).toISOString();
+      return `Audit stale Tavus conversations.
+
+Steps:
+1. Call list_conversations with all: true, status "active", created_before "${cutoff}" and sort_by "created_at".
+2. Present the results as a table of conversation_id, conversation_name and created_at. If there are none, say so and stop.
+3. Ask for confirmation before ending anything. For each conversation the user approves, call end_conversation.
+4. Summarize which conversations were ended and which were left running.`;
+    },
+  },
+];
+
+export function findPrompt(name: string): PromptDefinition | undefined {
+  return PROMPTS.find((prompt) => prompt.name === name);
+}
+
+export function listPrompts() {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({
+    name,
+    description,
+    arguments: args.map(({ name, description, required }) => ({
+      name,
+      description,
+      required: required ?? false,
+    })),
+  }));
+}
+
+export function completionSource(promptName: string, argumentName: string): CompletionSource | undefined {
+  return findPrompt(promptName)?.arguments.find((argument) => argument.name === argumentName)?.complete;
+}
+
+/**
+ * Renders a prompt, rejecting calls that leave out a required argument.
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = findPrompt(name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments
+    .filter((argument) => argument.required && !args[argument.name])
+    .map((argument) => argument.name);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required arguments for ${name}: ${missing.join(', ')}`
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{
+      role: 'user' as const,
+      content: {
+        type: 'text' as const,
+        text: prompt.render(args),
+      },
+    }],
+  };
+}
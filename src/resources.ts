@@ -0,0 +1,170 @@
+/**
+ * MCP resource support for Tavus assets.
+ *
+ * Replicas, videos, personas and conversations are exposed as
+ * `tavus://<collection>` list resources and `tavus://<collection>/{id}` item
+ * resources. Subscribed URIs are re-fetched by a background poller, which
+ * reports a change whenever the status of the asset (or of any asset in a
+ * subscribed list) moves.
+ */
+
+import {
+  CONVERSATION_LISTING,
+  ListResource,
+  PERSONA_LISTING,
+  REPLICA_LISTING,
+  VIDEO_LISTING,
+} from './listing.js';
+
+const URI_SCHEME = 'tavus://';
+
+export const DEFAULT_RESOURCE_POLL_SECONDS = 30;
+
+export interface ResourceKind {
+  collection: string;
+  label: string;
+  idField: string;
+  listing: ListResource;
+}
+
+export const RESOURCE_KINDS: ResourceKind[] = [
+  { collection: 'replicas', label: 'replica', idField: 'replica_id', listing: REPLICA_LISTING },
+  { collection: 'videos', label: 'video', idField: 'video_id', listing: VIDEO_LISTING },
+  { collection: 'personas', label: 'persona', idField: 'persona_id', listing: PERSONA_LISTING },
+  { collection: 'conversations', label: 'conversation', idField: 'conversation_id', listing: CONVERSATION_LISTING },
+];
+
+export interface ParsedResourceUri {
+  kind: ResourceKind;
+  id?: string;
+}
+
+export function collectionUri(kind: ResourceKind): string {
+  return `${URI_SCHEME}${kind.collection}`;
+}
+
+export function itemUri(kind: ResourceKind, id: string): string {
+  return `${URI_SCHEME}${kind.collection}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Parses a tavus:// URI. Returns undefined for anything that does not name
+ * a known collection or a single item in one.
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | undefined {
+  if (!uri.startsWith(URI_SCHEME)) return undefined;
+  const [collection, id, ...rest] = uri.slice(URI_SCHEME.length).split('/');
+  const kind = RESOURCE_KINDS.find((candidate) => candidate.collection === collection);
+  if (!kind || rest.length > 0) return undefined;
+  if (id === undefined) return { kind };
+  if (id === '') return undefined;
+  return { kind, id: decodeURIComponent(id) };
+}
+
+export function listResources() {
+  return RESOURCE_KINDS.map((kind) => ({
+    uri: collectionUri(kind),
+    name: `Tavus ${kind.collection}`,
+    description: `All ${kind.collection} in the Tavus account`,
+    mimeType: 'application/json',
+  }));
+}
+
+export function listResourceTemplates() {
+  return RESOURCE_KINDS.map((kind) => ({
+    uriTemplate: `${URI_SCHEME}${kind.collection}/{${kind.idField}}`,
+    name: `Tavus ${kind.label}`,
+    description: `A single Tavus ${kind.label} by ${kind.idField}`,
+    mimeType: 'application/json',
+  }));
+}
+
+/**
+ * Reduces a fetched resource to the parts whose change should notify
+ * subscribers: the status (and progress) of an item, or of every item in
+ * a list.
+ */
+export function statusFingerprint(parsed: ParsedResourceUri, body: any): string {
+  const snapshot = (item: any) => [
+    item?.status,
+    item?.training_progress,
+    item?.generation_progress,
+  ].map((part) => part ?? '').join('|');
+
+  if (parsed.id !== undefined) {
+    return snapshot(body);
+  }
+
+  const items: any[] = Array.isArray(body?.data) ? body.data : [];
+  return items
+    .map((item) => `${item?.[parsed.kind.idField]}=${snapshot(item)}`)
+    .sort()
+    .join(',');
+}
+
+/**
+ * Polls subscribed resource URIs and reports those whose fingerprint has
+ * changed since the previous poll.
+ */
+export class SubscriptionPoller {
+  private fingerprints = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    private fetchFingerprint: (uri: string) => Promise<string>,
+    private notify: (uri: string) => Promise<void>,
+    private intervalMs: number
+  ) {}
+
+  /**
+   * Starts watching a URI. The first fetch records the baseline, so a
+   * missing resource fails the subscription instead of the poller.
+   */
+  async subscribe(uri: string): Promise<void> {
+    if (!this.fingerprints.has(uri)) {
+      const baseline = await this.fetchFingerprint(uri);
+      this.fingerprints.set(uri, baseline);
+    }
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.fingerprints.delete(uri);
+    if (this.fingerprints.size === 0) this.stop();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  get subscriptions(): string[] {
+    return [...this.fingerprints.keys()];
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [uri, previous] of [...this.fingerprints]) {
+        try {
+          const current = await this.fetchFingerprint(uri);
+          // The URI may have been unsubscribed while the fetch was in flight
+          if (!this.fingerprints.has(uri)) continue;
+          this.fingerprints.set(uri, current);
+          if (previous !== current) {
+            await this.notify(uri);
+          }
+        } catch (error) {
+          console.error(`[Resource Poll Error] ${uri}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
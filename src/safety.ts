@@ -0,0 +1,200 @@
+/**
+ * Safety policy for tools that change or destroy Tavus assets.
+ *
+ * - Read-only mode hides every mutating tool and rejects calls to them.
+ * - Protected IDs can never be deleted or ended.
+ * - Destructive tools require confirmation: the first call returns a preview
+ *   of the asset plus a short-lived token, and only a repeat call carrying
+ *   that token, for the same asset on the same profile, performs the action.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { JsonSchema } from './validation.js';
+
+const DEFAULT_CONFIRM_TTL_SECONDS = 300;
+
+export interface DestructiveAction {
+  idField: string;
+  label: string;
+  verb: string;
+  path: (id: string) => string;
+}
+
+export const DESTRUCTIVE_TOOLS: Record<string, DestructiveAction> = {
+  delete_replica: { idField: 'replica_id', label: 'replica', verb: 'permanently delete', path: (id) => `/replicas/${id}` },
+  delete_video: { idField: 'video_id', label: 'video', verb: 'permanently delete', path: (id) => `/videos/${id}` },
+  delete_conversation: { idField: 'conversation_id', label: 'conversation', verb: 'permanently delete', path: (id) => `/conversations/${id}` },
+  end_conversation: { idField: 'conversation_id', label: 'conversation', verb: 'end', path: (id) => `/conversations/${id}` },
+  delete_persona: { idField: 'persona_id', label: 'persona', verb: 'permanently delete', path: (id) => `/personas/${id}` },
+  delete_lipsync: { idField: 'lipsync_id', label: 'lipsync', verb: 'permanently delete', path: (id) => `/lipsync/${id}` },
+  delete_speech: { idField: 'speech_id', label: 'speech', verb: 'permanently delete', path: (id) => `/speech/${id}` },
+};
+
+// Tools that create, change or remove anything in the Tavus account
+export const MUTATING_TOOLS = new Set<string>([
+  ...Object.keys(DESTRUCTIVE_TOOLS),
+  'create_replica',
+  'rename_replica',
+  'generate_video',
+  'generate_videos_batch',
+  'rename_video',
+  'create_conversation',
+  'create_persona',
+  'patch_persona',
+  'update_persona',
+  'import_persona',
+  'create_lipsync',
+  'generate_speech',
+  'rename_speech',
+]);
+
+export const CONFIRM_TOKEN_PROPERTY: JsonSchema = {
+  type: 'string',
+  description: 'Confirmation token returned by a previous call; required to actually perform this action',
+};
+
+export interface SafetyOptions {
+  readOnly: boolean;
+  requireConfirmation: boolean;
+  confirmTtlSeconds: number;
+  protectedIds: string[];
+}
+
+function flag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === '') return fallback;
+  return ['1', 'true', 'yes'].includes(value.toLowerCase());
+}
+
+/**
+ * Reads the policy from TAVUS_READ_ONLY, TAVUS_CONFIRM_DESTRUCTIVE,
+ * TAVUS_CONFIRM_TTL_SECONDS and TAVUS_PROTECTED_IDS (comma-separated).
+ */
+export function safetyOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SafetyOptions {
+  const ttl = Number(env.TAVUS_CONFIRM_TTL_SECONDS);
+  return {
+    readOnly: flag(env.TAVUS_READ_ONLY, false),
+    requireConfirmation: flag(env.TAVUS_CONFIRM_DESTRUCTIVE, true),
+    confirmTtlSeconds: ttl > 0 ? ttl : DEFAULT_CONFIRM_TTL_SECONDS,
+    protectedIds: (env.TAVUS_PROTECTED_IDS ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+  };
+}
+
+interface PendingConfirmation {
+  tool: string;
+  id: string;
+  profile: string;
+  expiresAt: number;
+}
+
+export class SafetyPolicy {
+  private pending = new Map<string, PendingConfirmation>();
+  private protectedIds: Set<string>;
+
+  constructor(private options: SafetyOptions) {
+    this.protectedIds = new Set(options.protectedIds);
+  }
+
+  get readOnly(): boolean {
+    return this.options.readOnly;
+  }
+
+  /**
+   * Whether a tool should be left out of the tools list.
+   */
+  isHidden(toolName: string): boolean {
+    return this.options.readOnly && MUTATING_TOOLS.has(toolName);
+  }
+
+  /**
+   * Rejects calls that the policy never allows, regardless of confirmation.
+   */
+  assertAllowed(toolName: string, args: Record<string, any>): void {
+    if (this.isHidden(toolName)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${toolName} is disabled because the server is running in read-only mode (TAVUS_READ_ONLY)`
+      );
+    }
+
+    const action = DESTRUCTIVE_TOOLS[toolName];
+    if (action && this.protectedIds.has(args[action.idField])) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${action.label} ${args[action.idField]} is protected and cannot be changed by ${toolName} (TAVUS_PROTECTED_IDS)`
+      );
+    }
+  }
+
+  /**
+   * Runs the confirmation step for destructive tools and removes
+   * confirm_token from `args`. Returns a preview result when the call must
+   * be repeated with a token, or undefined when the action may go ahead.
+   */
+  async confirm(
+    toolName: string,
+    args: Record<string, any>,
+    profile: string,
+    fetchPreview: (path: string) => Promise<unknown>
+  ) {
+    const action = DESTRUCTIVE_TOOLS[toolName];
+    if (!action) return undefined;
+
+    // The token only serves this check; it is never sent to Tavus or logged
+    const token: string | undefined = args.confirm_token;
+    delete args.confirm_token;
+    if (!this.options.requireConfirmation) return undefined;
+
+    this.expire();
+    const id: string = args[action.idField];
+
+    if (token !== undefined) {
+      const pending = this.pending.get(token);
+      if (!pending || pending.tool !== toolName || pending.id !== id) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `confirm_token is invalid or expired for ${toolName} on ${id}; call ${toolName} without a token to get a new one`
+        );
+      }
+      // The same ID in another account is another asset
+      if (pending.profile !== profile) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `confirm_token was issued for profile "${pending.profile}", not "${profile}"; call ${toolName} without a token to get a new one`
+        );
+      }
+      this.pending.delete(token);
+      return undefined;
+    }
+
+    // Fetching first means a hallucinated ID fails here with a 404
+    const preview = await fetchPreview(action.path(id));
+    const newToken = randomBytes(4).toString('hex');
+    this.pending.set(newToken, {
+      tool: toolName,
+      id,
+      profile,
+      expiresAt: Date.now() + this.options.confirmTtlSeconds * 1000,
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Confirmation required: this will ${action.verb} ${action.label} ${id}.\n\n` +
+          `${JSON.stringify(preview, null, 2)}\n\n` +
+          `To proceed, call ${toolName} again with ${action.idField} "${id}" and confirm_token "${newToken}" ` +
+          `within ${this.options.confirmTtlSeconds} seconds.`,
+      }],
+    };
+  }
+
+  private expire(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
@@ -0,0 +1,1048 @@
+/**
+ * Tool definitions advertised through the ListTools handler.
+ *
+ * The input schemas double as the contract enforced by the argument
+ * validator, so every property a handler reads must be declared here.
+ */
+
+import { batchProperties } from './batch.js';
+import { FRESH_PROPERTY } from './cache.js';
+import {
+  LIPSYNC_DOWNLOAD,
+  SPEECH_DOWNLOAD,
+  VIDEO_DOWNLOAD,
+  downloadProperties,
+} from './downloads.js';
+import {
+  CONVERSATION_LISTING,
+  LIPSYNC_LISTING,
+  PERSONA_LISTING,
+  REPLICA_LISTING,
+  SPEECH_LISTING,
+  VIDEO_LISTING,
+  listProperties,
+} from './listing.js';
+import {
+  LIPSYNC_JOB,
+  REPLICA_JOB,
+  SPEECH_JOB,
+  VIDEO_JOB,
+  waitProperties,
+} from './polling.js';
+import { LEDGER_RESOURCES } from './ledger.js';
+import { PERSONA_LAYERS_SCHEMA, PIPELINE_MODE_SCHEMA } from './personas.js';
+import { MEDIA_KINDS } from './preflight.js';
+import { PROFILE_PROPERTY } from './profiles.js';
+import { CONFIRM_TOKEN_PROPERTY } from './safety.js';
+import { TRANSCRIPT_FORMATS } from './transcripts.js';
+import { JsonSchema } from './validation.js';
+import { CALLBACK_ID_FIELDS } from './webhooks.js';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+}
+
+export const TOOLS: ToolDefinition[] = [
+  // Phoenix Replicas
+  {
+    name: 'create_replica',
+    description: 'Create a new AI replica from a training video',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        train_video_url: {
+          type: 'string',
+          description: 'Direct link to training video (S3, etc.); also a local file path when TAVUS_UPLOADER is set',
+        },
+        replica_name: {
+          type: 'string',
+          description: 'Name for the replica',
+        },
+        consent_video_url: {
+          type: 'string',
+          description: 'Optional separate consent video URL; also a local file path when TAVUS_UPLOADER is set',
+        },
+        skip_preflight: {
+          type: 'boolean',
+          description: 'Submit without checking the media first (see preflight_media)',
+        },
+        callback_url: {
+          type: 'string',
+          description: 'URL to receive training completion callback',
+        },
+        model_name: {
+          type: 'string',
+          description: 'Phoenix model version (phoenix-3 default)',
+          enum: ['phoenix-2', 'phoenix-3'],
+        },
+        properties: {
+          type: 'object',
+          description: 'Additional replica properties',
+          properties: {
+            gaze_correction: { type: 'boolean' },
+            background_green_screen: { type: 'boolean' },
+          },
+        },
+      },
+      required: ['train_video_url'],
+    },
+  },
+  {
+    name: 'preflight_media',
+    description: 'Check a training video, video or audio file before submitting a job: reachability, content type and size for URLs, and format, duration, resolution, frame rate and sample rate from the MP4/WAV/MP3 headers, compared with Tavus\'s requirements',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'http(s) URL, file:// URL or local path (resolved against TAVUS_UPLOAD_DIR)',
+        },
+        kind: {
+          type: 'string',
+          description: 'What the media is for: a replica training video, a consent video, a lipsync or background video, or audio',
+          enum: MEDIA_KINDS,
+        },
+      },
+      required: ['url', 'kind'],
+    },
+  },
+  {
+    name: 'get_replica',
+    description: 'Get details of a specific replica',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        replica_id: {
+          type: 'string',
+          description: 'Unique identifier for the replica',
+        },
+        verbose: {
+          type: 'boolean',
+          description: 'Include additional replica data',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['replica_id'],
+    },
+  },
+  {
+    name: 'list_replicas',
+    description: 'List all replicas in your account, with optional paging, filtering and sorting',
+    inputSchema: {
+      type: 'object',
+      properties: { ...listProperties(REPLICA_LISTING), fresh: FRESH_PROPERTY },
+    },
+  },
+  {
+    name: 'delete_replica',
+    description: 'Delete a replica permanently (returns a preview and confirmation token first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        replica_id: {
+          type: 'string',
+          description: 'Unique identifier for the replica',
+        },
+        confirm_token: CONFIRM_TOKEN_PROPERTY,
+      },
+      required: ['replica_id'],
+    },
+  },
+  {
+    name: 'rename_replica',
+    description: 'Rename an existing replica',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        replica_id: {
+          type: 'string',
+          description: 'Unique identifier for the replica',
+        },
+        replica_name: {
+          type: 'string',
+          description: 'New name for the replica',
+        },
+      },
+      required: ['replica_id', 'replica_name'],
+    },
+  },
+  {
+    name: 'wait_for_replica_training',
+    description: 'Wait for replica training to finish, reporting training progress',
+    inputSchema: {
+      type: 'object',
+      properties: waitProperties(REPLICA_JOB),
+      required: ['replica_id'],
+    },
+  },
+
+  // Video Generation
+  {
+    name: 'generate_video',
+    description: 'Generate a video using a replica and script or audio',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        replica_id: {
+          type: 'string',
+          description: 'Unique identifier for the replica',
+        },
+        script: {
+          type: 'string',
+          description: 'Text script for the video (alternative to audio_url)',
+        },
+        audio_url: {
+          type: 'string',
+          description: 'URL to audio file (.wav/.mp3) (alternative to script); also a local file path when TAVUS_UPLOADER is set',
+        },
+        video_name: {
+          type: 'string',
+          description: 'Name for the generated video',
+        },
+        background_url: {
+          type: 'string',
+          description: 'Website URL to use as background',
+        },
+        background_source_url: {
+          type: 'string',
+          description: 'Direct video URL to use as background; also a local file path when TAVUS_UPLOADER is set',
+        },
+        skip_preflight: {
+          type: 'boolean',
+          description: 'Submit without checking the media first (see preflight_media)',
+        },
+        callback_url: {
+          type: 'string',
+          description: 'URL to receive completion callback',
+        },
+        fast: {
+          type: 'boolean',
+          description: 'Use fast rendering (limited features)',
+        },
+        transparent_background: {
+          type: 'boolean',
+          description: 'Generate with transparent background (.webm)',
+        },
+        watermark_image_url: {
+          type: 'string',
+          description: 'URL to watermark image (png/jpeg)',
+        },
+        properties: {
+          type: 'object',
+          description: 'Additional video properties',
+          properties: {
+            background_scroll: { type: 'boolean' },
+            background_scroll_type: { type: 'string', enum: ['human', 'smooth'] },
+            background_scroll_depth: { type: 'string', enum: ['middle', 'bottom'] },
+            background_scroll_return: { type: 'string', enum: ['return', 'halt'] },
+            start_with_wave: { type: 'boolean' },
+          },
+        },
+      },
+      required: ['replica_id'],
+      anyOf: [
+        { required: ['script'] },
+        { required: ['audio_url'] },
+      ],
+    },
+  },
+  {
+    name: 'get_video',
+    description: 'Get details of a specific video',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        video_id: {
+          type: 'string',
+          description: 'Unique identifier for the video',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['video_id'],
+    },
+  },
+  {
+    name: 'list_videos',
+    description: 'List all videos in your account, with optional paging, filtering and sorting',
+    inputSchema: {
+      type: 'object',
+      properties: { ...listProperties(VIDEO_LISTING), fresh: FRESH_PROPERTY },
+    },
+  },
+  {
+    name: 'delete_video',
+    description: 'Delete a video permanently (returns a preview and confirmation token first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        video_id: {
+          type: 'string',
+          description: 'Unique identifier for the video',
+        },
+        confirm_token: CONFIRM_TOKEN_PROPERTY,
+      },
+      required: ['video_id'],
+    },
+  },
+  {
+    name: 'rename_video',
+    description: 'Rename an existing video',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        video_id: {
+          type: 'string',
+          description: 'Unique identifier for the video',
+        },
+        video_name: {
+          type: 'string',
+          description: 'New name for the video',
+        },
+      },
+      required: ['video_id', 'video_name'],
+    },
+  },
+  {
+    name: 'wait_for_video',
+    description: 'Wait for a video to finish generating, reporting its status',
+    inputSchema: {
+      type: 'object',
+      properties: waitProperties(VIDEO_JOB),
+      required: ['video_id'],
+    },
+  },
+  {
+    name: 'download_video',
+    description: 'Download a finished video file into the download directory (TAVUS_DOWNLOAD_DIR). Resumes interrupted downloads, refuses to overwrite unless asked, and returns the size and SHA-256',
+    inputSchema: {
+      type: 'object',
+      properties: downloadProperties(VIDEO_DOWNLOAD),
+      required: ['video_id'],
+    },
+  },
+  {
+    name: 'generate_videos_batch',
+    description: 'Generate one personalized video per recipient from a script template with {{placeholders}} and a CSV or JSON recipient list. Every row is validated before anything is submitted; returns a manifest mapping each row to its video_id and status',
+    inputSchema: {
+      type: 'object',
+      properties: batchProperties(),
+      required: ['replica_id', 'script_template'],
+      anyOf: [
+        { required: ['recipients_csv'] },
+        { required: ['recipients'] },
+      ],
+    },
+  },
+
+  // Conversational Video Interface
+  {
+    name: 'create_conversation',
+    description: 'Create a new conversational video interface',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        replica_id: {
+          type: 'string',
+          description: 'Replica to use for the conversation',
+        },
+        persona_id: {
+          type: 'string',
+          description: 'Persona to use for the conversation',
+        },
+        conversation_name: {
+          type: 'string',
+          description: 'Name for the conversation',
+        },
+        callback_url: {
+          type: 'string',
+          description: 'URL to receive conversation events',
+        },
+        conversational_context: {
+          type: 'string',
+          description: 'Context for the conversation',
+        },
+        custom_greeting: {
+          type: 'string',
+          description: 'Custom greeting message',
+        },
+        enable_recording: {
+          type: 'boolean',
+          description: 'Enable conversation recording',
+        },
+        properties: {
+          type: 'object',
+          description: 'Conversation properties passed through to Tavus, e.g. max_call_duration (seconds, default 3600), participant_left_timeout, language',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_conversation',
+    description: 'Get details of a specific conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: {
+          type: 'string',
+          description: 'Unique identifier for the conversation',
+        },
+        verbose: {
+          type: 'boolean',
+          description: 'Include the conversation events: transcript, perception analysis and shutdown reason',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['conversation_id'],
+    },
+  },
+  {
+    name: 'get_conversation_transcript',
+    description: 'Get the transcript of an ended conversation as speaker turns, formatted as Markdown, JSON lines, SRT or WebVTT subtitles (turn times are estimated)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: {
+          type: 'string',
+          description: 'Unique identifier for the conversation',
+        },
+        format: {
+          type: 'string',
+          description: 'Output format (default: markdown)',
+          enum: TRANSCRIPT_FORMATS,
+        },
+        include_system: {
+          type: 'boolean',
+          description: 'Include system messages such as the persona system prompt (default: false)',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['conversation_id'],
+    },
+  },
+  {
+    name: 'list_conversations',
+    description: 'List all conversations in your account, with optional paging, filtering and sorting',
+    inputSchema: {
+      type: 'object',
+      properties: { ...listProperties(CONVERSATION_LISTING), fresh: FRESH_PROPERTY },
+    },
+  },
+  {
+    name: 'end_conversation',
+    description: 'End an active conversation (returns a preview and confirmation token first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: {
+          type: 'string',
+          description: 'Unique identifier for the conversation',
+        },
+        confirm_token: CONFIRM_TOKEN_PROPERTY,
+      },
+      required: ['conversation_id'],
+    },
+  },
+  {
+    name: 'delete_conversation',
+    description: 'Delete a conversation permanently (returns a preview and confirmation token first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: {
+          type: 'string',
+          description: 'Unique identifier for the conversation',
+        },
+        confirm_token: CONFIRM_TOKEN_PROPERTY,
+      },
+      required: ['conversation_id'],
+    },
+  },
+
+  // Replica Personas
+  {
+    name: 'create_persona',
+    description: 'Create a new persona for conversational AI',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        persona_name: {
+          type: 'string',
+          description: 'Name for the persona',
+        },
+        replica_id: {
+          type: 'string',
+          description: 'Replica to use for this persona',
+        },
+        context: {
+          type: 'string',
+          description: 'Contextual information for the LLM',
+        },
+        system_prompt: {
+          type: 'string',
+          description: 'System prompt for the LLM',
+        },
+        pipeline_mode: PIPELINE_MODE_SCHEMA,
+        layers: PERSONA_LAYERS_SCHEMA,
+      },
+    },
+  },
+  {
+    name: 'get_persona',
+    description: 'Get details of a specific persona',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        persona_id: {
+          type: 'string',
+          description: 'Unique identifier for the persona',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['persona_id'],
+    },
+  },
+  {
+    name: 'list_personas',
+    description: 'List all personas in your account, with optional paging, filtering and sorting',
+    inputSchema: {
+      type: 'object',
+      properties: { ...listProperties(PERSONA_LISTING), fresh: FRESH_PROPERTY },
+    },
+  },
+  {
+    name: 'patch_persona',
+    description: 'Update a persona using JSON patch format',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        persona_id: {
+          type: 'string',
+          description: 'Unique identifier for the persona',
+        },
+        patch: {
+          type: 'array',
+          description: 'JSON patch operations (RFC 6902)',
+          items: {
+            type: 'object',
+            properties: {
+              op: { type: 'string', enum: ['add', 'remove', 'replace', 'copy', 'move', 'test'] },
+              path: { type: 'string' },
+              value: {},
+            },
+            required: ['op', 'path'],
+          },
+        },
+      },
+      required: ['persona_id', 'patch'],
+    },
+  },
+  {
+    name: 'update_persona',
+    description: 'Update a persona to match a desired definition. Fetches the current persona, computes the JSON Patch needed, checks that it applies, and sends it (or only shows it with dry_run)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        persona_id: {
+          type: 'string',
+          description: 'Unique identifier for the persona',
+        },
+        persona_name: {
+          type: 'string',
+          description: 'Name for the persona',
+        },
+        default_replica_id: {
+          type: 'string',
+          description: 'Replica the persona uses by default',
+        },
+        context: {
+          type: 'string',
+          description: 'Contextual information for the LLM',
+        },
+        system_prompt: {
+          type: 'string',
+          description: 'System prompt for the LLM',
+        },
+        pipeline_mode: PIPELINE_MODE_SCHEMA,
+        layers: PERSONA_LAYERS_SCHEMA,
+        prune: {
+          type: 'boolean',
+          description: 'Remove editable fields and layer settings that the definition leaves out, except secret values (default: keep them)',
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'Show the patch that would be sent without changing the persona',
+        },
+      },
+      required: ['persona_id'],
+    },
+  },
+  {
+    name: 'delete_persona',
+    description: 'Delete a persona permanently (returns a preview and confirmation token first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        persona_id: {
+          type: 'string',
+          description: 'Unique identifier for the persona',
+        },
+        confirm_token: CONFIRM_TOKEN_PROPERTY,
+      },
+      required: ['persona_id'],
+    },
+  },
+  {
+    name: 'export_persona',
+    description: 'Export a persona as a versioned JSON or YAML file for version control. Server-managed fields (persona_id, timestamps) and secret values are left out. Writes to path, or returns the file content when no path is given',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        persona_id: {
+          type: 'string',
+          description: 'Unique identifier for the persona',
+        },
+        path: {
+          type: 'string',
+          description: 'File to write, relative to TAVUS_PERSONA_DIR (default: the server working directory); the format follows the extension (.json, .yaml or .yml)',
+        },
+        format: {
+          type: 'string',
+          description: 'File format (default: from the path extension, or yaml when returning content)',
+          enum: ['json', 'yaml'],
+        },
+        include_secrets: {
+          type: 'boolean',
+          description: 'Keep secret values such as layers.llm.api_key in the file (default: leave them out)',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace the file if it already exists (default: false)',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['persona_id'],
+    },
+  },
+  {
+    name: 'import_persona',
+    description: 'Create a persona from a persona file, or with persona_id update an existing persona to match the file via a JSON Patch',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Persona file to read, relative to TAVUS_PERSONA_DIR (default: the server working directory)',
+        },
+        content: {
+          type: 'string',
+          description: 'Persona file content (JSON or YAML), instead of path',
+        },
+        persona_id: {
+          type: 'string',
+          description: 'Existing persona to update; omit to create a new persona',
+        },
+        prune: {
+          type: 'boolean',
+          description: 'When updating, remove editable fields and layer settings that the file leaves out, except secret values such as layers.llm.api_key, which exported files omit (default: keep them)',
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'Show what would be created or patched without changing anything',
+        },
+      },
+    },
+  },
+  {
+    name: 'diff_persona',
+    description: 'Compare a persona file against the live persona and list the differences. Secret values are not compared',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        persona_id: {
+          type: 'string',
+          description: 'Unique identifier for the persona',
+        },
+        path: {
+          type: 'string',
+          description: 'Persona file to compare, relative to TAVUS_PERSONA_DIR (default: the server working directory)',
+        },
+        content: {
+          type: 'string',
+          description: 'Persona file content (JSON or YAML), instead of path',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['persona_id'],
+    },
+  },
+
+  // Lipsync
+  {
+    name: 'create_lipsync',
+    description: 'Create a lipsync video by synchronizing audio with video',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        video_url: {
+          type: 'string',
+          description: 'URL to the source video; also a local file path when TAVUS_UPLOADER is set',
+        },
+        audio_url: {
+          type: 'string',
+          description: 'URL to the audio file to sync; also a local file path when TAVUS_UPLOADER is set',
+        },
+        skip_preflight: {
+          type: 'boolean',
+          description: 'Submit without checking the media first (see preflight_media)',
+        },
+        callback_url: {
+          type: 'string',
+          description: 'URL to receive completion callback',
+        },
+      },
+      required: ['video_url', 'audio_url'],
+    },
+  },
+  {
+    name: 'get_lipsync',
+    description: 'Get details of a specific lipsync',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lipsync_id: {
+          type: 'string',
+          description: 'Unique identifier for the lipsync',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['lipsync_id'],
+    },
+  },
+  {
+    name: 'list_lipsyncs',
+    description: 'List all lipsyncs in your account, with optional paging, filtering and sorting',
+    inputSchema: {
+      type: 'object',
+      properties: { ...listProperties(LIPSYNC_LISTING), fresh: FRESH_PROPERTY },
+    },
+  },
+  {
+    name: 'delete_lipsync',
+    description: 'Delete a lipsync permanently (returns a preview and confirmation token first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lipsync_id: {
+          type: 'string',
+          description: 'Unique identifier for the lipsync',
+        },
+        confirm_token: CONFIRM_TOKEN_PROPERTY,
+      },
+      required: ['lipsync_id'],
+    },
+  },
+  {
+    name: 'wait_for_lipsync',
+    description: 'Wait for a lipsync to finish processing, reporting its status',
+    inputSchema: {
+      type: 'object',
+      properties: waitProperties(LIPSYNC_JOB),
+      required: ['lipsync_id'],
+    },
+  },
+  {
+    name: 'download_lipsync',
+    description: 'Download a finished lipsync video file into the download directory (TAVUS_DOWNLOAD_DIR). Resumes interrupted downloads, refuses to overwrite unless asked, and returns the size and SHA-256',
+    inputSchema: {
+      type: 'object',
+      properties: downloadProperties(LIPSYNC_DOWNLOAD),
+      required: ['lipsync_id'],
+    },
+  },
+
+  // Speech
+  {
+    name: 'generate_speech',
+    description: 'Generate speech audio from text using a replica',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        replica_id: {
+          type: 'string',
+          description: 'Replica to use for speech generation',
+        },
+        script: {
+          type: 'string',
+          description: 'Text script to convert to speech',
+        },
+        speech_name: {
+          type: 'string',
+          description: 'Name for the generated speech',
+        },
+        callback_url: {
+          type: 'string',
+          description: 'URL to receive completion callback',
+        },
+      },
+      required: ['replica_id', 'script'],
+    },
+  },
+  {
+    name: 'get_speech',
+    description: 'Get details of a specific speech',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        speech_id: {
+          type: 'string',
+          description: 'Unique identifier for the speech',
+        },
+        fresh: FRESH_PROPERTY,
+      },
+      required: ['speech_id'],
+    },
+  },
+  {
+    name: 'list_speeches',
+    description: 'List all speeches in your account, with optional paging, filtering and sorting',
+    inputSchema: {
+      type: 'object',
+      properties: { ...listProperties(SPEECH_LISTING), fresh: FRESH_PROPERTY },
+    },
+  },
+  {
+    name: 'delete_speech',
+    description: 'Delete a speech permanently (returns a preview and confirmation token first)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        speech_id: {
+          type: 'string',
+          description: 'Unique identifier for the speech',
+        },
+        confirm_token: CONFIRM_TOKEN_PROPERTY,
+      },
+      required: ['speech_id'],
+    },
+  },
+  {
+    name: 'rename_speech',
+    description: 'Rename an existing speech',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        speech_id: {
+          type: 'string',
+          description: 'Unique identifier for the speech',
+        },
+        speech_name: {
+          type: 'string',
+          description: 'New name for the speech',
+        },
+      },
+      required: ['speech_id', 'speech_name'],
+    },
+  },
+  {
+    name: 'wait_for_speech',
+    description: 'Wait for speech audio to finish generating, reporting its status',
+    inputSchema: {
+      type: 'object',
+      properties: waitProperties(SPEECH_JOB),
+      required: ['speech_id'],
+    },
+  },
+  {
+    name: 'download_speech',
+    description: 'Download a finished speech audio file into the download directory (TAVUS_DOWNLOAD_DIR). Resumes interrupted downloads, refuses to overwrite unless asked, and returns the size and SHA-256',
+    inputSchema: {
+      type: 'object',
+      properties: downloadProperties(SPEECH_DOWNLOAD),
+      required: ['speech_id'],
+    },
+  },
+
+  // Callback Events
+  {
+    name: 'list_callback_events',
+    description: 'List resource IDs that have received callbacks on the built-in callback receiver',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id_field: {
+          type: 'string',
+          description: 'Only include callbacks for this kind of resource',
+          enum: [...CALLBACK_ID_FIELDS],
+        },
+      },
+    },
+  },
+  {
+    name: 'get_callback_events',
+    description: 'Get the callback payloads received for a video, replica, lipsync, speech or conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'video_id, replica_id, lipsync_id, speech_id or conversation_id',
+        },
+      },
+      required: ['id'],
+    },
+  },
+
+  // Job Ledger
+  {
+    name: 'list_jobs',
+    description: 'List assets this server has created or deleted, from the local job ledger, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        resource: {
+          type: 'string',
+          description: 'Only include this kind of asset',
+          enum: Object.keys(LEDGER_RESOURCES),
+        },
+        tool: {
+          type: 'string',
+          description: 'Only include calls to this tool, e.g. generate_video',
+        },
+        status: {
+          type: 'string',
+          description: 'Only include jobs whose last known status matches exactly',
+        },
+        pending_only: {
+          type: 'boolean',
+          description: 'Only include jobs that are still processing (last known status is not final)',
+        },
+        batch_id: {
+          type: 'string',
+          description: 'Only include videos from this generate_videos_batch call',
+        },
+        profile: {
+          type: 'string',
+          description: 'Only include jobs created with this profile',
+        },
+        created_after: {
+          type: 'string',
+          description: 'Only include jobs recorded at or after this ISO 8601 timestamp',
+        },
+        created_before: {
+          type: 'string',
+          description: 'Only include jobs recorded before this ISO 8601 timestamp',
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of jobs to return (default 50)',
+          minimum: 1,
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Fetch the current status of matching jobs that are still processing from Tavus first',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_job',
+    description: 'Get a job ledger entry, including its arguments and status history, by job_id or Tavus ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'job_id from list_jobs, or the video_id, replica_id, etc. of the asset',
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Fetch the current status from Tavus first',
+        },
+      },
+      required: ['id'],
+    },
+  },
+
+  // Usage
+  {
+    name: 'get_usage',
+    description: 'Report the videos, minutes, conversations and replica trainings used today and this session, against any configured budgets',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: {
+          type: 'string',
+          description: 'Only report this profile (defaults to every configured profile)',
+        },
+      },
+    },
+  },
+
+  // Cache
+  {
+    name: 'get_cache_stats',
+    description: 'Show response cache hits, misses and cached entries per resource',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        clear: {
+          type: 'boolean',
+          description: 'Empty the cache and reset the counters after reporting them',
+        },
+      },
+    },
+  },
+
+  // Profiles
+  {
+    name: 'list_profiles',
+    description: 'List the configured Tavus account profiles and which one is the default',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'set_default_profile',
+    description: 'Change the Tavus account profile used when a tool call does not name one, for this MCP session only',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        profile: {
+          type: 'string',
+          description: 'Name of the profile to make the default',
+        },
+      },
+      required: ['profile'],
+    },
+  },
+];
+
+// Tools that are not tied to a single account and so take no profile argument
+const LOCAL_TOOLS = new Set([
+  'preflight_media',
+  'list_callback_events',
+  'get_callback_events',
+  'list_jobs',
+  'get_job',
+  'get_usage',
+  'get_cache_stats',
+  'list_profiles',
+  'set_default_profile',
+]);
+
+for (const tool of TOOLS) {
+  if (!LOCAL_TOOLS.has(tool.name)) {
+    tool.inputSchema.properties = { ...tool.inputSchema.properties, profile: PROFILE_PROPERTY };
+  }
+}
+
+export function usesProfile(tool: ToolDefinition): boolean {
+  return !LOCAL_TOOLS.has(tool.name);
+}
+
+export function findTool(name: string): ToolDefinition | undefined {
+  return TOOLS.find((tool) => tool.name === name);
+}
@@ -0,0 +1,200 @@
+/**
+ * Conversation transcripts.
+ *
+ * A verbose conversation (GET /conversations/{id}?verbose=true) carries an
+ * `events` list: the replica joining, the shutdown and its reason, the
+ * transcript and Raven's perception analysis. The transcript itself is a
+ * list of chat messages, so it is grouped into speaker turns here and
+ * written out as Markdown, JSON lines, SRT or WebVTT.
+ *
+ * Tavus does not time individual messages. Turn timings are estimated by
+ * spreading the time between the replica joining and the shutdown across
+ * the turns by word count, or at an average speaking rate when either end
+ * is unknown, and are marked as estimated in every format.
+ */
+
+export type TranscriptFormat = 'markdown' | 'jsonl' | 'srt' | 'vtt';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['markdown', 'jsonl', 'srt', 'vtt'];
+
+// Speaking rate used for timings when the conversation's length is unknown
+const WORDS_PER_MINUTE = 150;
+
+export const SPEAKER_LABELS: Record<string, string> = {
+  user: 'Participant',
+  assistant: 'Replica',
+  system: 'System',
+};
+
+export interface ConversationEvent {
+  event_type: string;
+  message_type?: string;
+  timestamp?: string;
+  created_at?: string;
+  properties?: Record<string, any>;
+}
+
+export interface SpeakerTurn {
+  index: number;
+  role: string;
+  speaker: string;
+  text: string;
+  start_seconds: number;
+  end_seconds: number;
+}
+
+export interface Transcript {
+  conversation_id: string;
+  conversation_name?: string;
+  started_at?: string;
+  ended_at?: string;
+  shutdown_reason?: string;
+  perception_analysis?: unknown;
+  timing: 'estimated';
+  turns: SpeakerTurn[];
+}
+
+export class TranscriptUnavailableError extends Error {
+  constructor(conversationId: string, status?: string) {
+    super(
+      `Conversation ${conversationId} has no transcript yet${status ? ` (status: ${status})` : ''}; ` +
+      'Tavus adds it shortly after the conversation ends'
+    );
+    this.name = 'TranscriptUnavailableError';
+  }
+}
+
+function eventTime(event: ConversationEvent | undefined): string | undefined {
+  return event?.timestamp ?? event?.created_at;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Builds speaker turns from a verbose conversation. Consecutive messages
+ * from the same role form one turn; system messages (the persona's prompt)
+ * are left out unless `includeSystem` is set.
+ */
+export function buildTranscript(conversation: Record<string, any>, includeSystem = false): Transcript {
+  const events: ConversationEvent[] = Array.isArray(conversation.events) ? conversation.events : [];
+  const find = (type: string) => events.find((event) => event.event_type === type);
+
+  const transcriptEvent = find('application.transcription_ready');
+  const messages = transcriptEvent?.properties?.transcript;
+  if (!Array.isArray(messages)) {
+    throw new TranscriptUnavailableError(conversation.conversation_id, conversation.status);
+  }
+
+  const turns: Omit<SpeakerTurn, 'start_seconds' | 'end_seconds'>[] = [];
+  for (const message of messages) {
+    const role = String(message?.role ?? 'unknown');
+    const text = typeof message?.content === 'string' ? message.content.trim() : '';
+    if (text === '' || (role === 'system' && !includeSystem)) continue;
+
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === role) {
+      previous.text += `\n${text}`;
+    } else {
+      turns.push({ index: turns.length + 1, role, speaker: SPEAKER_LABELS[role] ?? role, text });
+    }
+  }
+
+  const shutdown = find('system.shutdown');
+  const startedAt = eventTime(find('system.replica_joined')) ?? conversation.created_at;
+  const endedAt = eventTime(shutdown) ?? eventTime(transcriptEvent);
+  const span = (Date.parse(endedAt ?? '') - Date.parse(startedAt ?? '')) / 1000;
+
+  const words = turns.map((turn) => Math.max(1, wordCount(turn.text)));
+  const totalWords = words.reduce((sum, count) => sum + count, 0);
+  const secondsPerWord = span > 0 ? span / totalWords : 60 / WORDS_PER_MINUTE;
+  let clock = 0;
+
+  const perception = find('application.perception_analysis')?.properties?.analysis;
+  return {
+    conversation_id: conversation.conversation_id,
+    conversation_name: conversation.conversation_name,
+    started_at: startedAt,
+    ended_at: endedAt,
+    shutdown_reason: shutdown?.properties?.shutdown_reason,
+    perception_analysis: perception,
+    timing: 'estimated',
+    turns: turns.map((turn, i) => {
+      const start = clock;
+      clock += words[i] * secondsPerWord;
+      return { ...turn, start_seconds: round(start), end_seconds: round(clock) };
+    }),
+  };
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Formats seconds as HH:MM:SS with milliseconds after `separator`
+ * ("," for SRT, "." for WebVTT).
+ */
+export function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const total = Math.round(seconds * 1000);
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const secs = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(total % 1000, 3)}`;
+}
+
+function toMarkdown(transcript: Transcript): string {
+  const title = transcript.conversation_name
+    ? `${transcript.conversation_name} (${transcript.conversation_id})`
+    : transcript.conversation_id;
+  const details = [
+    transcript.started_at && `- Started: ${transcript.started_at}`,
+    transcript.ended_at && `- Ended: ${transcript.ended_at}${transcript.shutdown_reason ? ` (${transcript.shutdown_reason})` : ''}`,
+    `- Turns: ${transcript.turns.length} (times are estimated)`,
+  ].filter(Boolean);
+  const turns = transcript.turns.map((turn) =>
+    `**${turn.speaker}** [${formatCueTime(turn.start_seconds, '.').slice(0, 8)}]: ${turn.text.replace(/\n/g, '  \n')}`);
+
+  const sections = [`# Transcript: ${title}`, details.join('\n'), ...turns];
+  if (transcript.perception_analysis !== undefined) {
+    const analysis = typeof transcript.perception_analysis === 'string'
+      ? transcript.perception_analysis
+      : `\`\`\`json\n${JSON.stringify(transcript.perception_analysis, null, 2)}\n\`\`\``;
+    sections.push('## Perception Analysis', analysis);
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+// A blank line or "-->" inside a cue would end it early in SRT and WebVTT
+function cueText(text: string): string {
+  return text.replace(/\n\s*\n/g, '\n').replace(/-->/g, '->');
+}
+
+function toCues(transcript: Transcript, separator: ',' | '.', label: (turn: SpeakerTurn) => string): string[] {
+  return transcript.turns.map((turn) => [
+    String(turn.index),
+    `${formatCueTime(turn.start_seconds, separator)} --> ${formatCueTime(turn.end_seconds, separator)}`,
+    label({ ...turn, text: cueText(turn.text) }),
+  ].join('\n'));
+}
+
+export function formatTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(transcript);
+    case 'jsonl':
+      return transcript.turns
+        .map((turn) => `${JSON.stringify({ conversation_id: transcript.conversation_id, timing: transcript.timing, ...turn })}\n`)
+        .join('');
+    case 'srt':
+      return `${toCues(transcript, ',', (turn) => `${turn.speaker}: ${turn.text}`).join('\n\n')}\n`;
+    case 'vtt':
+      return [
+        'WEBVTT',
+        'NOTE Cue times are estimated from the length of each turn',
+        ...toCues(transcript, '.', (turn) => `<v ${turn.speaker}>${turn.text}`),
+      ].join('\n\n') + '\n';
+  }
+}
@@ -0,0 +1,580 @@
+/**
+ * Local files as media inputs.
+ *
+ * create_replica, generate_video and create_lipsync take their media as
+ * URLs Tavus downloads. With an uploader configured (TAVUS_UPLOADER), those
+ * fields also accept a file:// URL or a local path, and each file is made
+ * reachable before the request goes to Tavus:
+ *
+ * - `s3` PUTs the file to an S3-compatible bucket with a presigned URL and
+ *   hands Tavus a presigned GET URL
+ * - `command` runs a user-provided shell command that uploads the file and
+ *   prints its public URL
+ * - `serve` publishes the file from a built-in HTTP server under an
+ *   unguessable path; expose it through a tunnel or reverse proxy and point
+ *   TAVUS_UPLOAD_PUBLIC_URL at it
+ *
+ * Local paths are resolved against TAVUS_UPLOAD_DIR (default: the server's
+ * working directory) and may not leave it, including through symlinks.
+ * Uploads are removed once their job reaches a terminal status, when the
+ * creation request fails, after TAVUS_UPLOAD_TTL_SECONDS, or when the
+ * server stops.
+ */
+
+import axios from 'axios';
+import { execFile } from 'node:child_process';
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { realpath, stat } from 'node:fs/promises';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { basename, extname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { isInside } from './downloads.js';
+import { TERMINAL_STATUSES } from './ledger.js';
+import { JobTarget, LIPSYNC_JOB, REPLICA_JOB, VIDEO_JOB } from './polling.js';
+
+// Uploads are removed after this long even if their job never finishes
+const DEFAULT_UPLOAD_TTL_SECONDS = 24 * 60 * 60;
+
+// Longest lifetime S3 allows for a presigned URL
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+// Upload and cleanup commands are stopped after this long
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Fields of each creation tool that may name a local file
+export const LOCAL_FILE_INPUTS: Record<string, { job: JobTarget; fields: string[] }> = {
+  create_replica: { job: REPLICA_JOB, fields: ['train_video_url', 'consent_video_url'] },
+  generate_video: { job: VIDEO_JOB, fields: ['audio_url', 'background_source_url'] },
+  create_lipsync: { job: LIPSYNC_JOB, fields: ['video_url', 'audio_url'] },
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+};
+
+export type UploaderKind = 's3' | 'command' | 'serve';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export type UploaderConfig =
+  | { kind: 's3'; bucketUrl: string; region: string; prefix: string; credentials: S3Credentials }
+  | { kind: 'command'; command: string; cleanupCommand?: string }
+  | { kind: 'serve'; host: string; port: number; publicUrl?: string };
+
+export interface UploadOptions {
+  root: string;
+  ttlSeconds: number;
+  uploader?: UploaderConfig;
+}
+
+export interface LocalFile {
+  path: string;
+  /** Unique name for the stored copy */
+  name: string;
+  size: number;
+  contentType: string;
+}
+
+export interface UploadedFile {
+  url: string;
+  remove(): Promise<void>;
+}
+
+export interface Uploader {
+  upload(file: LocalFile): Promise<UploadedFile>;
+  close(): Promise<void>;
+}
+
+export interface StagedUpload {
+  field: string;
+  source: string;
+  url: string;
+  remove(): Promise<void>;
+}
+
+/**
+ * Raised for inputs that cannot be uploaded (`invalid`) and for uploads
+ * that went wrong on the way (`failed`).
+ */
+export class UploadError extends Error {
+  constructor(message: string, public readonly kind: 'invalid' | 'failed') {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export function uploadOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): UploadOptions {
+  const ttlSeconds = Number(env.TAVUS_UPLOAD_TTL_SECONDS || DEFAULT_UPLOAD_TTL_SECONDS);
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+    throw new Error(`TAVUS_UPLOAD_TTL_SECONDS must be a positive number, got "${env.TAVUS_UPLOAD_TTL_SECONDS}"`);
+  }
+  return {
+    root: resolve(env.TAVUS_UPLOAD_DIR || process.cwd()),
+    ttlSeconds,
+    uploader: uploaderConfigFromEnv(env),
+  };
+}
+
+function uploaderConfigFromEnv(env: NodeJS.ProcessEnv): UploaderConfig | undefined {
+  switch (env.TAVUS_UPLOADER || undefined) {
+    case undefined:
+      return undefined;
+    case 's3': {
+      const bucket = env.TAVUS_UPLOAD_S3_BUCKET;
+      const accessKeyId = env.TAVUS_UPLOAD_S3_ACCESS_KEY_ID || env.AWS_ACCESS_KEY_ID;
+      const secretAccessKey = env.TAVUS_UPLOAD_S3_SECRET_ACCESS_KEY || env.AWS_SECRET_ACCESS_KEY;
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error('TAVUS_UPLOADER=s3 needs TAVUS_UPLOAD_S3_BUCKET and AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY');
+      }
+      const region = env.TAVUS_UPLOAD_S3_REGION || env.AWS_REGION || 'us-east-1';
+      const endpoint = env.TAVUS_UPLOAD_S3_ENDPOINT?.replace(/\/+$/, '');
+      return {
+        kind: 's3',
+        // Custom endpoints (MinIO, R2, ...) get path-style URLs, AWS virtual-hosted ones
+        bucketUrl: endpoint ? `${endpoint}/${bucket}` : `https://${bucket}.s3.${region}.amazonaws.com`,
+        region,
+        prefix: env.TAVUS_UPLOAD_S3_PREFIX ?? 'tavus-mcp/',
+        credentials: {
+          accessKeyId,
+          secretAccessKey,
+          sessionToken: env.TAVUS_UPLOAD_S3_SESSION_TOKEN || env.AWS_SESSION_TOKEN || undefined,
+        },
+      };
+    }
+    case 'command':
+      if (!env.TAVUS_UPLOAD_COMMAND) {
+        throw new Error('TAVUS_UPLOADER=command needs TAVUS_UPLOAD_COMMAND');
+      }
+      return {
+        kind: 'command',
+        command: env.TAVUS_UPLOAD_COMMAND,
+        cleanupCommand: env.TAVUS_UPLOAD_CLEANUP_COMMAND || undefined,
+      };
+    case 'serve': {
+      const port = Number(env.TAVUS_UPLOAD_PORT || 0);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`TAVUS_UPLOAD_PORT must be a port number, got "${env.TAVUS_UPLOAD_PORT}"`);
+      }
+      return {
+        kind: 'serve',
+        host: env.TAVUS_UPLOAD_HOST || '127.0.0.1',
+        port,
+        publicUrl: env.TAVUS_UPLOAD_PUBLIC_URL?.replace(/\/+$/, ''),
+      };
+    }
+    default:
+      throw new Error(`TAVUS_UPLOADER must be s3, command or serve, got "${env.TAVUS_UPLOADER}"`);
+  }
+}
+
+/**
+ * Returns the path named by a file:// URL or a plain path, or undefined
+ * for any other URL. Single-letter schemes are Windows drive letters.
+ */
+export function localPathOf(value: string): string | undefined {
+  if (/^file:/i.test(value)) {
+    try {
+      return fileURLToPath(value);
+    } catch (error) {
+      throw new UploadError(`${value} is not a valid file URL (${error instanceof Error ? error.message : error})`, 'invalid');
+    }
+  }
+  return /^[a-z][a-z0-9+.-]+:/i.test(value) ? undefined : value;
+}
+
+/**
+ * Resolves a local input against the upload directory and checks that it
+ * is a file inside it.
+ */
+export async function resolveLocalFile(root: string, value: string, requested: string): Promise<LocalFile> {
+  const path = resolve(root, requested);
+  if (!isInside(root, path)) {
+    throw new UploadError(`${value} is outside the upload directory ${root}`, 'invalid');
+  }
+
+  let real: string;
+  try {
+    real = await realpath(path);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new UploadError(code === 'ENOENT' ? `${value} does not exist` : `Could not read ${value}: ${(error as Error).message}`, 'invalid');
+  }
+  if (!isInside(await realpath(root), real)) {
+    throw new UploadError(`${value} resolves outside the upload directory ${root}`, 'invalid');
+  }
+  const info = await stat(real);
+  if (!info.isFile()) {
+    throw new UploadError(`${value} is not a file`, 'invalid');
+  }
+
+  return {
+    path: real,
+    name: `${randomBytes(8).toString('hex')}-${basename(real).replace(/[^\w.-]+/g, '_')}`,
+    size: info.size,
+    contentType: CONTENT_TYPES[extname(real).toLowerCase()] ?? 'application/octet-stream',
+  };
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Signs `url` for `method` with AWS Signature Version 4 query parameters,
+ * as S3 and S3-compatible stores accept for presigned requests.
+ */
+export function presignS3Url(
+  method: string,
+  url: string,
+  options: { region: string; credentials: S3Credentials; expiresSeconds: number; now?: Date }
+): string {
+  const target = new URL(url);
+  const amzDate = (options.now ?? new Date()).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const scope = `${amzDate.slice(0, 8)}/${options.region}/s3/aws4_request`;
+
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${options.credentials.accessKeyId}/${scope}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(Math.min(Math.floor(options.expiresSeconds), MAX_PRESIGN_SECONDS)),
+    'X-Amz-SignedHeaders': 'host',
+    ...(options.credentials.sessionToken ? { 'X-Amz-Security-Token': options.credentials.sessionToken } : {}),
+  };
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map((key) => `${encodeRfc3986(key)}=${encodeRfc3986(query[key])}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    target.pathname,
+    canonicalQuery,
+    `host:${target.host}`,
+    '',
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n');
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  let key: Buffer = hmac(`AWS4${options.credentials.secretAccessKey}`, amzDate.slice(0, 8));
+  for (const part of [options.region, 's3', 'aws4_request']) {
+    key = hmac(key, part);
+  }
+  const signature = hmac(key, stringToSign).toString('hex');
+  return `${target.origin}${target.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+class S3Uploader implements Uploader {
+  constructor(private config: Extract<UploaderConfig, { kind: 's3' }>, private ttlSeconds: number) {}
+
+  async upload(file: LocalFile): Promise<UploadedFile> {
+    const key = `${this.config.prefix}${file.name}`;
+    const objectUrl = `${this.config.bucketUrl}/${key.split('/').map(encodeRfc3986).join('/')}`;
+    const sign = (method: string, expiresSeconds: number) => presignS3Url(method, objectUrl, {
+      region: this.config.region,
+      credentials: this.config.credentials,
+      expiresSeconds,
+    });
+
+    // Global axios: the Tavus API key must not go to the bucket
+    await axios.put(sign('PUT', 15 * 60), createReadStream(file.path), {
+      headers: { 'Content-Type': file.contentType, 'Content-Length': file.size },
+      maxBodyLength: Infinity,
+    });
+    return {
+      url: sign('GET', this.ttlSeconds),
+      remove: async () => {
+        await axios.delete(sign('DELETE', 15 * 60));
+      },
+    };
+  }
+
+  async close(): Promise<void> {}
+}
+
+function runCommand(command: string, variables: Record<string, string>): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('/bin/sh', ['-c', command], {
+      env: { ...process.env, ...variables },
+      timeout: COMMAND_TIMEOUT_MS,
+    }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(String(stderr).trim() || error.message));
+      } else {
+        resolve(String(stdout));
+      }
+    });
+  });
+}
+
+/**
+ * Runs the configured command with the file in TAVUS_UPLOAD_FILE and takes
+ * the last line it prints as the file's URL.
+ */
+class CommandUploader implements Uploader {
+  constructor(private config: Extract<UploaderConfig, { kind: 'command' }>) {}
+
+  async upload(file: LocalFile): Promise<UploadedFile> {
+    const variables = {
+      TAVUS_UPLOAD_FILE: file.path,
+      TAVUS_UPLOAD_NAME: file.name,
+      TAVUS_UPLOAD_CONTENT_TYPE: file.contentType,
+    };
+    const output = await runCommand(this.config.command, variables);
+    const url = output.trim().split('\n').pop()?.trim() ?? '';
+    if (!/^https?:\/\//i.test(url)) {
+      throw new Error(`upload command printed ${url ? `"${url}"` : 'nothing'} instead of an http(s) URL`);
+    }
+
+    const cleanupCommand = this.config.cleanupCommand;
+    return {
+      url,
+      remove: async () => {
+        if (cleanupCommand) {
+          await runCommand(cleanupCommand, { ...variables, TAVUS_UPLOAD_URL: url });
+        }
+      },
+    };
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Serves uploaded files from an HTTP server started on the first upload.
+ */
+class StaticFileServer implements Uploader {
+  private httpServer?: Promise<HttpServer>;
+  private files = new Map<string, LocalFile>();
+
+  constructor(private config: Extract<UploaderConfig, { kind: 'serve' }>) {}
+
+  async upload(file: LocalFile): Promise<UploadedFile> {
+    const server = await (this.httpServer ??= this.listen());
+    const urlPath = `/uploads/${randomBytes(16).toString('hex')}/${encodeURIComponent(file.name)}`;
+    this.files.set(urlPath, file);
+
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : this.config.port;
+    return {
+      url: `${this.config.publicUrl ?? `http://${this.config.host}:${port}`}${urlPath}`,
+      remove: async () => {
+        this.files.delete(urlPath);
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    const pending = this.httpServer;
+    this.httpServer = undefined;
+    if (!pending) return;
+    const server = await pending;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async listen(): Promise<HttpServer> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[Upload Error]', error);
+        if (!res.headersSent) this.reply(res, 500);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    const address = server.address();
+    console.error(`Tavus upload server listening on http://${this.config.host}:${typeof address === 'object' && address ? address.port : this.config.port}`);
+    return server;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const file = this.files.get(new URL(req.url ?? '/', 'http://localhost').pathname);
+    if (!file) {
+      this.reply(res, 404);
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      this.reply(res, 405);
+      return;
+    }
+
+    // Video fetchers often ask for byte ranges
+    const range = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+    let start = 0;
+    let end = file.size - 1;
+    if (range && (range[1] || range[2])) {
+      start = range[1] ? Number(range[1]) : Math.max(0, file.size - Number(range[2]));
+      end = range[1] && range[2] ? Math.min(Number(range[2]), file.size - 1) : file.size - 1;
+      if (start > end) {
+        res.writeHead(416, { 'Content-Range': `bytes */${file.size}` });
+        res.end();
+        return;
+      }
+    }
+
+    const partial = start > 0 || end < file.size - 1;
+    res.writeHead(partial ? 206 : 200, {
+      'Content-Type': file.contentType,
+      'Content-Length': end - start + 1,
+      'Accept-Ranges': 'bytes',
+      ...(partial ? { 'Content-Range': `bytes ${start}-${end}/${file.size}` } : {}),
+    });
+    if (req.method === 'HEAD' || file.size === 0) {
+      res.end();
+      return;
+    }
+    createReadStream(file.path, { start, end }).pipe(res);
+  }
+
+  private reply(res: ServerResponse, status: number): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(status === 404 ? 'Not found' : status === 405 ? 'Method not allowed' : 'Internal error');
+  }
+}
+
+export function createUploader(config: UploaderConfig, ttlSeconds: number): Uploader {
+  switch (config.kind) {
+    case 's3':
+      return new S3Uploader(config, ttlSeconds);
+    case 'command':
+      return new CommandUploader(config);
+    case 'serve':
+      return new StaticFileServer(config);
+  }
+}
+
+/**
+ * Uploads the local files named in tool arguments and removes them again
+ * once the job that uses them is done with them.
+ */
+export class UploadManager {
+  private uploader?: Uploader;
+  private jobs = new Map<string, { uploads: StagedUpload[]; timer: NodeJS.Timeout }>();
+
+  constructor(private options: UploadOptions) {
+    if (options.uploader) {
+      this.uploader = createUploader(options.uploader, options.ttlSeconds);
+    }
+  }
+
+  /**
+   * Replaces local files in the media fields of `args` with the URLs they
+   * were uploaded to. Returns the uploads, which are released again if any
+   * of them fails.
+   */
+  async stage(toolName: string, args: Record<string, any>): Promise<{ body: Record<string, any>; uploads: StagedUpload[] }> {
+    const body = { ...args };
+    const uploads: StagedUpload[] = [];
+    try {
+      for (const field of LOCAL_FILE_INPUTS[toolName]?.fields ?? []) {
+        const value = args[field];
+        const requested = typeof value === 'string' ? localPathOf(value) : undefined;
+        if (requested === undefined) continue;
+        if (!this.uploader) {
+          throw new UploadError(
+            `${field} "${value}" is a local file; set TAVUS_UPLOADER (s3, command or serve) to upload local files`,
+            'invalid'
+          );
+        }
+
+        const file = await resolveLocalFile(this.options.root, value, requested);
+        let uploaded: UploadedFile;
+        try {
+          uploaded = await this.uploader.upload(file);
+        } catch (error) {
+          throw new UploadError(
+            `Could not upload ${value} for ${field}: ${error instanceof Error ? error.message : error}`,
+            'failed'
+          );
+        }
+        uploads.push({ field, source: file.path, ...uploaded });
+        body[field] = uploaded.url;
+      }
+    } catch (error) {
+      await this.release(uploads);
+      throw error;
+    }
+    return { body, uploads };
+  }
+
+  /**
+   * Keeps uploads until the job they were sent with finishes, or for the
+   * upload TTL at most.
+   */
+  track(jobId: string, uploads: StagedUpload[]): void {
+    if (uploads.length === 0) return;
+    const timer = setTimeout(() => void this.finish(jobId), this.options.ttlSeconds * 1000);
+    timer.unref();
+    const existing = this.jobs.get(jobId);
+    if (existing) clearTimeout(existing.timer);
+    this.jobs.set(jobId, { uploads: [...(existing?.uploads ?? []), ...uploads], timer });
+  }
+
+  /**
+   * Releases a job's uploads once it reports a terminal status.
+   */
+  observe(jobId: string, status: string): void {
+    if (TERMINAL_STATUSES.includes(status)) {
+      void this.finish(jobId);
+    }
+  }
+
+  /** IDs of jobs whose uploads are still kept */
+  get pendingJobs(): string[] {
+    return [...this.jobs.keys()];
+  }
+
+  async release(uploads: StagedUpload[]): Promise<void> {
+    await Promise.all(uploads.map(async (upload) => {
+      try {
+        await upload.remove();
+      } catch (error) {
+        console.error(`[Upload Error] Could not remove the upload of ${upload.source}:`, error instanceof Error ? error.message : error);
+      }
+    }));
+  }
+
+  /**
+   * Removes every upload still kept and stops the uploader.
+   */
+  async close(): Promise<void> {
+    await Promise.all([...this.jobs.keys()].map((jobId) => this.finish(jobId)));
+    await this.uploader?.close();
+  }
+
+  private async finish(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+    this.jobs.delete(jobId);
+    clearTimeout(job.timer);
+    await this.release(job.uploads);
+  }
+}
@@ -0,0 +1,469 @@
+/**
+ * Usage metering and budgets.
+ *
+ * Every creation call is metered in the units Tavus bills by: videos and
+ * minutes of generated video, minutes of speech, conversations and their
+ * minutes, and replica trainings. Video and speech minutes are estimated
+ * before the call from the script length or the audio duration;
+ * conversation minutes run from creation until the conversation ends,
+ * capped at its max_call_duration.
+ *
+ * Budgets cap those units per UTC day or per server session:
+ *   TAVUS_BUDGET_DAILY="videos=20,video_minutes=30"
+ *   TAVUS_BUDGET_SESSION="conversation_minutes=60"
+ * and per profile with TAVUS_PROFILE_<NAME>_BUDGET_DAILY / _SESSION or a
+ * "budgets" entry in TAVUS_PROFILES_FILE. A call that would take a metric
+ * past its limit is refused before anything is sent to Tavus; a call that
+ * passes holds its units until it is recorded or fails, so calls made at
+ * the same time cannot together go over a limit.
+ *
+ * There is one meter per server process. In HTTP mode every client shares
+ * it, so a session budget covers all clients since the server started,
+ * not each MCP session.
+ *
+ * Usage is appended to usage.jsonl next to the job ledger so daily budgets
+ * survive a restart; TAVUS_USAGE_FILE moves it, or keeps it in memory
+ * when set to false. Servers sharing the file read each other's usage
+ * before enforcing a limit, so a daily budget covers all of them, while a
+ * session budget counts only the server's own calls.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { Journal } from './journal.js';
+
+const USAGE_FILE = 'usage.jsonl';
+
+// Size past which usage.jsonl is rotated to usage.jsonl.1
+const MAX_USAGE_BYTES = 4 * 1024 * 1024;
+
+// Records older than this (and older than the session) are dropped; only
+// today and the session are reported
+const RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Speaking rate used to turn a script into minutes
+export const WORDS_PER_MINUTE = 150;
+
+// Tavus ends conversations after an hour unless max_call_duration says otherwise
+export const DEFAULT_MAX_CALL_SECONDS = 3600;
+
+export const USAGE_METRICS = [
+  'videos',
+  'video_minutes',
+  'speech_minutes',
+  'conversations',
+  'conversation_minutes',
+  'replica_trainings',
+] as const;
+
+export type UsageMetric = typeof USAGE_METRICS[number];
+
+export type UsageUnits = Partial<Record<UsageMetric, number>>;
+
+export type BudgetWindow = 'daily' | 'session';
+
+export const BUDGET_WINDOWS: BudgetWindow[] = ['daily', 'session'];
+
+export type Budgets = Partial<Record<BudgetWindow, UsageUnits>>;
+
+export interface UsageOptions {
+  file?: string;
+  budgets: Budgets;
+}
+
+export interface UsageRecord {
+  tool: string;
+  profile: string;
+  // The server session that made the call
+  session?: string;
+  resource_id?: string;
+  units: UsageUnits;
+  // Set when a video's audio could not be measured, so its minutes are missing
+  unmeasured?: boolean;
+  max_duration_seconds?: number;
+  ended_at?: string;
+  at: string;
+}
+
+// Units a creation call in progress holds against its profile's budgets
+export interface UsageHold {
+  profile: string;
+  units: UsageUnits;
+}
+
+// One line of the usage file: a metered call, or the end of a conversation
+type UsageLine =
+  | { record: UsageRecord }
+  | { end: { resource_id: string; at: string } };
+
+export interface UsageEstimate {
+  units: UsageUnits;
+  unmeasured?: boolean;
+  max_duration_seconds?: number;
+}
+
+export interface UsageWindowReport {
+  since: string;
+  resets_at?: string;
+  used: Required<UsageUnits>;
+  limits: UsageUnits;
+  remaining: UsageUnits;
+}
+
+export interface UsageReport {
+  profile: string;
+  daily: UsageWindowReport;
+  session: UsageWindowReport;
+  // Videos made from audio that could not be measured, missing from video_minutes
+  unmeasured_videos_today?: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string, readonly window: BudgetWindow, readonly metric: UsageMetric) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Parses a budget written as "videos=20,video_minutes=30" or as an object
+ * of the same metrics.
+ */
+export function parseBudget(value: unknown, source: string): UsageUnits {
+  const entries = typeof value === 'string'
+    ? value.split(',').map((part) => part.trim()).filter(Boolean).map((part) => {
+      const [metric, limit = ''] = part.split('=').map((side) => side.trim());
+      return [metric, limit === '' ? NaN : Number(limit)] as const;
+    })
+    : typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? Object.entries(value).map(([metric, limit]) => [metric, typeof limit === 'number' ? limit : NaN] as const)
+      : undefined;
+  if (!entries) {
+    throw new Error(`Invalid budget in ${source}: expected "metric=limit,..." or an object of limits`);
+  }
+
+  const budget: UsageUnits = {};
+  for (const [metric, limit] of entries) {
+    if (!(USAGE_METRICS as readonly string[]).includes(metric)) {
+      throw new Error(`Invalid budget in ${source}: unknown metric "${metric}" (expected one of ${USAGE_METRICS.join(', ')})`);
+    }
+    if (!Number.isFinite(limit) || limit < 0) {
+      throw new Error(`Invalid budget in ${source}: ${metric} needs a limit of zero or more`);
+    }
+    budget[metric as UsageMetric] = limit;
+  }
+  return budget;
+}
+
+/**
+ * Reads <prefix>_DAILY and <prefix>_SESSION budgets from the environment.
+ */
+export function budgetsFromEnv(env: NodeJS.ProcessEnv, prefix: string): Budgets | undefined {
+  const budgets: Budgets = {};
+  for (const window of BUDGET_WINDOWS) {
+    const name = `${prefix}_${window.toUpperCase()}`;
+    if (env[name]) budgets[window] = parseBudget(env[name], name);
+  }
+  return Object.keys(budgets).length > 0 ? budgets : undefined;
+}
+
+/**
+ * Reads the usage file location and the budgets that apply to every
+ * profile.
+ */
+export function usageOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): UsageOptions {
+  const setting = env.TAVUS_USAGE_FILE ?? '';
+  const inMemory = ['0', 'false', 'no', 'off'].includes(setting.toLowerCase());
+  return {
+    file: inMemory
+      ? undefined
+      : setting || join(env.TAVUS_LEDGER_DIR || join(homedir(), '.tavus-mcp'), USAGE_FILE),
+    budgets: budgetsFromEnv(env, 'TAVUS_BUDGET') ?? {},
+  };
+}
+
+/**
+ * Profile budgets override the shared ones metric by metric.
+ */
+export function mergeBudgets(shared: Budgets, profile: Budgets = {}): Budgets {
+  const merged: Budgets = {};
+  for (const window of BUDGET_WINDOWS) {
+    if (shared[window] || profile[window]) {
+      merged[window] = { ...shared[window], ...profile[window] };
+    }
+  }
+  return merged;
+}
+
+export function scriptMinutes(script: string): number {
+  const words = script.trim().split(/\s+/).filter(Boolean).length;
+  return roundUnits(words / WORDS_PER_MINUTE);
+}
+
+function roundUnits(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Estimates what one generate_video request will use. `audioSeconds` is
+ * the measured length of its audio_url, when known.
+ */
+export function estimateVideo(request: Record<string, any>, audioSeconds?: number): UsageEstimate {
+  if (typeof request.script === 'string') {
+    return { units: { videos: 1, video_minutes: scriptMinutes(request.script) } };
+  }
+  if (audioSeconds !== undefined) {
+    return { units: { videos: 1, video_minutes: roundUnits(audioSeconds / 60) } };
+  }
+  return { units: { videos: 1 }, unmeasured: true };
+}
+
+export function estimateSpeech(request: Record<string, any>): UsageEstimate {
+  return { units: { speech_minutes: scriptMinutes(String(request.script ?? '')) } };
+}
+
+export function estimateConversation(request: Record<string, any>): UsageEstimate {
+  const maxSeconds = Number(request.properties?.max_call_duration);
+  return {
+    units: { conversations: 1, conversation_minutes: 0 },
+    max_duration_seconds: maxSeconds > 0 ? maxSeconds : DEFAULT_MAX_CALL_SECONDS,
+  };
+}
+
+export function estimateReplica(): UsageEstimate {
+  return { units: { replica_trainings: 1 } };
+}
+
+export function addUnits(total: UsageUnits, units: UsageUnits): UsageUnits {
+  const sum: UsageUnits = { ...total };
+  for (const metric of USAGE_METRICS) {
+    if (units[metric] !== undefined) sum[metric] = roundUnits((sum[metric] ?? 0) + units[metric]!);
+  }
+  return sum;
+}
+
+function emptyUnits(): Required<UsageUnits> {
+  return Object.fromEntries(USAGE_METRICS.map((metric) => [metric, 0])) as Required<UsageUnits>;
+}
+
+export class UsageMeter {
+  private records: UsageRecord[] = [];
+  private holds = new Set<UsageHold>();
+  private journal?: Journal<UsageLine>;
+  readonly sessionStart: Date;
+  private session = randomBytes(6).toString('hex');
+
+  constructor(readonly options: UsageOptions, private now: () => Date = () => new Date()) {
+    this.sessionStart = now();
+    if (!options.file) return;
+    this.journal = new Journal<UsageLine>({
+      file: options.file,
+      maxBytes: MAX_USAGE_BYTES,
+      label: 'Usage',
+      reset: () => { this.records = []; },
+      apply: (line) => this.apply(line),
+    });
+    this.journal.sync();
+  }
+
+  /**
+   * When the window currently being counted began.
+   */
+  windowStart(window: BudgetWindow): Date {
+    if (window === 'session') return this.sessionStart;
+    const now = this.now();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+
+  /**
+   * When the window next starts over, or undefined for the session.
+   */
+  resetsAt(window: BudgetWindow): Date | undefined {
+    if (window === 'session') return undefined;
+    return new Date(this.windowStart('daily').getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Units a profile has used in a window, counting running conversations
+   * up to now and the units held by calls still in progress.
+   */
+  used(profile: string, window: BudgetWindow): Required<UsageUnits> {
+    this.journal?.sync();
+    const since = this.windowStart(window).toISOString();
+    const totals = emptyUnits();
+    for (const record of this.records) {
+      if (record.profile !== profile || record.at < since) continue;
+      if (window === 'session' && record.session !== this.session) continue;
+      for (const metric of USAGE_METRICS) {
+        totals[metric] = roundUnits(totals[metric] + (record.units[metric] ?? 0));
+      }
+      totals.conversation_minutes = roundUnits(totals.conversation_minutes + this.conversationMinutes(record));
+    }
+    for (const hold of this.holds) {
+      if (hold.profile !== profile) continue;
+      for (const metric of USAGE_METRICS) {
+        totals[metric] = roundUnits(totals[metric] + (hold.units[metric] ?? 0));
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Throws a BudgetExceededError when `units` would take the profile past
+   * a limit, or when a limit on a metric the call uses is already spent.
+   */
+  check(profile: string, budgets: Budgets, units: UsageUnits): void {
+    for (const window of BUDGET_WINDOWS) {
+      const budget = budgets[window];
+      if (!budget) continue;
+      const used = this.used(profile, window);
+      for (const metric of USAGE_METRICS) {
+        const limit = budget[metric];
+        const amount = units[metric];
+        if (limit === undefined || amount === undefined) continue;
+        if (used[metric] < limit && used[metric] + amount <= limit) continue;
+
+        const resetsAt = this.resetsAt(window);
+        throw new BudgetExceededError(
+          `${window === 'daily' ? 'Daily' : 'Session'} budget for profile "${profile}" exceeded: ` +
+            `${metric} would reach ${roundUnits(used[metric] + amount)} of the ${limit} allowed ` +
+            `(${used[metric]} used so far). Creation calls are blocked ` +
+            (resetsAt ? `until the budget resets at ${resetsAt.toISOString()}` : 'for the rest of this server session'),
+          window,
+          metric
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks `units` like check() and holds them against the profile's
+   * budgets until the call records its usage or the hold is released, so
+   * calls running at the same time cannot each pass the check and
+   * together go over a limit.
+   */
+  reserve(profile: string, budgets: Budgets, units: UsageUnits): UsageHold {
+    this.check(profile, budgets, units);
+    const hold: UsageHold = { profile, units: { ...units } };
+    this.holds.add(hold);
+    return hold;
+  }
+
+  /**
+   * Gives back what is left of a hold, e.g. after the call failed.
+   */
+  release(hold: UsageHold): void {
+    this.holds.delete(hold);
+  }
+
+  /**
+   * Records a call's usage, taking its units out of `hold` when given.
+   */
+  async record(input: Omit<UsageRecord, 'at' | 'session'>, hold?: UsageHold): Promise<UsageRecord> {
+    const record: UsageRecord = { ...input, session: this.session, at: this.now().toISOString() };
+    this.journal?.sync();
+    const cutoff = this.cutoff();
+    this.records = this.records.filter((kept) => kept.at >= cutoff);
+    this.apply({ record });
+    if (hold) {
+      for (const metric of USAGE_METRICS) {
+        if (hold.units[metric] === undefined) continue;
+        hold.units[metric] = roundUnits(Math.max(0, hold.units[metric]! - (input.units[metric] ?? 0)));
+      }
+    }
+    await this.journal?.append({ record });
+    return record;
+  }
+
+  /**
+   * Stops the clock on a conversation. Later calls for the same ID are
+   * ignored, so the first end seen wins.
+   */
+  async end(conversationId: string): Promise<void> {
+    this.journal?.sync();
+    const line: UsageLine = { end: { resource_id: conversationId, at: this.now().toISOString() } };
+    if (this.apply(line)) await this.journal?.append(line);
+  }
+
+  /**
+   * Ends a conversation once a fetch or callback reports it ended. The
+   * write is queued before end() first yields, so flush() waits for it.
+   */
+  observe(id: string, status: string): void {
+    if (status === 'ended') void this.end(id);
+  }
+
+  /**
+   * Usage, limits and what is left of them per window for each profile.
+   */
+  report(profiles: string[], budgetsFor: (profile: string) => Budgets): UsageReport[] {
+    this.journal?.sync();
+    const today = this.windowStart('daily').toISOString();
+    return profiles.map((profile) => {
+      const budgets = budgetsFor(profile);
+      const windows = Object.fromEntries(BUDGET_WINDOWS.map((window) => {
+        const used = this.used(profile, window);
+        const limits = budgets[window] ?? {};
+        const remaining: UsageUnits = {};
+        for (const [metric, limit] of Object.entries(limits) as Array<[UsageMetric, number]>) {
+          remaining[metric] = roundUnits(Math.max(0, limit - used[metric]));
+        }
+        return [window, {
+          since: this.windowStart(window).toISOString(),
+          resets_at: this.resetsAt(window)?.toISOString(),
+          used,
+          limits,
+          remaining,
+        }];
+      })) as Record<BudgetWindow, UsageWindowReport>;
+      const unmeasured = this.records
+        .filter((record) => record.profile === profile && record.unmeasured && record.at >= today).length;
+      return {
+        profile,
+        ...windows,
+        ...(unmeasured > 0 ? { unmeasured_videos_today: unmeasured } : {}),
+      };
+    });
+  }
+
+  /**
+   * Resolves once every pending write has reached the disk.
+   */
+  flush(): Promise<void> {
+    return this.journal?.flush() ?? Promise.resolve();
+  }
+
+  private conversationMinutes(record: UsageRecord): number {
+    if (record.max_duration_seconds === undefined) return 0;
+    const start = Date.parse(record.at);
+    const end = Math.min(
+      record.ended_at ? Date.parse(record.ended_at) : this.now().getTime(),
+      start + record.max_duration_seconds * 1000
+    );
+    return roundUnits(Math.max(0, end - start) / 60000);
+  }
+
+  private cutoff(): string {
+    return new Date(Math.min(this.now().getTime() - RETENTION_MS, this.sessionStart.getTime())).toISOString();
+  }
+
+  // Adds a line to the records; returns whether anything changed
+  private apply(line: UsageLine): boolean {
+    if ('record' in line && line.record?.units) {
+      if (line.record.at < this.cutoff()) return false;
+      this.records.push(line.record);
+      return true;
+    }
+    if ('end' in line && line.end?.resource_id) {
+      let changed = false;
+      for (const record of this.records) {
+        if (record.resource_id !== line.end.resource_id || record.max_duration_seconds === undefined || record.ended_at) continue;
+        record.ended_at = line.end.at;
+        changed = true;
+      }
+      return changed;
+    }
+    return false;
+  }
+}
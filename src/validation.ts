@@ -0,0 +1,171 @@
+/**
+ * Argument validation for tool calls.
+ *
+ * Implements the subset of JSON Schema used by the tool definitions in
+ * tools.ts: type, properties, required, enum, items, anyOf and
+ * additionalProperties: false. Other unknown object properties are stripped
+ * rather than rejected so that a model passing an extra field does not end
+ * up forwarding it to Tavus.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  anyOf?: JsonSchema[];
+  enum?: readonly unknown[];
+  items?: JsonSchema;
+  /** false rejects undeclared properties instead of stripping them */
+  additionalProperties?: boolean;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+}
+
+interface ValidationResult {
+  value: unknown;
+  errors: string[];
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function validateValue(schema: JsonSchema, value: unknown, path: string): ValidationResult {
+  const errors: string[] = [];
+  const label = path || 'arguments';
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push(`${label}: expected ${schema.type}, got ${describeType(value)}`);
+    return { value, errors };
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    const allowed = schema.enum.map((option) => JSON.stringify(option)).join(', ');
+    errors.push(`${label}: must be one of ${allowed}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items: unknown[] = [];
+    value.forEach((item, index) => {
+      const result = validateValue(schema.items!, item, join(path, index));
+      errors.push(...result.errors);
+      items.push(result.value);
+    });
+    return { value: items, errors };
+  }
+
+  if (matchesType(value, 'object')) {
+    return validateObject(schema, value as Record<string, unknown>, path, errors);
+  }
+
+  return { value, errors };
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: string[]
+): ValidationResult {
+  for (const key of schema.required ?? []) {
+    const field = value[key];
+    if (field === undefined || field === null) {
+      errors.push(`${join(path, key)}: is required`);
+    } else if (field === '') {
+      errors.push(`${join(path, key)}: must not be empty`);
+    }
+  }
+
+  if (schema.anyOf) {
+    const satisfied = schema.anyOf.some(
+      (branch) => validateValue(branch, value, path).errors.length === 0
+    );
+    if (!satisfied) {
+      const alternatives = schema.anyOf.flatMap((branch) => branch.required ?? []);
+      errors.push(
+        alternatives.length === schema.anyOf.length
+          ? `${path || 'arguments'}: one of ${alternatives.join(', ')} is required`
+          : `${path || 'arguments'}: does not match any allowed combination`
+      );
+    }
+  }
+
+  // Objects without declared properties (e.g. TTS voice_settings) are passed through as-is
+  if (!schema.properties) {
+    return { value, errors };
+  }
+
+  if (schema.additionalProperties === false) {
+    const allowed = Object.keys(schema.properties);
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        errors.push(`${join(path, key)}: unknown field; expected one of ${allowed.join(', ')}`);
+      }
+    }
+  }
+
+  const cleaned: Record<string, unknown> = {};
+  for (const [key, propertySchema] of Object.entries(schema.properties)) {
+    if (value[key] === undefined) continue;
+    const result = validateValue(propertySchema, value[key], join(path, key));
+    errors.push(...result.errors);
+    cleaned[key] = result.value;
+  }
+  return { value: cleaned, errors };
+}
+
+/**
+ * Validates tool arguments against the tool's input schema.
+ *
+ * Returns a copy of the arguments with undeclared properties removed, or
+ * throws an InvalidParams error listing every offending field.
+ */
+export function validateArguments(
+  toolName: string,
+  schema: JsonSchema,
+  args: unknown
+): Record<string, any> {
+  const { value, errors } = validateValue(schema, args ?? {}, '');
+  if (errors.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for ${toolName}: ${errors.join('; ')}`
+    );
+  }
+  return value as Record<string, any>;
+}
@@ -0,0 +1,232 @@
+/**
+ * Embedded HTTP receiver for Tavus callback_url events.
+ *
+ * When enabled, the server listens for callback POSTs, fills in
+ * `callback_url` for creation tools that were called without one once
+ * TAVUS_WEBHOOK_PUBLIC_URL says where Tavus can reach it, and keeps
+ * the received payloads in memory keyed by the Tavus resource ID they refer
+ * to. Expose the listener through a tunnel or reverse proxy and point
+ * TAVUS_WEBHOOK_PUBLIC_URL at it so Tavus can reach it.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+// Fields Tavus uses to identify the resource a callback is about
+export const CALLBACK_ID_FIELDS = [
+  'video_id',
+  'replica_id',
+  'lipsync_id',
+  'speech_id',
+  'conversation_id',
+] as const;
+
+export type CallbackIdField = typeof CALLBACK_ID_FIELDS[number];
+
+// Events retained per resource ID before the oldest are dropped
+const MAX_EVENTS_PER_ID = 100;
+
+// Largest callback body accepted, in bytes
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface CallbackEvent {
+  id_field: CallbackIdField;
+  id: string;
+  event_type?: string;
+  status?: string;
+  received_at: string;
+  payload: unknown;
+}
+
+export interface CallbackReceiverOptions {
+  port: number;
+  host: string;
+  publicUrl?: string;
+  secret: string;
+}
+
+/**
+ * Reads receiver settings from the environment. Returns undefined when
+ * TAVUS_WEBHOOK_PORT is not set, which leaves the receiver disabled.
+ */
+export function callbackOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): CallbackReceiverOptions | undefined {
+  if (!env.TAVUS_WEBHOOK_PORT) return undefined;
+  const port = Number(env.TAVUS_WEBHOOK_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`TAVUS_WEBHOOK_PORT must be a port number, got "${env.TAVUS_WEBHOOK_PORT}"`);
+  }
+  return {
+    port,
+    host: env.TAVUS_WEBHOOK_HOST || '127.0.0.1',
+    publicUrl: env.TAVUS_WEBHOOK_PUBLIC_URL?.replace(/\/+$/, ''),
+    secret: env.TAVUS_WEBHOOK_SECRET || randomBytes(16).toString('hex'),
+  };
+}
+
+export class CallbackReceiver {
+  private httpServer?: HttpServer;
+  private events = new Map<string, CallbackEvent[]>();
+  private boundPort?: number;
+
+  constructor(
+    private options: CallbackReceiverOptions,
+    private onEvent?: (event: CallbackEvent) => void
+  ) {}
+
+  /**
+   * The URL handed to Tavus as callback_url.
+   */
+  get callbackUrl(): string {
+    const base = this.options.publicUrl
+      ?? `http://${this.options.host}:${this.boundPort ?? this.options.port}`;
+    return `${base}/callbacks/${this.options.secret}`;
+  }
+
+  async start(): Promise<void> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[Callback Error]', error);
+        if (!res.headersSent) this.reply(res, 500, { error: 'Internal error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.httpServer.address();
+    this.boundPort = typeof address === 'object' && address ? address.port : this.options.port;
+    console.error(`Tavus callback receiver listening on http://${this.options.host}:${this.boundPort}`);
+    if (!this.options.publicUrl) {
+      console.error(
+        '[Callback Warning] TAVUS_WEBHOOK_PUBLIC_URL is not set, so callback_url is not filled in; ' +
+        'Tavus cannot reach the listener on this address'
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.httpServer) return;
+    await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+    this.httpServer = undefined;
+  }
+
+  /**
+   * Sets callback_url on tool arguments that accept one but left it out.
+   * Without a public URL the listener's own address would be of no use to
+   * Tavus and would only hand it the secret, so nothing is set.
+   */
+  applyCallbackUrl(acceptsCallback: boolean, args: Record<string, any>): void {
+    if (acceptsCallback && this.options.publicUrl && args.callback_url === undefined) {
+      args.callback_url = this.callbackUrl;
+    }
+  }
+
+  record(payload: unknown): CallbackEvent[] {
+    if (typeof payload !== 'object' || payload === null) return [];
+    const body = payload as Record<string, any>;
+    const recorded: CallbackEvent[] = [];
+
+    for (const field of CALLBACK_ID_FIELDS) {
+      const id = body[field];
+      if (typeof id !== 'string' || id === '') continue;
+
+      const event: CallbackEvent = {
+        id_field: field,
+        id,
+        event_type: body.event_type ?? body.message_type,
+        status: body.status,
+        received_at: new Date().toISOString(),
+        payload,
+      };
+      const list = this.events.get(id) ?? [];
+      list.push(event);
+      if (list.length > MAX_EVENTS_PER_ID) list.shift();
+      this.events.set(id, list);
+      recorded.push(event);
+      this.onEvent?.(event);
+    }
+
+    return recorded;
+  }
+
+  getEvents(id: string): CallbackEvent[] {
+    return this.events.get(id) ?? [];
+  }
+
+  /**
+   * Summarizes the IDs that have received callbacks, most recent first.
+   */
+  summarize(idField?: CallbackIdField) {
+    return [...this.events.entries()]
+      .map(([id, events]) => {
+        const latest = events[events.length - 1];
+        return {
+          id,
+          id_field: latest.id_field,
+          event_count: events.length,
+          latest_event_type: latest.event_type,
+          latest_status: latest.status,
+          latest_received_at: latest.received_at,
+        };
+      })
+      .filter((entry) => !idField || entry.id_field === idField)
+      .sort((a, b) => b.latest_received_at.localeCompare(a.latest_received_at));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== `/callbacks/${this.options.secret}`) {
+      this.reply(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      this.reply(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const raw = await readBody(req);
+    if (raw === undefined) {
+      this.reply(res, 413, { error: 'Payload too large' });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      this.reply(res, 400, { error: 'Expected a JSON body' });
+      return;
+    }
+
+    const recorded = this.record(payload);
+    this.reply(res, 200, { received: recorded.length });
+  }
+
+  private reply(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        resolve(undefined);
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
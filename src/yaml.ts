@@ -0,0 +1,489 @@
+/**
+ * A small YAML reader and writer for persona files.
+ *
+ * Only the part of YAML that hand-edited configuration files use is
+ * supported: block mappings and sequences, plain and quoted scalars,
+ * literal (|) and folded (>) block scalars, flow collections such as
+ * [a, b] or {a: 1}, and comments. Anchors, aliases, tags, complex (?)
+ * keys, multiple documents and "a: b: c" on one line are rejected rather
+ * than misread.
+ */
+
+export class YamlError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line === undefined ? message : `Line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+const INT = /^[-+]?(0|[1-9]\d*)$/;
+const FLOAT = /^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/;
+
+// Plain words that other YAML readers (YAML 1.1) turn into booleans
+const YAML11_BOOLEANS = /^(y|n|yes|no|on|off)$/i;
+
+function resolvePlain(text: string): unknown {
+  if (text === '' || text === '~' || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (INT.test(text) || FLOAT.test(text)) return Number(text);
+  return text;
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+
+function isPlainSafe(text: string): boolean {
+  return text !== '' &&
+    text === text.trim() &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(text) &&
+    !/[\x00-\x1f\x7f]/.test(text) &&
+    !text.includes(': ') &&
+    !text.includes(' #') &&
+    !text.endsWith(':') &&
+    !YAML11_BOOLEANS.test(text) &&
+    resolvePlain(text) === text;
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_.\/-]*$/.test(key) && isPlainSafe(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Lines of a literal block scalar for `text`, or undefined when the text
+ * cannot be written that way without changing it.
+ */
+function literalBlock(text: string): { header: string; lines: string[] } | undefined {
+  // A block of nothing but line breaks reads back as an empty string
+  if (!text.includes('\n') || /^\n*$/.test(text)) return undefined;
+  if (/[\x00-\x08\x0b-\x1f\x7f]/.test(text) || /^[ \t]/.test(text)) return undefined;
+  const header = text.endsWith('\n') ? '|' : '|-';
+  const body = header === '|' ? text.slice(0, -1) : text;
+  const lines = body.split('\n');
+  if (body.endsWith('\n') || lines.some((line) => line !== '' && line.trim() === '')) {
+    return undefined;
+  }
+  return { header, lines };
+}
+
+interface EmittedNode {
+  inline?: string;
+  block?: string[];
+}
+
+function emitNode(value: unknown, indent: number): EmittedNode {
+  const pad = ' '.repeat(indent);
+  if (typeof value === 'string') {
+    if (isPlainSafe(value)) return { inline: value };
+    const literal = literalBlock(value);
+    if (literal) {
+      return { inline: literal.header, block: literal.lines.map((line) => (line === '' ? '' : pad + line)) };
+    }
+    return { inline: JSON.stringify(value) };
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return { inline: '[]' };
+    return {
+      block: value.flatMap((item) => {
+        const node = emitNode(item === undefined ? null : item, indent + 2);
+        if (node.inline !== undefined) {
+          return [`${pad}- ${node.inline}`, ...(node.block ?? [])];
+        }
+        const [first, ...rest] = node.block!;
+        return [`${pad}- ${first.slice(indent + 2)}`, ...rest];
+      }),
+    };
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, field]) => field !== undefined);
+    if (entries.length === 0) return { inline: '{}' };
+    return {
+      block: entries.flatMap(([key, field]) => {
+        const node = emitNode(field, indent + 2);
+        return node.inline !== undefined
+          ? [`${pad}${formatKey(key)}: ${node.inline}`, ...(node.block ?? [])]
+          : [`${pad}${formatKey(key)}:`, ...node.block!];
+      }),
+    };
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new YamlError(`Cannot write ${value} as YAML`);
+  }
+  return { inline: JSON.stringify(value ?? null) };
+}
+
+/**
+ * Writes a JSON-compatible value as block-style YAML.
+ */
+export function toYaml(value: unknown): string {
+  const node = emitNode(value, 0);
+  const lines = node.inline !== undefined
+    ? [node.block ? JSON.stringify(value) : node.inline]
+    : node.block!;
+  return `${lines.join('\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isInsignificant(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === '' || trimmed.startsWith('#');
+}
+
+function isDocumentMarker(line: string): boolean {
+  return /^(---|\.\.\.)(\s|$)/.test(line);
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function isMappingEntry(text: string): boolean {
+  if (/^["']/.test(text)) {
+    return /^("(\\.|[^"\\])*"|'([^']|'')*')\s*:(\s|$)/.test(text);
+  }
+  return !/^[[{]/.test(text) && /:(\s|$)/.test(text.replace(/\s#.*$/, ''));
+}
+
+/**
+ * Parses flow collections and quoted or plain scalars from a single line.
+ */
+class InlineParser {
+  private position = 0;
+
+  constructor(private readonly text: string, private readonly line: number) {}
+
+  parseValue(): unknown {
+    this.skipSpaces();
+    const value = this.value(false);
+    this.skipSpaces();
+    if (this.position < this.text.length && this.text[this.position] !== '#') {
+      throw this.error(`unexpected "${this.text.slice(this.position)}" after the value`);
+    }
+    return value;
+  }
+
+  parseKey(): { key: string; rest: string } {
+    let key: string;
+    const first = this.text[0];
+    this.rejectComplexKey();
+    if (first === '"' || first === "'") {
+      key = this.quoted();
+      this.skipSpaces();
+      if (this.text[this.position] !== ':') throw this.error('expected ":" after the key');
+      this.position++;
+    } else {
+      const colon = this.text.search(/:(\s|$)/);
+      if (colon === -1) throw this.error('expected "key: value"');
+      key = this.text.slice(0, colon).trim();
+      this.position = colon + 1;
+    }
+    return { key, rest: this.text.slice(this.position).trim() };
+  }
+
+  private value(inFlow: boolean): unknown {
+    const char = this.text[this.position];
+    if (char === '"' || char === "'") return this.quoted();
+    if (char === '[') return this.flowSequence();
+    if (char === '{') return this.flowMapping();
+    if (char === '&' || char === '*' || char === '!') {
+      throw this.error('anchors, aliases and tags are not supported');
+    }
+    this.rejectComplexKey();
+    if (char === '|' || char === '>') {
+      throw this.error('block scalars must be the value of a key or list item');
+    }
+    return resolvePlain(this.plain(inFlow));
+  }
+
+  private plain(inFlow: boolean): string {
+    const start = this.position;
+    while (this.position < this.text.length) {
+      const char = this.text[this.position];
+      const next = this.text[this.position + 1];
+      if (char === '#' && /\s/.test(this.text[this.position - 1] ?? ' ')) break;
+      if (inFlow && (char === ',' || char === ']' || char === '}')) break;
+      if (char === ':' && (next === undefined || /\s/.test(next) || (inFlow && /[,\]}]/.test(next)))) {
+        if (inFlow) break;
+        // Another key on the line of the first, as in "a: b: c"
+        throw this.error('a mapping cannot start on the same line as its key; quote the value or move it to its own line');
+      }
+      this.position++;
+    }
+    return this.text.slice(start, this.position).trim();
+  }
+
+  private rejectComplexKey(): void {
+    if (this.text[this.position] === '?' && /^(\s|$)/.test(this.text.slice(this.position + 1, this.position + 2))) {
+      throw this.error('complex keys ("? key") are not supported');
+    }
+  }
+
+  private quoted(): string {
+    const quote = this.text[this.position];
+    let end = this.position + 1;
+    if (quote === "'") {
+      while (end < this.text.length && !(this.text[end] === "'" && this.text[end + 1] !== "'")) {
+        end += this.text[end] === "'" ? 2 : 1;
+      }
+    } else {
+      while (end < this.text.length && this.text[end] !== '"') {
+        end += this.text[end] === '\\' ? 2 : 1;
+      }
+    }
+    if (end >= this.text.length) throw this.error('unterminated quoted string');
+
+    const body = this.text.slice(this.position + 1, end);
+    this.position = end + 1;
+    if (quote === "'") return body.replace(/''/g, "'");
+    try {
+      return JSON.parse(`"${body}"`);
+    } catch {
+      throw this.error(`unsupported escape in "${body}"`);
+    }
+  }
+
+  private flowSequence(): unknown[] {
+    const items: unknown[] = [];
+    this.position++;
+    for (;;) {
+      this.skipSpaces();
+      if (this.text[this.position] === ']') break;
+      items.push(this.value(true));
+      this.skipSpaces();
+      if (this.text[this.position] === ',') {
+        this.position++;
+      } else if (this.text[this.position] !== ']') {
+        throw this.error('expected "," or "]" in a flow sequence');
+      }
+    }
+    this.position++;
+    return items;
+  }
+
+  private flowMapping(): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    this.position++;
+    for (;;) {
+      this.skipSpaces();
+      if (this.text[this.position] === '}') break;
+      const key = this.value(true);
+      this.skipSpaces();
+      if (this.text[this.position] !== ':') throw this.error('expected ":" in a flow mapping');
+      this.position++;
+      this.skipSpaces();
+      mapping[String(key)] = /[,}]/.test(this.text[this.position] ?? '') ? null : this.value(true);
+      this.skipSpaces();
+      if (this.text[this.position] === ',') {
+        this.position++;
+      } else if (this.text[this.position] !== '}') {
+        throw this.error('expected "," or "}" in a flow mapping');
+      }
+    }
+    this.position++;
+    return mapping;
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.position] === ' ' || this.text[this.position] === '\t') this.position++;
+  }
+
+  private error(message: string): YamlError {
+    return new YamlError(message, this.line);
+  }
+}
+
+class BlockParser {
+  private index = 0;
+
+  constructor(private readonly lines: string[]) {}
+
+  parseDocument(): unknown {
+    this.skipInsignificant();
+    if (isDocumentMarker(this.lines[this.index] ?? '')) {
+      this.index++;
+      this.skipInsignificant();
+    }
+    if (this.index >= this.lines.length) return null;
+
+    const value = this.parseNode(indentOf(this.lines[this.index]));
+    this.skipInsignificant();
+    if (/^\.\.\.(\s|$)/.test(this.lines[this.index] ?? '')) {
+      this.index++;
+      this.skipInsignificant();
+    }
+    if (this.index < this.lines.length) {
+      throw this.error(
+        isDocumentMarker(this.lines[this.index]) ? 'only a single YAML document is supported' : 'unexpected content'
+      );
+    }
+    return value;
+  }
+
+  private parseNode(indent: number): unknown {
+    const text = this.lines[this.index].trim();
+    if (isSequenceItem(text)) return this.parseSequence(indent);
+    if (isMappingEntry(text)) return this.parseMapping(indent);
+    const value = new InlineParser(text, this.index + 1).parseValue();
+    this.index++;
+    return value;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (;;) {
+      this.skipInsignificant();
+      const line = this.lines[this.index];
+      if (line === undefined || indentOf(line) < indent || isDocumentMarker(line)) break;
+      if (indentOf(line) > indent) throw this.error('unexpected indentation');
+      const text = line.trim();
+      if (!isSequenceItem(text)) break;
+
+      const rest = text.slice(1).trim();
+      if (rest === '' || rest.startsWith('#')) {
+        this.index++;
+        items.push(this.parseChild(indent, false));
+      } else if (/^[|>]/.test(rest)) {
+        this.index++;
+        items.push(this.parseBlockScalar(rest, indent));
+      } else {
+        // Re-read the item's content as if the dash were a space, so that
+        // "- key: value" continues as a mapping on the following lines
+        const offset = indent + 1 + (text.length - 1 - text.slice(1).trimStart().length);
+        this.lines[this.index] = ' '.repeat(offset) + rest;
+        items.push(this.parseNode(offset));
+      }
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    for (;;) {
+      this.skipInsignificant();
+      const line = this.lines[this.index];
+      if (line === undefined || indentOf(line) < indent || isDocumentMarker(line)) break;
+      if (indentOf(line) > indent) throw this.error('unexpected indentation');
+      const text = line.trim();
+      if (isSequenceItem(text)) throw this.error('expected "key: value", found a list item');
+
+      const lineNumber = this.index + 1;
+      const { key, rest } = new InlineParser(text, lineNumber).parseKey();
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw this.error(`duplicate key "${key}"`);
+      }
+      this.index++;
+      if (rest === '' || rest.startsWith('#')) {
+        mapping[key] = this.parseChild(indent, true);
+      } else if (/^[|>]/.test(rest)) {
+        mapping[key] = this.parseBlockScalar(rest, indent);
+      } else {
+        mapping[key] = new InlineParser(rest, lineNumber).parseValue();
+      }
+    }
+    return mapping;
+  }
+
+  /**
+   * Parses the nested node after "key:" or "-". A list may sit at the same
+   * indentation as the key that owns it.
+   */
+  private parseChild(parentIndent: number, allowSameIndentList: boolean): unknown {
+    this.skipInsignificant();
+    const line = this.lines[this.index];
+    if (line === undefined) return null;
+    const indent = indentOf(line);
+    if (indent > parentIndent) return this.parseNode(indent);
+    if (allowSameIndentList && indent === parentIndent && isSequenceItem(line.trim())) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+
+  private parseBlockScalar(header: string, parentIndent: number): string {
+    const match = header.match(/^([|>])(?:([-+])([1-9])?|([1-9])([-+])?)?\s*(#.*)?$/);
+    if (!match) throw this.error(`invalid block scalar header "${header}"`);
+    const style = match[1];
+    const chomping = match[2] ?? match[5];
+    const explicit = match[3] ?? match[4];
+
+    let blockIndent = explicit ? parentIndent + Number(explicit) : undefined;
+    const lines: string[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.trim() === '') {
+        lines.push('');
+        this.index++;
+        continue;
+      }
+      blockIndent ??= indentOf(line);
+      if (indentOf(line) < blockIndent || blockIndent <= parentIndent) break;
+      lines.push(line.slice(blockIndent).trimEnd() === '' ? '' : line.slice(blockIndent));
+      this.index++;
+    }
+
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+    if (lines.length === 0) return '';
+
+    let text: string;
+    if (style === '|') {
+      text = lines.join('\n');
+    } else {
+      text = '';
+      let breaks = 0;
+      let previousIndented = false;
+      lines.forEach((line, i) => {
+        if (line === '') {
+          breaks++;
+          return;
+        }
+        const indented = /^\s/.test(line);
+        if (i > 0) {
+          text += breaks > 0
+            ? '\n'.repeat(breaks + (indented || previousIndented ? 1 : 0))
+            : indented || previousIndented ? '\n' : ' ';
+        } else {
+          text += '\n'.repeat(breaks);
+        }
+        text += line;
+        breaks = 0;
+        previousIndented = indented;
+      });
+    }
+
+    if (chomping === '-') return text;
+    if (chomping === '+') return text + '\n'.repeat(trailing + 1);
+    return `${text}\n`;
+  }
+
+  private skipInsignificant(): void {
+    while (this.index < this.lines.length && isInsignificant(this.lines[this.index])) {
+      this.index++;
+    }
+    const line = this.lines[this.index];
+    if (line !== undefined && /^ *\t/.test(line)) {
+      throw this.error('tabs are not allowed for indentation');
+    }
+  }
+
+  private error(message: string): YamlError {
+    return new YamlError(message, this.index + 1);
+  }
+}
+
+/**
+ * Reads a YAML document into plain JSON-compatible values.
+ */
+export function parseYaml(text: string): unknown {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  return new BlockParser(lines).parseDocument();
+}
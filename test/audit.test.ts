@@ -0,0 +1,105 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AuditEntry, AuditLog } from '../src/audit.js';
+import { Harness, TEST_API_KEY, startHarness } from './harness.js';
+
+function readEntries(file: string): AuditEntry[] {
+  return readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+}
+
+describe('audit log', () => {
+  let directory: string;
+  let file: string;
+  let h: Harness;
+  let replicaId: string;
+
+  before(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'tavus-audit-'));
+    file = join(directory, 'audit.jsonl');
+    h = await startHarness({ TAVUS_AUDIT_LOG: file });
+    replicaId = h.mock.seed('replicas', { status: 'completed' }).replica_id;
+  });
+
+  after(async () => {
+    await h.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('records the tool, requests, resulting IDs and client of each call', async () => {
+    const video = JSON.parse((await h.call('generate_video', { replica_id: replicaId, script: 'Hello' })).text);
+    const entry = readEntries(file).at(-1)!;
+
+    assert.equal(entry.tool, 'generate_video');
+    assert.equal(entry.profile, 'default');
+    assert.equal(entry.outcome, 'ok');
+    assert.deepEqual(entry.arguments, { replica_id: replicaId, script: 'Hello' });
+    assert.deepEqual(entry.resource_ids, { video_id: [video.video_id] });
+    assert.equal(entry.client.name, 'tavus-mcp-tests');
+    assert.equal(entry.requests.length, 1);
+    assert.equal(entry.requests[0].method, 'POST');
+    assert.equal(entry.requests[0].path, '/videos');
+    assert.equal(entry.requests[0].status, 200);
+    assert.equal(typeof entry.requests[0].duration_ms, 'number');
+    assert.equal(typeof entry.duration_ms, 'number');
+  });
+
+  test('never writes the API key or an LLM key inside persona layers', async () => {
+    await h.call('create_persona', {
+      persona_name: 'Support',
+      system_prompt: 'Help',
+      layers: { llm: { model: 'custom', base_url: 'https://llm.example.com', api_key: 'sk-live-123' } },
+    });
+    const entry = readEntries(file).at(-1)!;
+    const text = readFileSync(file, 'utf8');
+
+    assert.equal(entry.requests[0].headers['x-api-key'], '[redacted]');
+    assert.equal((entry.arguments as any).layers.llm.api_key, '[redacted]');
+    assert.equal((entry.arguments as any).layers.llm.model, 'custom');
+    assert.ok(!text.includes(TEST_API_KEY));
+    assert.ok(!text.includes('sk-live-123'));
+  });
+
+  test('leaves the confirmation token out of the arguments', async () => {
+    const { persona_id } = h.mock.seed('personas', { persona_name: 'Old' });
+    await h.call('delete_persona', { persona_id, confirm_token: 'abcd1234' });
+    assert.deepEqual(readEntries(file).at(-1)!.arguments, { persona_id });
+  });
+
+  test('records failed calls with their HTTP status', async () => {
+    await assert.rejects(h.call('get_video', { video_id: 'missing' }));
+    const entry = readEntries(file).at(-1)!;
+    assert.equal(entry.outcome, 'error');
+    assert.match(entry.error!, /HTTP 404/);
+    assert.deepEqual(entry.requests.map(({ method, path, status }) => ({ method, path, status })), [
+      { method: 'GET', path: '/videos/missing', status: 404 },
+    ]);
+  });
+
+  test('rotates the file once it passes the size limit', async () => {
+    const rotated = join(directory, 'rotated.jsonl');
+    const entry = (index: number): AuditEntry => ({
+      timestamp: new Date(0).toISOString(),
+      tool: `tool_${index}`,
+      client: {},
+      arguments: {},
+      requests: [],
+      resource_ids: {},
+      duration_ms: 0,
+      outcome: 'ok',
+    });
+    // Room for two entries per file
+    const lineBytes = JSON.stringify(entry(0)).length + 1;
+    const log = new AuditLog({ file: rotated, maxBytes: lineBytes * 2.5, maxFiles: 2 });
+    for (let index = 0; index < 6; index++) {
+      await log.write(entry(index));
+    }
+
+    assert.deepEqual(readEntries(rotated).map((entry) => entry.tool), ['tool_4', 'tool_5']);
+    assert.deepEqual(readEntries(`${rotated}.1`).map((entry) => entry.tool), ['tool_2', 'tool_3']);
+    assert.deepEqual(readEntries(`${rotated}.2`).map((entry) => entry.tool), ['tool_0', 'tool_1']);
+    assert.ok(!existsSync(`${rotated}.3`));
+  });
+});
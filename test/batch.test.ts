@@ -0,0 +1,167 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mapWithConcurrency, parseCsv, planBatch, renderTemplate } from '../src/batch.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('batch helpers', () => {
+  test('parseCsv handles quoting, CRLF and blank lines', () => {
+    const rows = parseCsv('first_name,note\r\n"Lee, Jr.","said ""hi""\nthen left"\r\n\r\nAna,\n');
+    assert.deepEqual(rows, [
+      { first_name: 'Lee, Jr.', note: 'said "hi"\nthen left' },
+      { first_name: 'Ana', note: '' },
+    ]);
+  });
+
+  test('parseCsv rejects rows with the wrong number of fields', () => {
+    assert.throws(() => parseCsv('a,b\n1,2,3\n'), /CSV row 1 has 3 fields but the header has 2/);
+    assert.throws(() => parseCsv('a\n"open\n'), /unterminated quoted field/);
+  });
+
+  test('renderTemplate fills placeholders and reports missing ones', () => {
+    assert.deepEqual(
+      renderTemplate('Hi {{ name }}, {{company}} and {{company}} {{title}}', { name: 'Ana', company: 'Acme', title: '' }),
+      { text: 'Hi Ana, Acme and Acme {{title}}', missing: ['title'] }
+    );
+  });
+
+  test('planBatch applies row overrides and flags bad rows', () => {
+    const rows = planBatch(
+      {
+        replica_id: 'r1',
+        script_template: 'Hello {{name}}',
+        video_name: 'Outreach {{name}}',
+        background_url: 'https://example.com',
+        max_script_length: 12,
+      },
+      [
+        { name: 'Ana', background_url: 'https://acme.com' },
+        { name: '' },
+        { name: 'Bartholomew' },
+      ]
+    );
+    assert.deepEqual(rows[0].request, {
+      replica_id: 'r1',
+      script: 'Hello Ana',
+      video_name: 'Outreach Ana',
+      background_url: 'https://acme.com',
+    });
+    assert.deepEqual(rows[1].errors, [
+      'missing value for {{name}}',
+      'missing value for {{name}} in video_name',
+    ]);
+    assert.deepEqual(rows[2].errors, ['script is 17 characters, over the limit of 12']);
+    assert.equal(rows[2].request, undefined);
+  });
+
+  test('mapWithConcurrency bounds the calls in flight and keeps order', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, async (value) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, value));
+      active--;
+      return value * 10;
+    });
+    assert.deepEqual(results, [50, 10, 30, 20, 40]);
+    assert.equal(peak, 2);
+  });
+});
+
+describe('generate_videos_batch', () => {
+  let h: Harness;
+  let replicaId: string;
+
+  before(async () => {
+    h = await startHarness({ TAVUS_MAX_RETRIES: '0' });
+  });
+
+  after(() => h.close());
+
+  beforeEach(() => {
+    h.mock.reset();
+    replicaId = h.mock.seed('replicas', { status: 'completed' }).replica_id;
+  });
+
+  test('submits one video per CSV row and returns a manifest', async () => {
+    const result = await h.call('generate_videos_batch', {
+      replica_id: replicaId,
+      script_template: 'Hi {{first_name}} from {{company}}',
+      recipients_csv: 'first_name,company,video_name\nAna,Acme,Ana video\nLee,Globex,\n',
+      video_name: 'Outreach {{first_name}}',
+      concurrency: 2,
+    });
+
+    const bodies = h.requests().map((request) => {
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, '/videos');
+      return request.body;
+    });
+    assert.deepEqual(bodies, [
+      { replica_id: replicaId, script: 'Hi Ana from Acme', video_name: 'Ana video' },
+      { replica_id: replicaId, script: 'Hi Lee from Globex', video_name: 'Outreach Lee' },
+    ]);
+
+    const [summary, body] = result.text.split('\n\n');
+    assert.equal(summary, 'Submitted 2 of 2 videos');
+    const manifest = JSON.parse(body);
+    assert.equal(manifest.failed, 0);
+    assert.deepEqual(manifest.videos.map((video: any) => [video.row, video.status]), [[1, 'queued'], [2, 'queued']]);
+    for (const video of manifest.videos) {
+      assert.equal(h.mock.get('videos', video.video_id)?.replica_id, replicaId);
+    }
+  });
+
+  test('reports bad rows and submits nothing', async () => {
+    const result = await h.call('generate_videos_batch', {
+      replica_id: replicaId,
+      script_template: 'Hi {{first_name}}',
+      recipients: [{ first_name: 'Ana' }, { last_name: 'Lee' }],
+    });
+    assert.deepEqual(h.requests(), []);
+    assert.equal(result.isError, true);
+    const [summary, body] = result.text.split('\n\n');
+    assert.equal(summary, 'No videos were submitted: 1 of 2 rows are invalid');
+    assert.deepEqual(JSON.parse(body), [
+      { row: 2, recipient: { last_name: 'Lee' }, errors: ['missing value for {{first_name}}'] },
+    ]);
+  });
+
+  test('dry_run renders requests without submitting', async () => {
+    const result = await h.call('generate_videos_batch', {
+      replica_id: replicaId,
+      script_template: 'Hi {{name}}',
+      recipients: [{ name: 'Ana', callback_url: 'https://hooks.example.com/ana' }],
+      dry_run: true,
+    });
+    assert.deepEqual(h.requests(), []);
+    assert.match(result.text, /^Dry run: all 1 rows are valid/);
+    assert.deepEqual(JSON.parse(result.text.split('\n\n')[1]), [{
+      row: 1,
+      request: { replica_id: replicaId, script: 'Hi Ana', callback_url: 'https://hooks.example.com/ana' },
+    }]);
+  });
+
+  test('records rows that Tavus rejects without stopping the rest', async () => {
+    h.mock.failNext({ method: 'POST', path: '/videos', status: 400, body: { message: 'Script contains unsupported characters' } });
+    const result = await h.call('generate_videos_batch', {
+      replica_id: replicaId,
+      script_template: 'Hi {{name}}',
+      recipients: [{ name: 'Ana' }, { name: 'Lee' }],
+      concurrency: 1,
+    });
+    const manifest = JSON.parse(result.text.split('\n\n')[1]);
+    assert.equal(result.isError, false);
+    assert.equal(manifest.submitted, 1);
+    assert.equal(manifest.videos[0].status, 'failed');
+    assert.match(manifest.videos[0].error, /Tavus rejected the request \(HTTP 400\): Script contains unsupported characters/);
+    assert.equal(manifest.videos[1].status, 'queued');
+  });
+
+  test('rejects an empty recipient list', async () => {
+    await assert.rejects(
+      h.call('generate_videos_batch', { replica_id: replicaId, script_template: 'Hi', recipients_csv: 'name\n' }),
+      /Invalid recipients for generate_videos_batch: The recipient list is empty/
+    );
+  });
+});
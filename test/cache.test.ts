@@ -0,0 +1,104 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cacheOptionsFromEnv } from '../src/cache.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('response cache', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness({ TAVUS_CACHE: '' });
+  });
+
+  after(() => h.close());
+
+  beforeEach(() => {
+    h.requests();
+  });
+
+  const gets = () => h.requests().filter(({ method }) => method === 'GET').map(({ path }) => path);
+
+  test('reads TTL overrides and rejects unknown resources', () => {
+    assert.equal(cacheOptionsFromEnv({ TAVUS_CACHE_TTL: 'personas=600, videos=0' })?.ttlSeconds.personas, 600);
+    assert.equal(cacheOptionsFromEnv({ TAVUS_CACHE: 'false' }), undefined);
+    assert.throws(() => cacheOptionsFromEnv({ TAVUS_CACHE_TTL: 'clips=5' }), /unknown resource "clips"/);
+  });
+
+  test('serves repeated reads from the cache unless fresh is set', async () => {
+    const { replica_id } = h.mock.seed('replicas', { replica_name: 'Anna', status: 'completed' });
+    const first = await h.call('get_replica', { replica_id });
+    const second = await h.call('get_replica', { replica_id });
+    assert.equal(second.text, first.text);
+    await h.call('list_replicas');
+    await h.call('list_replicas');
+    assert.deepEqual(gets(), [`/replicas/${replica_id}`, '/replicas']);
+
+    await h.call('get_replica', { replica_id, fresh: true });
+    assert.deepEqual(gets(), [`/replicas/${replica_id}`]);
+  });
+
+  test('never caches an asset that is still processing', async () => {
+    const { video_id } = h.mock.seed('videos', { video_name: 'Draft', status: 'queued' });
+    await h.call('get_video', { video_id });
+    await h.call('get_video', { video_id });
+    assert.equal(gets().length, 2);
+  });
+
+  test('never caches a listing with an asset that is still processing', async () => {
+    h.mock.seed('videos', { video_name: 'Rendering', status: 'generating' });
+    await h.call('list_videos');
+    await h.call('list_videos');
+    assert.deepEqual(gets(), ['/videos', '/videos']);
+  });
+
+  test('resource subscriptions always fetch from Tavus', async () => {
+    const { persona_id } = h.mock.seed('personas', { persona_name: 'Watched' });
+    await h.call('get_persona', { persona_id });
+    await h.client.subscribeResource({ uri: `tavus://personas/${persona_id}` });
+    await h.client.unsubscribeResource({ uri: `tavus://personas/${persona_id}` });
+    assert.deepEqual(gets(), [`/personas/${persona_id}`, `/personas/${persona_id}`]);
+  });
+
+  test('rename_video invalidates that video and the video list only', async () => {
+    const renamed = h.mock.seed('videos', { video_name: 'Old', status: 'ready' });
+    const other = h.mock.seed('videos', { video_name: 'Other', status: 'ready' });
+    await h.call('get_video', { video_id: renamed.video_id });
+    await h.call('get_video', { video_id: other.video_id });
+    await h.call('list_videos');
+    h.requests();
+
+    await h.call('rename_video', { video_id: renamed.video_id, video_name: 'New' });
+    const video = JSON.parse((await h.call('get_video', { video_id: renamed.video_id })).text);
+    await h.call('get_video', { video_id: other.video_id });
+    await h.call('list_videos');
+    assert.equal(video.video_name, 'New');
+    assert.deepEqual(gets(), [`/videos/${renamed.video_id}`, '/videos']);
+  });
+
+  test('patch_persona reads the current persona and invalidates it', async () => {
+    const { persona_id } = h.mock.seed('personas', { persona_name: 'Support', context: 'old' });
+    await h.call('get_persona', { persona_id });
+    h.requests();
+
+    await h.call('patch_persona', { persona_id, patch: [{ op: 'replace', path: '/context', value: 'new' }] });
+    assert.deepEqual(h.requests().map(({ method }) => method), ['GET', 'PATCH']);
+
+    const persona = JSON.parse((await h.call('get_persona', { persona_id })).text);
+    assert.equal(persona.context, 'new');
+    assert.deepEqual(gets(), [`/personas/${persona_id}`]);
+  });
+
+  test('get_cache_stats reports hits and misses per resource', async () => {
+    const result = await h.call('get_cache_stats', { clear: true });
+    assert.match(result.text, /^\d+ hit\(s\), \d+ miss\(es\), \d+ cached response\(s\); cache cleared\n\n/);
+    const stats = JSON.parse(result.text.split('\n\n')[1]);
+    assert.equal(stats.resources.replicas.hits, 2);
+    assert.equal(stats.resources.replicas.misses, 2);
+    assert.equal(stats.resources.personas.ttl_seconds, 300);
+    assert.ok(stats.invalidations >= 2);
+
+    const cleared = JSON.parse((await h.call('get_cache_stats')).text.split('\n\n')[1]);
+    assert.equal(cleared.hits, 0);
+    assert.equal(cleared.entries, 0);
+  });
+});
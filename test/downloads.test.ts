@@ -0,0 +1,182 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { appendFileSync, existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Harness, startHarness } from './harness.js';
+
+const MEDIA_SIZE = 256 * 1024;
+
+function expectedSha256(mediaPath: string, version = 0): string {
+  const fill = version > 0 ? `mock media ${mediaPath} v${version}\n` : `mock media ${mediaPath}\n`;
+  return createHash('sha256').update(Buffer.alloc(MEDIA_SIZE, fill)).digest('hex');
+}
+
+describe('downloads', () => {
+  let h: Harness;
+  let root: string;
+  let outside: string;
+
+  before(async () => {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'tavus-downloads-')));
+    outside = realpathSync(mkdtempSync(join(tmpdir(), 'tavus-outside-')));
+    h = await startHarness({ TAVUS_DOWNLOAD_DIR: root, TAVUS_DOWNLOAD_TIMEOUT_SECONDS: '0.5' });
+  });
+
+  after(async () => {
+    await h.close();
+    rmSync(root, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  const readyVideo = () => {
+    const video = h.mock.seed('videos', { status: 'ready' });
+    video.download_url = h.mock.mediaUrl(`videos/${video.video_id}.mp4`);
+    return video.video_id as string;
+  };
+
+  test('download_video saves the file with its checksum', async () => {
+    const video_id = readyVideo();
+    h.requests();
+    const result = await h.call('download_video', { video_id });
+
+    const path = join(root, `video-${video_id}.mp4`);
+    const sha256 = expectedSha256(`/media/videos/${video_id}.mp4`);
+    const [summary, body] = result.text.split('\n\n');
+    assert.equal(summary, `Downloaded video ${video_id} to ${path} (${MEDIA_SIZE} bytes)`);
+    assert.deepEqual(JSON.parse(body), { path, bytes: MEDIA_SIZE, sha256, checksum_file: `${path}.sha256` });
+    assert.equal(createHash('sha256').update(readFileSync(path)).digest('hex'), sha256);
+    assert.equal(readFileSync(`${path}.sha256`, 'utf8'), `${sha256}  video-${video_id}.mp4\n`);
+
+    // The API key is only ever sent to Tavus, not to the file host
+    const [, media] = h.requests();
+    assert.equal(media.path, `/media/videos/${video_id}.mp4`);
+    assert.equal(media.headers['x-api-key'], undefined);
+  });
+
+  test('refuses to overwrite unless asked', async () => {
+    const video_id = readyVideo();
+    writeFileSync(join(root, 'clips-existing.mp4'), 'keep me');
+    await assert.rejects(
+      h.call('download_video', { video_id, path: 'clips-existing.mp4' }),
+      /clips-existing\.mp4 already exists; pass overwrite: true to replace it/
+    );
+    assert.equal(readFileSync(join(root, 'clips-existing.mp4'), 'utf8'), 'keep me');
+
+    await h.call('download_video', { video_id, path: 'clips-existing.mp4', overwrite: true });
+    assert.equal(readFileSync(join(root, 'clips-existing.mp4')).length, MEDIA_SIZE);
+  });
+
+  test('refuses assets that are not ready', async () => {
+    const { video_id } = h.mock.seed('videos', { status: 'generating' });
+    await assert.rejects(
+      h.call('download_video', { video_id }),
+      new RegExp(`video ${video_id} is not ready to download \\(status: generating\\); call wait_for_video first`)
+    );
+  });
+
+  test('keeps paths inside the download directory', async () => {
+    const video_id = readyVideo();
+    await assert.rejects(
+      h.call('download_video', { video_id, path: '../escape.mp4' }),
+      /\.\.\/escape\.mp4 is outside the download directory/
+    );
+    await assert.rejects(
+      h.call('download_video', { video_id, path: join(outside, 'absolute.mp4') }),
+      /is outside the download directory/
+    );
+
+    symlinkSync(outside, join(root, 'link'));
+    await assert.rejects(
+      h.call('download_video', { video_id, path: 'link/through-symlink.mp4' }),
+      /link\/through-symlink\.mp4 resolves outside the download directory/
+    );
+    assert.equal(existsSync(join(outside, 'through-symlink.mp4')), false);
+
+    writeFileSync(join(outside, 'target.sha256'), 'keep me');
+    symlinkSync(join(outside, 'target.sha256'), join(root, 'planted.mp4.sha256'));
+    await assert.rejects(
+      h.call('download_video', { video_id, path: 'planted.mp4' }),
+      /planted\.mp4\.sha256 is a symlink; refusing to write through it/
+    );
+    assert.equal(readFileSync(join(outside, 'target.sha256'), 'utf8'), 'keep me');
+
+    mkdirSync(join(root, 'nested'));
+    const result = await h.call('download_video', { video_id, path: 'nested/deeper/intro.mp4' });
+    assert.match(result.text, /nested\/deeper\/intro\.mp4/);
+  });
+
+  // A speech job whose audio download breaks off after `after` bytes
+  const interruptedSpeech = async (after = 1000) => {
+    const { speech_id } = h.mock.seed('speech', { status: 'ready' });
+    h.mock.get('speech', speech_id)!.audio_url = h.mock.mediaUrl(`speech/${speech_id}.mp3`);
+    h.mock.failNext({ path: `/media/speech/${speech_id}.mp3`, truncate_after: after });
+    await assert.rejects(
+      h.call('download_speech', { speech_id }),
+      new RegExp(`Download interrupted after \\d+ of ${MEDIA_SIZE} bytes.*call again to resume`)
+    );
+    assert.equal(existsSync(join(root, `speech-${speech_id}.mp3`)), false);
+    h.requests();
+    return speech_id as string;
+  };
+
+  const download = async (tool: string, args: Record<string, unknown>) =>
+    JSON.parse((await h.call(tool, args)).text.split('\n\n')[1]);
+
+  test('resumes an interrupted download', async () => {
+    const speech_id = await interruptedSpeech();
+
+    const result = await download('download_speech', { speech_id });
+    const [, media] = h.requests();
+    assert.equal(media.headers.range, `bytes=${result.resumed_from_byte}-`);
+    assert.equal(media.headers['if-range'], `"/media/speech/${speech_id}.mp3-0"`);
+    assert.ok(result.resumed_from_byte > 0);
+    assert.equal(result.bytes, MEDIA_SIZE);
+    assert.equal(result.sha256, expectedSha256(`/media/speech/${speech_id}.mp3`));
+    assert.deepEqual(readdirSync(root).filter((name) => name.startsWith(`.speech-${speech_id}`)), []);
+  });
+
+  test('starts over when the file changed since the interrupted attempt', async () => {
+    const speech_id = await interruptedSpeech();
+    h.mock.replaceMedia(`speech/${speech_id}.mp3`);
+
+    const result = await download('download_speech', { speech_id });
+    assert.equal(result.resumed_from_byte, undefined);
+    assert.equal(result.bytes, MEDIA_SIZE);
+    assert.equal(result.sha256, expectedSha256(`/media/speech/${speech_id}.mp3`, 1));
+  });
+
+  test('finishes a partial file that already holds every byte', async () => {
+    const speech_id = await interruptedSpeech();
+    const partial = readdirSync(root).find((name) => name.startsWith(`.speech-${speech_id}.mp3.`) && name.endsWith('.part'))!;
+    const content = Buffer.alloc(MEDIA_SIZE, `mock media /media/speech/${speech_id}.mp3\n`);
+    appendFileSync(join(root, partial), content.subarray(readFileSync(join(root, partial)).length));
+
+    const result = await download('download_speech', { speech_id });
+    const [, media] = h.requests();
+    assert.equal(media.headers.range, `bytes=${MEDIA_SIZE}-`);
+    assert.equal(result.resumed_from_byte, MEDIA_SIZE);
+    assert.equal(result.sha256, expectedSha256(`/media/speech/${speech_id}.mp3`));
+  });
+
+  test('breaks off a transfer that stalls and resumes it', async () => {
+    const video_id = readyVideo();
+    h.mock.failNext({ path: `/media/videos/${video_id}.mp4`, stall_after: 1000 });
+    await assert.rejects(
+      h.call('download_video', { video_id }),
+      /Download interrupted after 1000 of \d+ bytes \(no data received for 0\.5s\)/
+    );
+
+    const result = await download('download_video', { video_id });
+    assert.equal(result.resumed_from_byte, 1000);
+    assert.equal(result.sha256, expectedSha256(`/media/videos/${video_id}.mp4`));
+  });
+
+  test('download_lipsync saves the finished lipsync video', async () => {
+    const { lipsync_id } = h.mock.seed('lipsync', { status: 'started', _steps: 0 });
+    await h.call('get_lipsync', { lipsync_id });
+    const result = await h.call('download_lipsync', { lipsync_id, path: 'lipsync.mp4' });
+    assert.match(result.text, new RegExp(`^Downloaded lipsync ${lipsync_id} to ${join(root, 'lipsync.mp4')}`));
+  });
+});
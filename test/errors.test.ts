@@ -0,0 +1,223 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Harness, startHarness } from './harness.js';
+
+// Asserts the tool call fails with the given MCP error code and message
+async function assertFails(call: Promise<unknown>, code: ErrorCode, message: RegExp) {
+  await assert.rejects(call, (error: unknown) => {
+    assert.ok(error instanceof McpError, `expected McpError, got ${error}`);
+    assert.equal(error.code, code);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe('error mapping', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness({ TAVUS_MAX_RETRIES: '2' });
+  });
+
+  after(() => h.close());
+
+  beforeEach(() => h.mock.reset());
+
+  test('unknown tool', async () => {
+    await assertFails(h.call('make_coffee'), ErrorCode.MethodNotFound, /Unknown tool: make_coffee/);
+  });
+
+  test('invalid arguments are rejected before calling Tavus', async () => {
+    await assertFails(
+      h.call('generate_video', { replica_id: 'r1' }),
+      ErrorCode.InvalidParams,
+      /Invalid arguments for generate_video: arguments: one of script, audio_url is required/
+    );
+    assert.deepEqual(h.requests(), []);
+  });
+
+  test('400 with field errors', async () => {
+    await assertFails(
+      h.call('create_lipsync', { video_url: 'https://example.com/v.mp4', audio_url: '' }),
+      ErrorCode.InvalidParams,
+      /audio_url: must not be empty/
+    );
+
+    h.mock.failNext({ status: 400, body: { message: 'Invalid request', errors: { script: ['Too long.'] } } });
+    await assertFails(
+      h.call('generate_speech', { replica_id: 'r1', script: 'x' }),
+      ErrorCode.InvalidParams,
+      /: Tavus rejected the request \(HTTP 400\): Invalid request \[script: Too long\.\] \[profile default generate_speech POST \/speech\]$/
+    );
+  });
+
+  test('422 with a validation detail list', async () => {
+    h.mock.failNext({ status: 422, body: { detail: [{ loc: ['body', 'persona_name'], msg: 'field required' }] } });
+    await assertFails(
+      h.call('create_persona', {}),
+      ErrorCode.InvalidParams,
+      /Tavus rejected the request \(HTTP 422\) \[body\.persona_name: field required\]/
+    );
+  });
+
+  test('401 points at TAVUS_API_KEY', async () => {
+    h.mock.failNext({ status: 401, body: { message: 'Invalid access token' } });
+    await assertFails(
+      h.call('list_replicas'),
+      ErrorCode.InvalidRequest,
+      /Tavus denied access \(HTTP 401\): Invalid access token\. Check that TAVUS_API_KEY is set/
+    );
+  });
+
+  test('402 reports missing credits', async () => {
+    h.mock.failNext({ status: 402, body: { error: 'Out of credits' } });
+    await assertFails(
+      h.call('list_videos'),
+      ErrorCode.InvalidRequest,
+      /insufficient credits \(HTTP 402\): Out of credits/
+    );
+  });
+
+  test('404 names the missing resource', async () => {
+    await assertFails(
+      h.call('get_video', { video_id: 'v404' }),
+      ErrorCode.InvalidParams,
+      /Tavus could not find video_id v404 \(HTTP 404\).*\[profile default get_video GET \/videos\/v404\]/
+    );
+  });
+
+  test('429 is retried and then reported with a retry hint', async () => {
+    h.mock.failNext({ status: 429, retry_after: 0, count: 3 });
+    await assertFails(
+      h.call('list_personas'),
+      ErrorCode.InternalError,
+      /Tavus rate limit exceeded \(HTTP 429\) \(after 2 retries\); retry in 0s/
+    );
+    assert.equal(h.requests().length, 3);
+  });
+
+  test('a retried request that succeeds lists its retries', async () => {
+    h.mock.failNext({ status: 503 });
+    const result = await h.call('list_speeches');
+    assert.equal(result.isError, false);
+    assert.match(result.texts[result.texts.length - 1], /Retried 1 request\(s\):\n- GET \/speech: retry 1 after HTTP 503/);
+  });
+
+  test('5xx is retried for reads but not for creation calls', async () => {
+    h.mock.failNext({ status: 500, count: 3 });
+    await assertFails(
+      h.call('list_lipsyncs'),
+      ErrorCode.InternalError,
+      /Tavus service error \(HTTP 500\): Injected failure \(HTTP 500\) \(after 2 retries\)/
+    );
+    assert.equal(h.requests().length, 3);
+
+    h.mock.failNext({ status: 500 });
+    await assertFails(
+      h.call('create_conversation', { replica_id: 'r1' }),
+      ErrorCode.InternalError,
+      /Tavus service error \(HTTP 500\)/
+    );
+    assert.equal(h.requests().length, 1);
+  });
+
+  test('other HTTP statuses', async () => {
+    h.mock.failNext({ status: 409, body: { message: 'Conflict' } });
+    await assertFails(
+      h.call('list_conversations'),
+      ErrorCode.InternalError,
+      /Tavus API error \(HTTP 409\): Conflict/
+    );
+  });
+
+  test('errors raised by the tool itself pass through unchanged', async () => {
+    await assertFails(
+      h.call('get_replica', { replica_id: 'r1', profile: 'nope' }),
+      ErrorCode.InvalidParams,
+      /: Unknown profile "nope"\. Configured profiles: default$/
+    );
+  });
+});
+
+describe('error mapping for other setups', () => {
+  test('network failures', async () => {
+    const h = await startHarness({ TAVUS_MAX_RETRIES: '0' });
+    await h.mock.close();
+    try {
+      await assertFails(
+        h.call('get_replica', { replica_id: 'r1' }),
+        ErrorCode.InternalError,
+        /Could not reach Tavus \(ECONNREFUSED\); check network connectivity/
+      );
+    } finally {
+      await h.close();
+    }
+  });
+
+  test('403 names the API key of a non-default profile', async () => {
+    const h = await startHarness({
+      TAVUS_API_KEY: undefined,
+      TAVUS_PROFILE_STAGING_API_KEY: 'staging-key',
+    });
+    try {
+      h.mock.failNext({ status: 403 });
+      await assertFails(
+        h.call('list_replicas', { profile: 'staging' }),
+        ErrorCode.InvalidRequest,
+        /Check that the API key for profile "staging" is set .* \[profile staging list_replicas GET \/replicas\]/
+      );
+    } finally {
+      await h.close();
+    }
+  });
+
+  test('TAVUS_ERRORS_AS_RESULTS returns errors as tool results', async () => {
+    const h = await startHarness({ TAVUS_ERRORS_AS_RESULTS: 'true', TAVUS_MAX_RETRIES: '0' });
+    try {
+      const result = await h.call('get_speech', { speech_id: 's404' });
+      assert.equal(result.isError, true);
+      assert.match(result.text, /^MCP error -32602: Tavus could not find speech_id s404 \(HTTP 404\)/);
+      const diagnostics = JSON.parse(result.text.slice(result.text.indexOf('\n\n') + 2));
+      assert.deepEqual(
+        { status: diagnostics.status, method: diagnostics.method, path: diagnostics.path, resource_ids: diagnostics.resource_ids },
+        { status: 404, method: 'GET', path: '/speech/s404', resource_ids: { speech_id: 's404' } }
+      );
+
+      // Unknown tools are still protocol errors
+      await assertFails(h.call('make_coffee'), ErrorCode.MethodNotFound, /Unknown tool/);
+    } finally {
+      await h.close();
+    }
+  });
+});
+
+describe('request budget', () => {
+  test('holds requests back once the per-minute budget is spent', async (context) => {
+    const h = await startHarness({ TAVUS_REQUESTS_PER_MINUTE: '2' });
+    try {
+      const { replica_id } = h.mock.seed('replicas', { status: 'completed' });
+      await h.call('get_replica', { replica_id });
+      await h.call('get_replica', { replica_id });
+      h.requests();
+
+      context.mock.timers.enable({ apis: ['setTimeout', 'Date'], now: Date.now() });
+      let done = false;
+      // A longer MCP request timeout than the minute skipped below
+      const third = h.client.callTool({ name: 'get_replica', arguments: { replica_id } }, undefined, { timeout: 120_000 })
+        .finally(() => { done = true; });
+      for (let turn = 0; turn < 50; turn++) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      assert.equal(done, false);
+      assert.equal(h.requests().length, 0);
+
+      context.mock.timers.tick(60_000);
+      await third;
+      assert.equal(h.request().path, `/replicas/${replica_id}`);
+    } finally {
+      context.mock.timers.reset();
+      await h.close();
+    }
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Test harness: a TavusServer wired to the mock Tavus API and an MCP client
+ * over an in-memory transport pair.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { TavusServer } from '../src/index.js';
+import { MockRequest, MockTavusApi, MockTavusOptions } from '../src/mock-tavus.js';
+
+export const TEST_API_KEY = 'test-key';
+
+export interface ToolResult {
+  text: string;
+  texts: string[];
+  isError: boolean;
+}
+
+export interface Harness {
+  mock: MockTavusApi;
+  client: Client;
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  /** The only request the mock received since the last call to requests() */
+  request(): MockRequest;
+  /** Every request the mock received since the last call, then clears the log */
+  requests(): MockRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * A TavusServer pointed at the mock, with fast retries and every feature
+ * that writes to disk or changes call flow turned off unless `env` says
+ * otherwise.
+ */
+export function createTestServer(mock: MockTavusApi, env: NodeJS.ProcessEnv = {}): TavusServer {
+  return new TavusServer({
+    TAVUS_API_KEY: TEST_API_KEY,
+    TAVUS_API_BASE: mock.url,
+    TAVUS_RETRY_BASE_MS: '1',
+    TAVUS_RETRY_MAX_MS: '20',
+    TAVUS_CONFIRM_DESTRUCTIVE: 'false',
+    TAVUS_LEDGER: 'false',
+    TAVUS_PREFLIGHT: 'false',
+    TAVUS_USAGE_FILE: 'false',
+    TAVUS_AUDIT_LOG: 'false',
+    TAVUS_CACHE: 'false',
+    ...env,
+  });
+}
+
+/**
+ * Connects a new MCP client to `tavus` as a session of its own.
+ */
+export async function connectClient(tavus: TavusServer): Promise<{ client: Client; server: Server }> {
+  const server = tavus.createServer();
+  const client = new Client({ name: 'tavus-mcp-tests', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  return { client, server };
+}
+
+export async function startHarness(
+  env: NodeJS.ProcessEnv = {},
+  mockOptions: MockTavusOptions = { stepsToComplete: 1 }
+): Promise<Harness> {
+  const mock = new MockTavusApi(mockOptions);
+  await mock.start();
+
+  const tavus = createTestServer(mock, env);
+  const { client, server } = await connectClient(tavus);
+
+  const requests = () => mock.requests.splice(0, mock.requests.length);
+
+  return {
+    mock,
+    client,
+    async call(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      const texts = (result.content as Array<{ type: string; text: string }>).map((item) => item.text);
+      return { text: texts[0], texts, isError: result.isError === true };
+    },
+    request() {
+      const received = requests();
+      if (received.length !== 1) {
+        throw new Error(`Expected one request, got ${received.map((r) => `${r.method} ${r.path}`).join(', ') || 'none'}`);
+      }
+      return received[0];
+    },
+    requests,
+    async close() {
+      await client.close();
+      await server.close();
+      await tavus.close();
+      await mock.close();
+    },
+  };
+}
@@ -0,0 +1,164 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IncomingMessage, request } from 'node:http';
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+import { HttpTransportHost, transportOptionsFromArgs } from '../src/http.js';
+import { TavusServer } from '../src/index.js';
+import { MockTavusApi } from '../src/mock-tavus.js';
+import { createTestServer } from './harness.js';
+
+const AUTH_TOKEN = 'team-token';
+
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// The events of an open GET /sse response, in the order they arrive
+class SseStream {
+  private buffer = '';
+  private events: SseEvent[] = [];
+  private arrived?: () => void;
+
+  constructor(readonly response: IncomingMessage) {
+    response.setEncoding('utf8');
+    response.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let end: number;
+      while ((end = this.buffer.indexOf('\n\n')) !== -1) {
+        const event: SseEvent = { event: 'message', data: '' };
+        for (const line of this.buffer.slice(0, end).split('\n')) {
+          if (line.startsWith('event: ')) event.event = line.slice('event: '.length);
+          if (line.startsWith('data: ')) event.data += line.slice('data: '.length);
+        }
+        this.buffer = this.buffer.slice(end + 2);
+        this.events.push(event);
+      }
+      this.arrived?.();
+    });
+  }
+
+  async next(): Promise<SseEvent> {
+    while (this.events.length === 0) {
+      await new Promise<void>((resolve) => { this.arrived = resolve; });
+    }
+    return this.events.shift()!;
+  }
+
+  close(): void {
+    this.response.destroy();
+  }
+}
+
+describe('HTTP transport', () => {
+  let mock: MockTavusApi;
+  let tavus: TavusServer;
+  let host: HttpTransportHost;
+
+  const bearer = { Authorization: `Bearer ${AUTH_TOKEN}` };
+
+  const openStream = (headers: Record<string, string>) =>
+    new Promise<SseStream>((resolve, reject) => {
+      request(`${host.address}/sse`, { headers }, (response) => resolve(new SseStream(response)))
+        .on('error', reject)
+        .end();
+    });
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = bearer) =>
+    fetch(`${host.address}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  before(async () => {
+    mock = new MockTavusApi({ stepsToComplete: 1 });
+    await mock.start();
+    tavus = createTestServer(mock);
+    host = new HttpTransportHost(() => tavus.createServer(), {
+      transport: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      authToken: AUTH_TOKEN,
+    });
+    await host.start();
+  });
+
+  after(async () => {
+    await host.close();
+    await tavus.close();
+    await mock.close();
+  });
+
+  test('reads the transport from flags before the environment', () => {
+    assert.deepEqual(
+      transportOptionsFromArgs(['--http', '--port=8080'], { TAVUS_MCP_HOST: '0.0.0.0', TAVUS_MCP_AUTH_TOKEN: 'secret' }),
+      { transport: 'http', host: '0.0.0.0', port: 8080, authToken: 'secret' }
+    );
+    assert.equal(transportOptionsFromArgs([], {}).transport, 'stdio');
+    assert.throws(() => transportOptionsFromArgs(['--transport', 'ws'], {}), /Unsupported transport "ws"/);
+  });
+
+  test('answers health checks without a token', async () => {
+    const response = await fetch(`${host.address}/health`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { status: 'ok', sessions: 0 });
+  });
+
+  test('rejects requests without the bearer token', async () => {
+    const attempts: Record<string, string>[] = [{}, { Authorization: 'Bearer wrong-token' }, { Authorization: AUTH_TOKEN }];
+    for (const headers of attempts) {
+      const stream = await fetch(`${host.address}/sse`, { headers });
+      assert.equal(stream.status, 401);
+      assert.equal(stream.headers.get('www-authenticate'), 'Bearer');
+      assert.deepEqual(await stream.json(), { error: 'Unauthorized' });
+    }
+    const message = await post('/messages?sessionId=any', {}, {});
+    assert.equal(message.status, 401);
+    assert.equal(host.sessionCount, 0);
+  });
+
+  test('serves the tools over an SSE session', async () => {
+    const { replica_id } = mock.seed('replicas', { replica_name: 'Anna', status: 'completed' });
+    const stream = await openStream(bearer);
+    try {
+      const endpoint = await stream.next();
+      assert.equal(endpoint.event, 'endpoint');
+      assert.match(endpoint.data, /^\/messages\?sessionId=/);
+      assert.equal(host.sessionCount, 1);
+
+      const initialize = await post(endpoint.data, {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'remote-agent', version: '1.0.0' } },
+      });
+      assert.equal(initialize.status, 202);
+      const initialized = JSON.parse((await stream.next()).data);
+      assert.equal(initialized.id, 1);
+      assert.equal(initialized.result.serverInfo.name, 'tavus-mcp');
+
+      await post(endpoint.data, { jsonrpc: '2.0', method: 'notifications/initialized' });
+      await post(endpoint.data, {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'get_replica', arguments: { replica_id } },
+      });
+      const result = JSON.parse((await stream.next()).data);
+      assert.equal(result.id, 2);
+      assert.equal(JSON.parse(result.result.content[0].text).replica_name, 'Anna');
+
+      const unknown = await post('/messages?sessionId=missing', { jsonrpc: '2.0', id: 3, method: 'ping' });
+      assert.equal(unknown.status, 404);
+      assert.deepEqual(await unknown.json(), { error: 'Unknown session: missing' });
+    } finally {
+      stream.close();
+    }
+
+    // Closing the stream ends the session
+    while (host.sessionCount > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Journal } from '../src/journal.js';
+
+describe('journal', () => {
+  let directory: string;
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'tavus-journal-'));
+  });
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  // A journal of numbers and the numbers it has applied
+  const open = (file: string) => {
+    const seen: number[] = [];
+    const journal = new Journal<{ n: number }>({
+      file,
+      maxBytes: 30,
+      label: 'Test',
+      reset: () => { seen.length = 0; },
+      apply: (line) => { seen.push(line.n); },
+    });
+    journal.sync();
+    return { journal, seen };
+  };
+
+  test('applies lines from other writers once and keeps both files after rotating', async () => {
+    const file = join(directory, 'numbers.jsonl');
+    const a = open(file);
+    const b = open(file);
+
+    for (const n of [1, 2, 3]) {
+      a.seen.push(n);
+      await a.journal.append({ n });
+    }
+    b.journal.sync();
+    assert.deepEqual(b.seen, [1, 2, 3]);
+
+    // Passing 30 bytes moves numbers.jsonl to numbers.jsonl.1
+    b.seen.push(4);
+    await b.journal.append({ n: 4 });
+    assert.ok(existsSync(`${file}.1`));
+
+    a.journal.sync();
+    b.journal.sync();
+    assert.deepEqual(a.seen, [1, 2, 3, 4]);
+    assert.deepEqual(b.seen, [1, 2, 3, 4]);
+    assert.deepEqual(open(file).seen, [1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyPatch, diff, merge } from '../src/json-patch.js';
+
+describe('json patch', () => {
+  const document = {
+    name: 'Support',
+    tags: ['a', 'b'],
+    layers: { llm: { model: 'x', 'a/b': 1 }, stt: { hotwords: 'Tavus' } },
+  };
+
+  test('applyPatch applies every operation to a copy', () => {
+    const result = applyPatch(document, [
+      { op: 'test', path: '/name', value: 'Support' },
+      { op: 'add', path: '/tags/-', value: 'c' },
+      { op: 'replace', path: '/layers/llm/a~1b', value: 2 },
+      { op: 'move', from: '/layers/stt', path: '/stt' },
+      { op: 'copy', from: '/name', path: '/title' },
+      { op: 'remove', path: '/tags/0' },
+    ]);
+    assert.deepEqual(result, {
+      name: 'Support',
+      tags: ['b', 'c'],
+      layers: { llm: { model: 'x', 'a/b': 2 } },
+      stt: { hotwords: 'Tavus' },
+      title: 'Support',
+    });
+    assert.deepEqual(document.tags, ['a', 'b']);
+  });
+
+  test('applyPatch names the operation that fails', () => {
+    assert.throws(
+      () => applyPatch(document, [{ op: 'add', path: '/x', value: 1 }, { op: 'remove', path: '/layers/tts' }]),
+      /^JsonPatchError: Operation 1: path "\/layers\/tts" does not exist$/
+    );
+    assert.throws(
+      () => applyPatch(document, [{ op: 'test', path: '/name', value: 'Sales' }]),
+      /Operation 0: test failed: value at "\/name" does not match/
+    );
+    assert.throws(() => applyPatch(document, [{ op: 'replace', path: '/tags/5', value: 1 }]), /out of bounds/);
+  });
+
+  test('diff produces a patch that reproduces the target', () => {
+    const target = {
+      name: 'Sales',
+      tags: ['a', 'c'],
+      layers: { llm: { model: 'x' }, tts: { tts_engine: 'cartesia' } },
+    };
+    const patch = diff(document, target);
+    assert.deepEqual(patch, [
+      { op: 'replace', path: '/name', value: 'Sales' },
+      { op: 'replace', path: '/tags/1', value: 'c' },
+      { op: 'remove', path: '/layers/stt' },
+      { op: 'remove', path: '/layers/llm/a~1b' },
+      { op: 'add', path: '/layers/tts', value: { tts_engine: 'cartesia' } },
+    ]);
+    assert.deepEqual(applyPatch(document, patch), target);
+    assert.deepEqual(diff(document, structuredClone(document)), []);
+  });
+
+  test('merge keeps fields the changes leave out', () => {
+    assert.deepEqual(
+      merge(document, { layers: { llm: { model: 'y' } }, tags: ['z'] }),
+      { ...document, tags: ['z'], layers: { llm: { model: 'y', 'a/b': 1 }, stt: { hotwords: 'Tavus' } } }
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JobLedger, redactSecrets } from '../src/ledger.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('job ledger', () => {
+  let directory: string;
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'tavus-ledger-'));
+  });
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  test('redactSecrets hides secret-looking keys at any depth', () => {
+    assert.deepEqual(
+      redactSecrets({ confirm_token: 'abc', layers: { llm: { model: 'x', api_key: 'sk-1' } }, list: [{ secret: 1 }] }),
+      { confirm_token: '[redacted]', layers: { llm: { model: 'x', api_key: '[redacted]' } }, list: [{ secret: '[redacted]' }] }
+    );
+  });
+
+  test('redactSecrets matches whole key names only', () => {
+    assert.deepEqual(
+      redactSecrets({
+        'x-api-key': 'k1',
+        Authorization: 'Bearer t',
+        client_secret: 's1',
+        secret_key: 's2',
+        openai_api_key: 'k2',
+        max_tokens: 512,
+        token_count: 3,
+        secretary: 'Ana',
+      }),
+      {
+        'x-api-key': '[redacted]',
+        Authorization: '[redacted]',
+        client_secret: '[redacted]',
+        secret_key: '[redacted]',
+        openai_api_key: '[redacted]',
+        max_tokens: 512,
+        token_count: 3,
+        secretary: 'Ana',
+      }
+    );
+  });
+
+  test('records creates and deletes and survives a restart', async () => {
+    const ledger = new JobLedger({ directory });
+    const created = await ledger.record({
+      tool: 'generate_video',
+      profile: 'default',
+      args: { replica_id: 'r1', script: 'Hi' },
+      response: { video_id: 'v1', status: 'queued' },
+    });
+    assert.equal(created?.resource_id, 'v1');
+    assert.equal(created?.status, 'queued');
+
+    ledger.observe('v1', 'generating');
+    ledger.observe('v1', 'generating');
+    await ledger.record({ tool: 'delete_video', profile: 'default', args: { video_id: 'v1' } });
+    assert.equal(await ledger.record({ tool: 'get_video', profile: 'default', args: {} }), undefined);
+
+    const reopened = new JobLedger({ directory });
+    const [deletion, creation] = reopened.query();
+    assert.equal(deletion.action, 'delete');
+    assert.deepEqual(creation.status_history.map((snapshot) => snapshot.status), ['queued', 'generating', 'deleted']);
+    assert.equal(reopened.find('v1')?.job_id, deletion.job_id);
+    assert.equal(reopened.find(creation.job_id)?.tool, 'generate_video');
+    const lines = readFileSync(reopened.file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    assert.equal(lines.filter((line) => line.job).length, 2);
+  });
+
+  test('servers sharing the directory see each other\'s jobs', async () => {
+    const shared = mkdtempSync(join(tmpdir(), 'tavus-ledger-'));
+    try {
+      const first = new JobLedger({ directory: shared });
+      const second = new JobLedger({ directory: shared });
+      await first.record({ tool: 'generate_video', profile: 'default', args: {}, response: { video_id: 'v1', status: 'queued' } });
+      await second.record({ tool: 'generate_video', profile: 'default', args: {}, response: { video_id: 'v2', status: 'queued' } });
+      second.observe('v1', 'ready');
+      await second.flush();
+
+      assert.deepEqual(first.query().map((entry) => [entry.resource_id, entry.status]), [['v2', 'queued'], ['v1', 'ready']]);
+      assert.deepEqual(second.query().map((entry) => [entry.resource_id, entry.status]), [['v2', 'queued'], ['v1', 'ready']]);
+      assert.deepEqual(new JobLedger({ directory: shared }).query().length, 2);
+    } finally {
+      rmSync(shared, { recursive: true, force: true });
+    }
+  });
+
+  test('skips unreadable lines and moves an unreadable file aside', async (context) => {
+    const broken = mkdtempSync(join(tmpdir(), 'tavus-ledger-'));
+    const errors = context.mock.method(console, 'error', () => {});
+    try {
+      const file = join(broken, 'jobs.jsonl');
+      writeFileSync(file, '{"version": 1,\n"jobs": [\n');
+      const fresh = new JobLedger({ directory: broken });
+      assert.deepEqual(fresh.query(), []);
+      assert.ok(readdirSync(broken).some((name) => name.startsWith('jobs.jsonl.bad-')));
+      assert.match(String(errors.mock.calls[0].arguments[0]), /jobs\.jsonl could not be read; moved it to .*jobs\.jsonl\.bad-\d+/);
+
+      await fresh.record({ tool: 'generate_video', profile: 'default', args: {}, response: { video_id: 'v1', status: 'queued' } });
+      appendFileSync(file, '{"job": {"job_id": "job_cut\n');
+      await fresh.record({ tool: 'generate_video', profile: 'default', args: {}, response: { video_id: 'v2', status: 'queued' } });
+      assert.deepEqual(new JobLedger({ directory: broken }).query().map((entry) => entry.resource_id), ['v2', 'v1']);
+      assert.match(String(errors.mock.calls.at(-1)!.arguments[0]), /Skipped 1 unreadable line\(s\)/);
+    } finally {
+      rmSync(broken, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('job ledger tools', () => {
+  let h: Harness;
+  let directory: string;
+  let replicaId: string;
+
+  before(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'tavus-ledger-'));
+    h = await startHarness({ TAVUS_LEDGER: '', TAVUS_LEDGER_DIR: directory }, { stepsToComplete: 2 });
+    replicaId = h.mock.seed('replicas', { status: 'completed' }).replica_id;
+  });
+
+  after(async () => {
+    await h.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const jobs = async (args: Record<string, unknown>) => JSON.parse((await h.call('list_jobs', args)).text).jobs;
+
+  test('tracks a batch until its videos are ready', async () => {
+    const batch = await h.call('generate_videos_batch', {
+      replica_id: replicaId,
+      script_template: 'Hi {{name}}',
+      recipients: [{ name: 'Ana' }, { name: 'Lee' }],
+    });
+    const { batch_id } = JSON.parse(batch.text.split('\n\n')[1]);
+    await h.call('generate_video', { replica_id: replicaId, script: 'Not in the batch' });
+
+    const pending = await jobs({ batch_id, pending_only: true });
+    assert.equal(pending.length, 2);
+    assert.deepEqual(pending.map((job: any) => [job.tool, job.status]), [
+      ['generate_videos_batch', 'queued'],
+      ['generate_videos_batch', 'queued'],
+    ]);
+    h.requests();
+
+    // Polling one video through get_video updates its entry
+    await h.call('get_video', { video_id: pending[0].resource_id });
+    assert.equal((await jobs({ batch_id, pending_only: true }))[0].status, 'generating');
+
+    const refreshed = await jobs({ batch_id, pending_only: true, refresh: true });
+    assert.deepEqual(h.requests().map((request) => request.path).sort(), [
+      `/videos/${pending[0].resource_id}`,
+      `/videos/${pending[0].resource_id}`,
+      `/videos/${pending[1].resource_id}`,
+    ].sort());
+    assert.deepEqual(refreshed.map((job: any) => job.resource_id), [pending[1].resource_id]);
+    assert.deepEqual(
+      (await jobs({ batch_id, status: 'ready' })).map((job: any) => job.resource_id),
+      [pending[0].resource_id]
+    );
+  });
+
+  test('get_job returns the entry without the confirmation token', async () => {
+    const { persona_id } = h.mock.seed('personas', { persona_name: 'Old' });
+    await h.call('delete_persona', { persona_id, confirm_token: 'abcd1234' });
+
+    const job = JSON.parse((await h.call('get_job', { id: persona_id })).text);
+    assert.equal(job.tool, 'delete_persona');
+    assert.equal(job.status, 'deleted');
+    assert.deepEqual(job.arguments, { persona_id });
+
+    await assert.rejects(h.call('get_job', { id: 'nope' }), /No job ledger entry for nope/);
+  });
+
+  test('refresh marks assets that no longer exist as deleted', async () => {
+    const created = await h.call('generate_speech', { replica_id: replicaId, script: 'Hi' });
+    const { speech_id } = JSON.parse(created.text);
+    h.mock.failNext({ path: `/speech/${speech_id}`, status: 404 });
+
+    const job = JSON.parse((await h.call('get_job', { id: speech_id, refresh: true })).text);
+    assert.equal(job.status, 'deleted');
+  });
+});
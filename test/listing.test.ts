@@ -0,0 +1,40 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxiosInstance } from 'axios';
+import { listResource, VIDEO_LISTING } from '../src/listing.js';
+
+// A client for an account holding `count` videos, recording the params of each request
+function fakeClient(count: number) {
+  const requests: Record<string, unknown>[] = [];
+  const client = {
+    async get(_path: string, { params }: { params: Record<string, any> }) {
+      requests.push(params);
+      const start = (params.page - 1) * params.limit;
+      const data = Array.from(
+        { length: Math.max(0, Math.min(params.limit, count - start)) },
+        (_, index) => ({ video_id: `v${start + index}`, status: 'ready' })
+      );
+      return { data: { data, total_count: count } };
+    },
+  };
+  return { client: client as unknown as AxiosInstance, requests };
+}
+
+describe('listing', () => {
+  test('all pages with 100 items regardless of limit', async () => {
+    const { client, requests } = fakeClient(250);
+    const result = await listResource(client, VIDEO_LISTING, { all: true, limit: 5 });
+    assert.deepEqual(requests, [{ limit: 100, page: 1 }, { limit: 100, page: 2 }, { limit: 100, page: 3 }]);
+    assert.equal(result.fetched_count, 250);
+    assert.equal('truncated' in result, false);
+  });
+
+  test('all marks the result truncated when it stops at the page cap', async () => {
+    const { client, requests } = fakeClient(6000);
+    const result = await listResource(client, VIDEO_LISTING, { all: true });
+    assert.equal(requests.length, 50);
+    assert.equal(result.fetched_count, 5000);
+    assert.equal(result.total_count, 6000);
+    assert.equal((result as { truncated?: boolean }).truncated, true);
+  });
+});
@@ -0,0 +1,279 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { canonicalPersona, personaDifferences } from '../src/persona-files.js';
+import { desiredPersona } from '../src/personas.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('update_persona', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness();
+  });
+
+  after(() => h.close());
+
+  const seedPersona = () => h.mock.seed('personas', {
+    persona_name: 'Support',
+    system_prompt: 'Be helpful.',
+    context: 'Acme support desk',
+    layers: { llm: { model: 'tavus-gpt-4o', speculative_inference: true }, stt: { hotwords: 'Acme' } },
+  });
+
+  test('desiredPersona merges by default and prunes on request', () => {
+    const current = { persona_id: 'p1', persona_name: 'A', context: 'c', layers: { llm: { model: 'm' } } };
+    assert.deepEqual(
+      desiredPersona(current, { layers: { tts: { tts_engine: 'cartesia' } } }),
+      { ...current, layers: { llm: { model: 'm' }, tts: { tts_engine: 'cartesia' } } }
+    );
+    assert.deepEqual(
+      desiredPersona(current, { persona_name: 'B' }, true),
+      { persona_id: 'p1', persona_name: 'B' }
+    );
+  });
+
+  test('dry_run shows the patch and the resulting persona without sending it', async () => {
+    const { persona_id } = seedPersona();
+    h.requests();
+    const result = await h.call('update_persona', {
+      persona_id,
+      system_prompt: 'Be brief.',
+      layers: { llm: { speculative_inference: false } },
+      dry_run: true,
+    });
+    assert.deepEqual(h.requests().map((request) => request.method), ['GET']);
+
+    const [summary, body] = result.text.split('\n\n');
+    assert.equal(summary, `Dry run: 2 operation(s) would be sent to PATCH /personas/${persona_id}`);
+    const { patch, result: preview } = JSON.parse(body);
+    assert.deepEqual(patch, [
+      { op: 'replace', path: '/system_prompt', value: 'Be brief.' },
+      { op: 'replace', path: '/layers/llm/speculative_inference', value: false },
+    ]);
+    assert.equal(preview.layers.llm.model, 'tavus-gpt-4o');
+    assert.equal(h.mock.get('personas', persona_id)!.system_prompt, 'Be helpful.');
+  });
+
+  test('prune removes what the definition leaves out', async () => {
+    const { persona_id } = seedPersona();
+    h.requests();
+    await h.call('update_persona', {
+      persona_id,
+      persona_name: 'Support',
+      system_prompt: 'Be helpful.',
+      layers: { llm: { model: 'tavus-gpt-4o' } },
+      prune: true,
+    });
+    const [, request] = h.requests();
+    assert.deepEqual(request.body, [
+      { op: 'remove', path: '/context' },
+      { op: 'remove', path: '/layers/stt' },
+      { op: 'remove', path: '/layers/llm/speculative_inference' },
+    ]);
+    const persona = h.mock.get('personas', persona_id)!;
+    assert.equal(persona.context, undefined);
+    assert.deepEqual(persona.layers, { llm: { model: 'tavus-gpt-4o' } });
+  });
+
+  test('reports when nothing needs to change', async () => {
+    const { persona_id } = seedPersona();
+    h.requests();
+    const result = await h.call('update_persona', { persona_id, persona_name: 'Support' });
+    assert.equal(result.text, `Persona ${persona_id} already matches the definition; nothing to update`);
+    assert.deepEqual(h.requests().map((request) => request.method), ['GET']);
+  });
+});
+
+describe('persona files', () => {
+  let h: Harness;
+  let directory: string;
+
+  before(async () => {
+    directory = realpathSync(mkdtempSync(join(tmpdir(), 'tavus-personas-')));
+    h = await startHarness({ TAVUS_PERSONA_DIR: directory });
+  });
+
+  after(async () => {
+    await h.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const seedPersona = () => h.mock.seed('personas', {
+    system_prompt: 'Be helpful.\nBe brief.\n',
+    persona_name: 'Support',
+    default_replica_id: null,
+    layers: { tts: { tts_engine: 'cartesia' }, llm: { api_key: 'sk-live', model: 'custom', base_url: 'https://llm.example.com' } },
+    pipeline_mode: 'full',
+  });
+
+  test('canonicalPersona orders keys and drops managed fields, nulls and secrets', () => {
+    const { persona, omitted_secrets } = canonicalPersona({
+      zeta: 1,
+      layers: { llm: { headers: { Authorization: 'Bearer x', 'X-Team': 'a' }, model: 'm' }, stt: { hotwords: 'Acme' } },
+      context: null,
+      persona_name: 'A',
+      persona_id: 'p1',
+      created_at: '2026-01-01',
+    });
+    assert.equal(
+      JSON.stringify(persona),
+      JSON.stringify({ persona_name: 'A', layers: { stt: { hotwords: 'Acme' }, llm: { model: 'm', headers: { 'X-Team': 'a' } } }, zeta: 1 })
+    );
+    assert.deepEqual(omitted_secrets, ['/layers/llm/headers/Authorization']);
+  });
+
+  test('personaDifferences reports each side of a change', () => {
+    assert.deepEqual(
+      personaDifferences({ persona_name: 'A', context: 'old' }, { persona_name: 'B', system_prompt: 'new' }),
+      [
+        { path: '/context', live: 'old' },
+        { path: '/persona_name', live: 'A', file: 'B' },
+        { path: '/system_prompt', file: 'new' },
+      ]
+    );
+  });
+
+  test('export_persona writes a stable file without secrets', async () => {
+    const { persona_id } = seedPersona();
+    const path = join(directory, 'support.yaml');
+    const result = await h.call('export_persona', { persona_id, path });
+    assert.equal(
+      result.text,
+      `Exported persona ${persona_id} to ${path}\n\n` +
+        'Left out secret values (pass include_secrets to keep them): /layers/llm/api_key'
+    );
+
+    const text = readFileSync(path, 'utf8');
+    assert.equal(text, [
+      'format: tavus-persona',
+      'version: 1',
+      'persona:',
+      '  persona_name: Support',
+      '  system_prompt: |',
+      '    Be helpful.',
+      '    Be brief.',
+      '  layers:',
+      '    llm:',
+      '      model: custom',
+      '      base_url: https://llm.example.com',
+      '    tts:',
+      '      tts_engine: cartesia',
+      '  pipeline_mode: full',
+      '',
+    ].join('\n'));
+
+    await assert.rejects(
+      h.call('export_persona', { persona_id, path }),
+      /Could not write persona file: .*support\.yaml already exists; pass overwrite: true to replace it/
+    );
+    await h.call('export_persona', { persona_id, path: 'support.yaml', overwrite: true });
+    assert.equal(readFileSync(path, 'utf8'), text);
+
+    const inline = await h.call('export_persona', { persona_id, format: 'json', include_secrets: true });
+    assert.ok(!inline.texts.some((text) => text.startsWith('Left out secret values')));
+    assert.equal(JSON.parse(inline.text).persona.layers.llm.api_key, 'sk-live');
+  });
+
+  test('diff_persona compares a file with the live persona', async () => {
+    const { persona_id } = seedPersona();
+    const path = join(directory, 'diff.json');
+    await h.call('export_persona', { persona_id, path });
+    assert.equal((await h.call('diff_persona', { persona_id, path })).text, `Persona ${persona_id} matches ${path}`);
+
+    const file = JSON.parse(readFileSync(path, 'utf8'));
+    file.persona.persona_name = 'Support v2';
+    delete file.persona.layers.tts;
+    writeFileSync(path, JSON.stringify(file));
+    const [summary, body] = (await h.call('diff_persona', { persona_id, path })).text.split('\n\n');
+    assert.equal(summary, `Persona ${persona_id} differs from ${path} in 2 place(s)`);
+    assert.deepEqual(JSON.parse(body), [
+      { path: '/persona_name', live: 'Support', file: 'Support v2' },
+      { path: '/layers/tts', live: { tts_engine: 'cartesia' } },
+    ]);
+  });
+
+  test('import_persona creates a persona or patches an existing one', async () => {
+    const content = [
+      'format: tavus-persona',
+      'version: 1',
+      'persona:',
+      '  persona_name: Imported',
+      '  context: From git',
+    ].join('\n');
+    h.requests();
+    const created = await h.call('import_persona', { content });
+    const request = h.request();
+    assert.equal(request.method, 'POST');
+    assert.deepEqual(request.body, { persona_name: 'Imported', context: 'From git' });
+    const { persona_id } = JSON.parse(created.text.split('\n\n')[1]);
+    assert.match(created.text, new RegExp(`^Created persona ${persona_id} from the given content`));
+
+    await h.call('import_persona', { persona_id, content: content.replace('From git', 'Edited') });
+    const [, patch] = h.requests();
+    assert.deepEqual(patch.body, [{ op: 'replace', path: '/context', value: 'Edited' }]);
+  });
+
+  test('persona file paths stay inside the persona directory', async () => {
+    const { persona_id } = seedPersona();
+    const outside = realpathSync(mkdtempSync(join(tmpdir(), 'tavus-outside-')));
+    try {
+      writeFileSync(join(outside, 'secret.yaml'), 'format: tavus-persona\nversion: 1\npersona: {}\n');
+      symlinkSync(outside, join(directory, 'escape'));
+
+      await assert.rejects(
+        h.call('export_persona', { persona_id, path: '../support.yaml' }),
+        /\.\.\/support\.yaml is outside the persona directory/
+      );
+      await assert.rejects(
+        h.call('export_persona', { persona_id, path: 'escape/support.yaml' }),
+        /escape\/support\.yaml resolves outside the persona directory/
+      );
+      await assert.rejects(
+        h.call('diff_persona', { persona_id, path: join(outside, 'secret.yaml') }),
+        /Invalid persona file: .*secret\.yaml is outside the persona directory/
+      );
+      await assert.rejects(
+        h.call('import_persona', { path: 'escape/secret.yaml' }),
+        /Invalid persona file: escape\/secret\.yaml resolves outside the persona directory/
+      );
+      assert.ok(!existsSync(join(outside, 'support.yaml')));
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  test('import_persona with prune keeps the secrets an export left out', async () => {
+    const { persona_id } = seedPersona();
+    await h.call('export_persona', { persona_id, path: 'pruned.yaml' });
+    const file = readFileSync(join(directory, 'pruned.yaml'), 'utf8');
+    writeFileSync(join(directory, 'pruned.yaml'), file.replace('      base_url: https://llm.example.com\n', ''));
+
+    h.requests();
+    await h.call('import_persona', { persona_id, path: 'pruned.yaml', prune: true });
+    const [, patch] = h.requests();
+    assert.deepEqual(patch.body, [
+      { op: 'remove', path: '/default_replica_id' },
+      { op: 'remove', path: '/layers/llm/base_url' },
+    ]);
+    const live = JSON.parse((await h.call('get_persona', { persona_id })).text);
+    assert.equal(live.layers.llm.api_key, 'sk-live');
+  });
+
+  test('import_persona rejects files it cannot read', async () => {
+    await assert.rejects(
+      h.call('import_persona', { content: 'format: other\npersona: {}' }),
+      /Invalid persona file: not a persona file/
+    );
+    await assert.rejects(
+      h.call('import_persona', { content: 'format: tavus-persona\nversion: 2\npersona: {}' }),
+      /unsupported persona file version 2/
+    );
+    await assert.rejects(
+      h.call('import_persona', { path: join(directory, 'missing.yaml') }),
+      /Invalid persona file: .*missing\.yaml does not exist/
+    );
+  });
+});
@@ -0,0 +1,395 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer, Server as HttpServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MediaReader, probeMedia } from '../src/media.js';
+import { Harness, startHarness } from './harness.js';
+
+// Builders for minimal but well-formed media files
+
+function u32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value >>> 0);
+  return buffer;
+}
+
+function u16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+}
+
+function box(type: string, ...parts: Buffer[]): Buffer {
+  const body = Buffer.concat(parts);
+  return Buffer.concat([u32(body.length + 8), Buffer.from(type, 'latin1'), body]);
+}
+
+function mediaBoxes(handler: string, timescale: number, duration: number, entry: Buffer, stts: Buffer): Buffer {
+  return box('mdia',
+    box('mdhd', Buffer.alloc(12), u32(timescale), u32(duration), Buffer.alloc(4)),
+    box('hdlr', Buffer.alloc(8), Buffer.from(handler, 'latin1'), Buffer.alloc(13)),
+    box('minf', box('stbl', box('stsd', Buffer.alloc(4), u32(1), entry), stts)));
+}
+
+function buildMp4(options: {
+  width: number;
+  height: number;
+  fps: number;
+  seconds: number;
+  sampleRate?: number;
+  brand?: string;
+  moovFirst?: boolean;
+}): Buffer {
+  const videoEntry = box('avc1', Buffer.alloc(24), u16(options.width), u16(options.height), Buffer.alloc(50));
+  const frames = options.fps * options.seconds;
+  const video = box('trak',
+    box('tkhd', Buffer.alloc(76), u32(options.width * 65536), u32(options.height * 65536)),
+    mediaBoxes('vide', options.fps * 100, frames * 100, videoEntry,
+      box('stts', Buffer.alloc(4), u32(1), u32(frames), u32(100))));
+
+  const tracks = [video];
+  if (options.sampleRate) {
+    const audioEntry = box('mp4a', Buffer.alloc(16), u16(2), u16(16), Buffer.alloc(4), u32(options.sampleRate * 65536));
+    tracks.push(box('trak',
+      box('tkhd', Buffer.alloc(84)),
+      mediaBoxes('soun', options.sampleRate, options.sampleRate * options.seconds, audioEntry,
+        box('stts', Buffer.alloc(4), u32(0)))));
+  }
+
+  const ftyp = box('ftyp', Buffer.from(options.brand ?? 'isom', 'latin1'), u32(0), Buffer.from('isomavc1', 'latin1'));
+  const moov = box('moov', box('mvhd', Buffer.alloc(12), u32(1000), u32(options.seconds * 1000), Buffer.alloc(80)), ...tracks);
+  const mdat = box('mdat', Buffer.alloc(300 * 1024));
+  return Buffer.concat(options.moovFirst ? [ftyp, moov, mdat] : [ftyp, mdat, moov]);
+}
+
+// An MP4 whose moov box holds only `boxes`
+function buildMoov(...boxes: Buffer[]): Buffer {
+  return Buffer.concat([box('ftyp', Buffer.from('isom', 'latin1'), u32(0)), box('moov', ...boxes)]);
+}
+
+function videoTrack(mdhd: Buffer, stts: Buffer): Buffer {
+  const entry = box('avc1', Buffer.alloc(24), u16(1920), u16(1080), Buffer.alloc(50));
+  return box('trak', box('mdia',
+    mdhd,
+    box('hdlr', Buffer.alloc(8), Buffer.from('vide', 'latin1'), Buffer.alloc(13)),
+    box('minf', box('stbl', box('stsd', Buffer.alloc(4), u32(1), entry), stts))));
+}
+
+function buildWav(sampleRate: number, seconds: number, channels = 1): Buffer {
+  const data = Buffer.alloc(sampleRate * channels * 2 * seconds);
+  const fmt = Buffer.alloc(16);
+  fmt.writeUInt16LE(1, 0);
+  fmt.writeUInt16LE(channels, 2);
+  fmt.writeUInt32LE(sampleRate, 4);
+  fmt.writeUInt32LE(sampleRate * channels * 2, 8);
+  fmt.writeUInt16LE(channels * 2, 12);
+  fmt.writeUInt16LE(16, 14);
+  const chunk = (id: string, body: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 'latin1');
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body]);
+  };
+  const body = Buffer.concat([Buffer.from('WAVE'), chunk('fmt ', fmt), chunk('LIST', Buffer.alloc(3)), Buffer.alloc(1), chunk('data', data)]);
+  const riff = Buffer.alloc(8);
+  riff.write('RIFF', 0, 'latin1');
+  riff.writeUInt32LE(body.length, 4);
+  return Buffer.concat([riff, body]);
+}
+
+// MPEG-1 layer III, 128 kbit/s, 44.1 kHz, stereo: 417-byte frames
+const MP3_FRAME_BYTES = 417;
+
+function buildMp3(frames: number, options: { xing?: boolean; id3?: boolean } = {}): Buffer {
+  const frame = () => {
+    const buffer = Buffer.alloc(MP3_FRAME_BYTES);
+    Buffer.from([0xff, 0xfb, 0x90, 0x00]).copy(buffer);
+    return buffer;
+  };
+  const parts: Buffer[] = [];
+  if (options.id3) {
+    parts.push(Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 1, 0]), Buffer.alloc(128));
+  }
+  if (options.xing) {
+    const header = frame();
+    header.write('Xing', 36, 'latin1');
+    header.writeUInt32BE(1, 40);
+    header.writeUInt32BE(frames, 44);
+    parts.push(header);
+  }
+  for (let i = 0; i < frames; i++) parts.push(frame());
+  return Buffer.concat(parts);
+}
+
+function bufferReader(buffer: Buffer): MediaReader {
+  return { size: buffer.length, read: async (offset, length) => buffer.subarray(offset, offset + length) };
+}
+
+describe('probeMedia', () => {
+  test('reads MP4 duration, resolution, frame rate and audio with the moov box at the end', async () => {
+    const info = await probeMedia(bufferReader(buildMp4({ width: 1920, height: 1080, fps: 30, seconds: 90, sampleRate: 48000 })));
+    assert.deepEqual(info, {
+      container: 'mp4',
+      duration_seconds: 90,
+      video: { codec: 'avc1', width: 1920, height: 1080, frame_rate: 30 },
+      audio: { codec: 'mp4a', channels: 2, sample_rate: 48000 },
+    });
+  });
+
+  test('recognizes QuickTime files', async () => {
+    const info = await probeMedia(bufferReader(buildMp4({ width: 1280, height: 720, fps: 25, seconds: 2, brand: 'qt  ', moovFirst: true })));
+    assert.equal(info.container, 'mov');
+    assert.equal(info.audio, undefined);
+    assert.equal(info.video?.frame_rate, 25);
+  });
+
+  test('reads WAV format and duration', async () => {
+    assert.deepEqual(await probeMedia(bufferReader(buildWav(16000, 3, 2))), {
+      container: 'wav',
+      duration_seconds: 3,
+      audio: { codec: 'pcm', channels: 2, sample_rate: 16000, bit_rate: 512000 },
+    });
+  });
+
+  test('reads MP3 duration from a Xing header or the bit rate', async () => {
+    const vbr = await probeMedia(bufferReader(buildMp3(100, { xing: true, id3: true })));
+    assert.equal(vbr.duration_seconds, Math.round((100 * 1152 / 44100) * 1000) / 1000);
+    assert.deepEqual(vbr.audio, { codec: 'mp3', sample_rate: 44100, channels: 2, bit_rate: 128000 });
+
+    const cbr = await probeMedia(bufferReader(buildMp3(100)));
+    assert.equal(cbr.duration_seconds, Math.round((100 * MP3_FRAME_BYTES * 8 / 128000) * 1000) / 1000);
+  });
+
+  test('reports truncated MP4 boxes as parse errors', async () => {
+    const mdhd = box('mdhd', Buffer.alloc(12), u32(3000), u32(6000), Buffer.alloc(4));
+    const stts = box('stts', Buffer.alloc(4), u32(1), u32(60), u32(100));
+    await assert.rejects(probeMedia(bufferReader(buildMoov(box('mvhd')))), /^MediaParseError: MP4 mvhd box is truncated$/);
+    await assert.rejects(
+      probeMedia(bufferReader(buildMoov(videoTrack(box('mdhd', Buffer.alloc(8)), stts)))),
+      /^MediaParseError: MP4 mdhd box is truncated$/
+    );
+    await assert.rejects(
+      probeMedia(bufferReader(buildMoov(videoTrack(mdhd, box('stts', Buffer.alloc(2)))))),
+      /^MediaParseError: MP4 stts box is truncated$/
+    );
+    assert.equal((await probeMedia(bufferReader(buildMoov(videoTrack(mdhd, stts))))).video?.frame_rate, 30);
+  });
+
+  test('reads a moov box with a size of 0 to the end of the file', async () => {
+    const file = buildMoov();
+    file.writeUInt32BE(0, file.length - 8);
+    assert.deepEqual(await probeMedia(bufferReader(file)), { container: 'mp4' });
+    // Without the file size there is nothing to tell where it ends
+    await assert.rejects(
+      probeMedia({ read: bufferReader(file).read }),
+      /^MediaParseError: Malformed MP4 moov box at byte \d+$/
+    );
+  });
+
+  test('rejects unknown formats', async () => {
+    await assert.rejects(probeMedia(bufferReader(Buffer.from('<html>Sign in</html>'))), /Not a recognized media file/);
+  });
+});
+
+describe('preflight', () => {
+  let root: string;
+  let files: HttpServer;
+  let base: string;
+  const served = new Map<string, { body: Buffer; type: string; ranges: boolean }>();
+  const ranges: string[] = [];
+
+  before(async () => {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'tavus-preflight-')));
+    writeFileSync(join(root, 'short.mp4'), buildMp4({ width: 1280, height: 720, fps: 30, seconds: 20, sampleRate: 44100 }));
+    writeFileSync(join(root, 'speech.wav'), buildWav(8000, 2));
+    writeFileSync(join(root, 'truncated.mp4'), buildMoov(box('mvhd')));
+
+    served.set('/good.mp4', { body: buildMp4({ width: 1920, height: 1080, fps: 30, seconds: 120, sampleRate: 48000 }), type: 'video/mp4', ranges: true });
+    served.set('/silent.mp4', { body: buildMp4({ width: 1920, height: 1080, fps: 30, seconds: 120 }), type: 'video/mp4', ranges: true });
+    served.set('/no-ranges.mp4', { body: buildMp4({ width: 1920, height: 1080, fps: 30, seconds: 120, sampleRate: 48000 }), type: 'video/mp4', ranges: false });
+    served.set('/share', { body: Buffer.from('<html>Sign in to view this file</html>'), type: 'text/html; charset=utf-8', ranges: false });
+    served.set('/quiet.wav', { body: buildWav(8000, 2), type: 'audio/wav', ranges: true });
+    served.set('/voice.mp3', { body: buildMp3(200, { xing: true }), type: 'audio/mpeg', ranges: true });
+
+    files = createServer((req, res) => {
+      const file = served.get(req.url ?? '');
+      if (!file) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      const range = req.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+      if (range && file.ranges) {
+        ranges.push(req.headers.range!);
+        const start = Number(range[1]);
+        const end = Math.min(Number(range[2]), file.body.length - 1);
+        res.writeHead(206, { 'Content-Type': file.type, 'Content-Range': `bytes ${start}-${end}/${file.body.length}` });
+        res.end(file.body.subarray(start, end + 1));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': file.type, 'Content-Length': file.body.length });
+      res.end(file.body);
+    });
+    await new Promise<void>((resolve) => files.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(files.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => files.close(() => resolve()));
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('preflight_media', () => {
+    let h: Harness;
+    before(async () => { h = await startHarness({ TAVUS_UPLOAD_DIR: root, TAVUS_PREFLIGHT_PRIVATE_HOSTS: 'true' }); });
+    after(async () => { await h.close(); });
+    beforeEach(() => { ranges.length = 0; });
+
+    const check = async (url: string, kind: string) => {
+      const result = await h.call('preflight_media', { url, kind });
+      const [summary, body] = result.text.split('\n\n');
+      return { summary, report: JSON.parse(body) };
+    };
+
+    test('passes a remote training video read through Range requests', async () => {
+      const { summary, report } = await check(`${base}/good.mp4`, 'training_video');
+      assert.equal(summary, `${base}/good.mp4 passed all checks for a training video`);
+      assert.equal(report.ok, true);
+      assert.equal(report.http_status, 206);
+      assert.equal(report.content_type, 'video/mp4');
+      assert.equal(report.bytes, served.get('/good.mp4')!.body.length);
+      assert.deepEqual(report.media.video, { codec: 'avc1', width: 1920, height: 1080, frame_rate: 30 });
+      assert.equal(report.media.duration_seconds, 120);
+      // The moov box sits behind the media data, so it took more than the first request
+      assert.ok(ranges.length > 1);
+    });
+
+    test('reports a short, low-resolution local training video', async () => {
+      const { summary, report } = await check('short.mp4', 'training_video');
+      assert.equal(summary, 'short.mp4 has 1 error(s) and 1 warning(s) for a training video');
+      assert.equal(report.ok, false);
+      assert.deepEqual(report.issues, [
+        { severity: 'warning', message: 'Resolution 1280x720 is below the recommended 1080p' },
+        { severity: 'error', message: 'Duration 20s is shorter than the 60s minimum for a training video' },
+      ]);
+    });
+
+    test('reports missing audio, web pages and unreachable URLs', async () => {
+      assert.deepEqual((await check(`${base}/silent.mp4`, 'training_video')).report.issues, [
+        { severity: 'error', message: 'The training video has no audio track' },
+      ]);
+
+      const page = (await check(`${base}/share`, 'training_video')).report;
+      assert.equal(page.ok, false);
+      assert.match(page.issues[0].message, /^Content-Type text\/html is not video; the URL may point to a web page/);
+
+      assert.deepEqual((await check(`${base}/missing.mp4`, 'video')).report.issues, [
+        { severity: 'error', message: 'The URL is not reachable (HTTP 404)' },
+      ]);
+      assert.deepEqual((await check('ftp://files.example.com/a.mp4', 'video')).report.issues, [
+        { severity: 'error', message: 'Only http(s) URLs, file:// URLs and local paths can be checked' },
+      ]);
+    });
+
+    test('reports a truncated file instead of failing', async () => {
+      const { report } = await check('truncated.mp4', 'video');
+      assert.equal(report.ok, false);
+      assert.deepEqual(report.issues, [
+        { severity: 'error', message: 'Could not read the media headers: MP4 mvhd box is truncated' },
+      ]);
+    });
+
+    test('only warns when the headers are out of reach without Range support', async () => {
+      const { report } = await check(`${base}/no-ranges.mp4`, 'video');
+      assert.equal(report.ok, true);
+      assert.equal(report.bytes, served.get('/no-ranges.mp4')!.body.length);
+      assert.match(report.issues[0].message, /^Could not read the media headers: the server does not support Range requests/);
+    });
+
+    test('checks audio format and sample rate', async () => {
+      const mp3 = (await check(`${base}/voice.mp3`, 'audio')).report;
+      assert.equal(mp3.ok, true);
+      assert.equal(mp3.media.audio.sample_rate, 44100);
+
+      assert.deepEqual((await check('speech.wav', 'audio')).report.issues, [
+        { severity: 'warning', message: 'Audio sample rate 8000 Hz is below the recommended 16000 Hz' },
+      ]);
+      assert.deepEqual((await check(`${base}/good.mp4`, 'audio')).report.issues, [
+        { severity: 'error', message: 'Content-Type video/mp4 is not audio; the URL may point to a web page rather than the file itself' },
+        { severity: 'error', message: 'MP4 is not accepted for a audio file (expected wav, mp3)' },
+      ]);
+    });
+  });
+
+  describe('before creating jobs', () => {
+    let h: Harness;
+    before(async () => {
+      h = await startHarness({ TAVUS_PREFLIGHT: 'true', TAVUS_UPLOAD_DIR: root, TAVUS_PREFLIGHT_PRIVATE_HOSTS: 'true' });
+    });
+    after(async () => { await h.close(); });
+    beforeEach(() => { h.requests(); });
+
+    test('stops create_replica when the training video fails', async () => {
+      await assert.rejects(
+        h.call('create_replica', { train_video_url: `${base}/silent.mp4`, consent_video_url: `${base}/share` }),
+        (error: Error) => {
+          assert.match(error.message, /Preflight found problems with the media \(pass skip_preflight: true to submit anyway\):/);
+          assert.match(error.message, /- train_video_url: error: The training video has no audio track/);
+          assert.match(error.message, /- consent_video_url: error: Content-Type text\/html is not video/);
+          return true;
+        }
+      );
+      assert.deepEqual(h.requests(), []);
+    });
+
+    test('skip_preflight submits anyway and is not sent to Tavus', async () => {
+      await h.call('create_replica', { train_video_url: `${base}/silent.mp4`, skip_preflight: true });
+      assert.deepEqual(h.request().body, { train_video_url: `${base}/silent.mp4` });
+    });
+
+    test('passes warnings along with the result', async () => {
+      const { replica_id } = h.mock.seed('replicas', { status: 'completed' });
+      const result = await h.call('create_lipsync', { video_url: `${base}/good.mp4`, audio_url: `${base}/quiet.wav` });
+      assert.equal(
+        result.texts[1],
+        'Preflight warnings:\n- audio_url: warning: Audio sample rate 8000 Hz is below the recommended 16000 Hz'
+      );
+      assert.equal(h.request().path, '/lipsync');
+
+      h.requests();
+      await assert.rejects(
+        h.call('generate_video', { replica_id, audio_url: `${base}/missing.mp3` }),
+        /- audio_url: error: The URL is not reachable \(HTTP 404\)/
+      );
+      assert.deepEqual(h.requests(), []);
+    });
+  });
+
+  test('refuses loopback and private hosts unless allowed', async () => {
+    const h = await startHarness({ TAVUS_UPLOAD_DIR: root });
+    ranges.length = 0;
+    try {
+      const check = async (url: string) => {
+        const result = await h.call('preflight_media', { url, kind: 'video' });
+        return JSON.parse(result.text.split('\n\n')[1]).issues;
+      };
+      assert.deepEqual(await check(`${base}/good.mp4`), [{
+        severity: 'error',
+        message: 'The URL is not reachable (127.0.0.1 is a loopback or private address; set TAVUS_PREFLIGHT_PRIVATE_HOSTS=true to allow it)',
+      }]);
+      assert.match((await check('http://169.254.169.254/latest/meta-data'))[0].message, /169\.254\.169\.254 is a loopback or private address/);
+      assert.match((await check('http://[::1]:9/a.mp4'))[0].message, /::1 is a loopback or private address/);
+      // Names are checked by the addresses they resolve to
+      assert.match(
+        (await check(base.replace('127.0.0.1', 'localhost') + '/good.mp4'))[0].message,
+        /localhost resolves to (127\.0\.0\.1|::1), which is a loopback or private address/
+      );
+      assert.deepEqual(ranges, []);
+    } finally {
+      await h.close();
+    }
+  });
+});
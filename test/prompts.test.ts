@@ -0,0 +1,64 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PROMPTS } from '../src/prompts.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('prompts', () => {
+  let h: Harness;
+  let annaId: string;
+  let bobId: string;
+
+  before(async () => {
+    h = await startHarness();
+    annaId = h.mock.seed('replicas', { replica_name: 'Anna', status: 'completed' }).replica_id;
+    bobId = h.mock.seed('replicas', { replica_name: 'Bob', status: 'completed' }).replica_id;
+    h.mock.seed('personas', { persona_name: 'Support' });
+  });
+
+  after(() => h.close());
+
+  test('lists every prompt with its arguments', async () => {
+    const { prompts } = await h.client.listPrompts();
+    assert.deepEqual(prompts.map((prompt) => prompt.name), PROMPTS.map((prompt) => prompt.name));
+    const demo = prompts.find((prompt) => prompt.name === 'create_sales_demo_persona')!;
+    assert.deepEqual(demo.arguments?.[0], {
+      name: 'replica_id',
+      description: 'Replica that will present the demo',
+      required: true,
+    });
+  });
+
+  test('renders a prompt with its arguments filled in', async () => {
+    const result = await h.client.getPrompt({
+      name: 'start_persona_conversation',
+      arguments: { persona_id: 'p1', greeting: 'Hi there' },
+    });
+    assert.equal(result.description, 'Start a conversation with an existing persona, optionally overriding its replica');
+    assert.equal(result.messages[0].role, 'user');
+    const text = (result.messages[0].content as { text: string }).text;
+    assert.match(text, /^Start a Tavus conversation\.\n\nInputs:\n- Persona: p1\n- Greeting: Hi there\n/);
+    assert.match(text, /If the persona has no default replica_id, ask which replica to use/);
+  });
+
+  test('rejects unknown prompts and missing arguments', async () => {
+    await assert.rejects(h.client.getPrompt({ name: 'nope' }), /Unknown prompt: nope/);
+    await assert.rejects(
+      h.client.getPrompt({ name: 'produce_personalized_video', arguments: { replica_id: 'r1' } }),
+      /Missing required arguments for produce_personalized_video: recipient_name, message/
+    );
+  });
+
+  test('completes IDs by prefix or name from the account', async () => {
+    const ref = { type: 'ref/prompt' as const, name: 'produce_personalized_video' };
+    const byName = await h.client.complete({ ref, argument: { name: 'replica_id', value: 'bo' } });
+    assert.deepEqual(byName.completion, { values: [bobId], total: 1, hasMore: false });
+
+    const byPrefix = await h.client.complete({ ref, argument: { name: 'replica_id', value: annaId.slice(0, 4) } });
+    assert.ok(byPrefix.completion.values.includes(annaId));
+
+    h.requests();
+    const freeText = await h.client.complete({ ref, argument: { name: 'recipient_name', value: 'A' } });
+    assert.deepEqual(freeText.completion.values, []);
+    assert.equal(h.requests().length, 0);
+  });
+});
@@ -0,0 +1,88 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { parseResourceUri, statusFingerprint } from '../src/resources.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('resources', () => {
+  let h: Harness;
+  const updated: string[] = [];
+  let onUpdate: (() => void) | undefined;
+
+  // Resolves once the poller has reported `uri` as changed
+  const nextUpdate = async (uri: string) => {
+    while (!updated.includes(uri)) {
+      await new Promise<void>((resolve) => { onUpdate = resolve; });
+    }
+    updated.splice(updated.indexOf(uri), 1);
+  };
+
+  before(async () => {
+    h = await startHarness({ TAVUS_RESOURCE_POLL_SECONDS: '0.02' });
+    h.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+      onUpdate?.();
+    });
+  });
+
+  after(() => h.close());
+
+  test('parseResourceUri accepts collections and single items only', () => {
+    assert.equal(parseResourceUri('tavus://videos')?.kind.collection, 'videos');
+    assert.equal(parseResourceUri('tavus://videos/a%2Fb')?.id, 'a/b');
+    assert.equal(parseResourceUri('tavus://videos/'), undefined);
+    assert.equal(parseResourceUri('tavus://videos/v1/extra'), undefined);
+    assert.equal(parseResourceUri('tavus://lipsync'), undefined);
+    assert.equal(parseResourceUri('https://tavusapi.com/videos'), undefined);
+  });
+
+  test('statusFingerprint follows the status and progress of items', () => {
+    const list = parseResourceUri('tavus://videos')!;
+    assert.equal(
+      statusFingerprint(list, { data: [{ video_id: 'b', status: 'ready' }, { video_id: 'a', status: 'queued', generation_progress: '10/100' }] }),
+      'a=queued||10/100,b=ready||'
+    );
+    assert.equal(statusFingerprint(parseResourceUri('tavus://videos/a')!, { status: 'ready', video_name: 'Intro' }), 'ready||');
+  });
+
+  test('lists the collections and item templates', async () => {
+    const { resources } = await h.client.listResources();
+    assert.deepEqual(resources.map((resource) => resource.uri), [
+      'tavus://replicas',
+      'tavus://videos',
+      'tavus://personas',
+      'tavus://conversations',
+    ]);
+    const { resourceTemplates } = await h.client.listResourceTemplates();
+    assert.equal(resourceTemplates[1].uriTemplate, 'tavus://videos/{video_id}');
+  });
+
+  test('reads a collection and a single item', async () => {
+    const { persona_id } = h.mock.seed('personas', { persona_name: 'Support' });
+    const item = await h.client.readResource({ uri: `tavus://personas/${persona_id}` });
+    assert.equal(item.contents[0].mimeType, 'application/json');
+    assert.equal(JSON.parse(item.contents[0].text as string).persona_name, 'Support');
+
+    const list = await h.client.readResource({ uri: 'tavus://personas' });
+    assert.ok(JSON.parse(list.contents[0].text as string).data.some((persona: any) => persona.persona_id === persona_id));
+
+    await assert.rejects(h.client.readResource({ uri: 'tavus://lipsync/l1' }), /Unknown resource URI: tavus:\/\/lipsync\/l1/);
+    await assert.rejects(h.client.readResource({ uri: 'tavus://personas/missing' }), /HTTP 404/);
+  });
+
+  test('notifies subscribers when a status changes', async () => {
+    const video = h.mock.seed('videos', { video_name: 'Intro', status: 'queued' });
+    const itemUri = `tavus://videos/${video.video_id}`;
+    await h.client.subscribeResource({ uri: itemUri });
+    await h.client.subscribeResource({ uri: 'tavus://videos' });
+
+    video.video_name = 'Renamed';
+    video.status = 'ready';
+    await nextUpdate(itemUri);
+    await nextUpdate('tavus://videos');
+
+    await h.client.unsubscribeResource({ uri: itemUri });
+    await h.client.unsubscribeResource({ uri: 'tavus://videos' });
+    await assert.rejects(h.client.subscribeResource({ uri: 'tavus://videos/missing' }), /HTTP 404/);
+  });
+});
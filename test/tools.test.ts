@@ -0,0 +1,622 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TOOLS } from '../src/tools.js';
+import { Harness, TEST_API_KEY, connectClient, createTestServer, startHarness } from './harness.js';
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+describe('tools', () => {
+  let h: Harness;
+  let replicaId: string;
+  let profileLine: string;
+
+  // The mock's copy of an item, as the API would return it
+  const stored = (collection: string, id: string) => {
+    const { _steps, ...item } = h.mock.get(collection, id)!;
+    return item;
+  };
+
+  before(async () => {
+    h = await startHarness();
+    profileLine = `Tavus profile: default (${h.mock.url})`;
+  });
+
+  after(() => h.close());
+
+  beforeEach(() => {
+    h.mock.reset();
+    replicaId = h.mock.seed('replicas', { replica_name: 'Anna', status: 'completed', replica_type: 'user' }).replica_id;
+  });
+
+  test('lists every tool', async () => {
+    const { tools } = await h.client.listTools();
+    assert.deepEqual(tools.map((tool) => tool.name), TOOLS.map((tool) => tool.name));
+  });
+
+  test('sends the API key and appends the profile used', async () => {
+    const result = await h.call('get_replica', { replica_id: replicaId });
+    assert.equal(h.request().headers['x-api-key'], TEST_API_KEY);
+    assert.deepEqual(result.texts.slice(1), [profileLine]);
+  });
+
+  describe('replicas', () => {
+    test('create_replica', async () => {
+      const result = await h.call('create_replica', {
+        train_video_url: 'https://example.com/train.mp4',
+        replica_name: 'Bob',
+      });
+      const request = h.request();
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, '/replicas');
+      assert.deepEqual(request.body, { train_video_url: 'https://example.com/train.mp4', replica_name: 'Bob' });
+      const { replica_id } = JSON.parse(result.text);
+      assert.equal(result.text, json({ replica_id, status: 'started' }));
+    });
+
+    test('get_replica', async () => {
+      const result = await h.call('get_replica', { replica_id: replicaId, verbose: true });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, `/replicas/${replicaId}`);
+      assert.deepEqual(request.query, { verbose: 'true' });
+      assert.equal(result.text, json(stored('replicas', replicaId)));
+    });
+
+    test('list_replicas', async () => {
+      const result = await h.call('list_replicas', { limit: 10, page: 1, replica_type: 'user' });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, '/replicas');
+      assert.deepEqual(request.query, { replica_type: 'user', limit: '10', page: '1' });
+      assert.equal(result.text, json({
+        data: [stored('replicas', replicaId)],
+        total_count: 1,
+        page: 1,
+        limit: 10,
+        fetched_count: 1,
+        returned_count: 1,
+      }));
+    });
+
+    test('delete_replica', async () => {
+      const result = await h.call('delete_replica', { replica_id: replicaId });
+      const request = h.request();
+      assert.equal(request.method, 'DELETE');
+      assert.equal(request.path, `/replicas/${replicaId}`);
+      assert.equal(request.body, undefined);
+      assert.equal(result.text, `Successfully deleted replica ${replicaId}`);
+      assert.equal(h.mock.get('replicas', replicaId), undefined);
+    });
+
+    test('rename_replica', async () => {
+      const result = await h.call('rename_replica', { replica_id: replicaId, replica_name: 'Anna 2' });
+      const request = h.request();
+      assert.equal(request.method, 'PATCH');
+      assert.equal(request.path, `/replicas/${replicaId}/name`);
+      assert.deepEqual(request.body, { replica_name: 'Anna 2' });
+      assert.equal(result.text, json(stored('replicas', replicaId)));
+      assert.equal(JSON.parse(result.text).replica_name, 'Anna 2');
+    });
+
+    test('wait_for_replica_training', async () => {
+      const { replica_id } = h.mock.seed('replicas', { status: 'started', training_progress: '0/100', _steps: 0 });
+      const result = await h.call('wait_for_replica_training', { replica_id, poll_interval_seconds: 1 });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, `/replicas/${replica_id}`);
+      assert.equal(result.isError, false);
+      assert.match(result.text, new RegExp(`^replica ${replica_id} finished with status completed\n\n`));
+      assert.equal(JSON.parse(result.text.split('\n\n')[1]).job.training_progress, '100/100');
+    });
+  });
+
+  describe('videos', () => {
+    test('generate_video', async () => {
+      const result = await h.call('generate_video', { replica_id: replicaId, script: 'Hello there' });
+      const request = h.request();
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, '/videos');
+      assert.deepEqual(request.body, { replica_id: replicaId, script: 'Hello there' });
+      const { video_id } = JSON.parse(result.text);
+      const video = stored('videos', video_id);
+      assert.equal(result.text, json({
+        video_id,
+        video_name: 'Untitled video',
+        status: 'queued',
+        hosted_url: `https://videos.mock.tavus.io/video/${video_id}`,
+        created_at: video.created_at,
+      }));
+    });
+
+    test('get_video', async () => {
+      const { video_id } = h.mock.seed('videos', { video_name: 'Demo', status: 'ready' });
+      const result = await h.call('get_video', { video_id });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, `/videos/${video_id}`);
+      assert.equal(result.text, json(stored('videos', video_id)));
+    });
+
+    test('list_videos', async () => {
+      const first = h.mock.seed('videos', { video_name: 'First', status: 'ready' });
+      const second = h.mock.seed('videos', { video_name: 'Second', status: 'error' });
+      const result = await h.call('list_videos', { status: 'ready' });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, '/videos');
+      assert.deepEqual(request.query, {});
+      assert.ok(second);
+      assert.equal(result.text, json({
+        data: [stored('videos', first.video_id)],
+        total_count: 2,
+        page: 1,
+        fetched_count: 2,
+        returned_count: 1,
+      }));
+    });
+
+    test('delete_video', async () => {
+      const { video_id } = h.mock.seed('videos', { status: 'ready' });
+      const result = await h.call('delete_video', { video_id });
+      const request = h.request();
+      assert.equal(request.method, 'DELETE');
+      assert.equal(request.path, `/videos/${video_id}`);
+      assert.equal(result.text, `Successfully deleted video ${video_id}`);
+    });
+
+    test('rename_video', async () => {
+      const { video_id } = h.mock.seed('videos', { video_name: 'Old', status: 'ready' });
+      const result = await h.call('rename_video', { video_id, video_name: 'New' });
+      const request = h.request();
+      assert.equal(request.method, 'PATCH');
+      assert.equal(request.path, `/videos/${video_id}/name`);
+      assert.deepEqual(request.body, { video_name: 'New' });
+      assert.equal(result.text, json(stored('videos', video_id)));
+    });
+
+    test('wait_for_video', async () => {
+      const { video_id } = h.mock.seed('videos', { status: 'queued', _steps: 0 });
+      const result = await h.call('wait_for_video', { video_id, poll_interval_seconds: 1 });
+      assert.equal(h.request().path, `/videos/${video_id}`);
+      assert.equal(result.isError, false);
+      const [summary, body] = result.text.split('\n\n');
+      assert.equal(summary, `video ${video_id} finished with status ready`);
+      assert.deepEqual(JSON.parse(body).job, stored('videos', video_id));
+    });
+
+    test('wait_for_video reports a failed job as an error result', async () => {
+      const { video_id } = h.mock.seed('videos', { status: 'error', error_message: 'bad script' });
+      const result = await h.call('wait_for_video', { video_id });
+      assert.equal(result.isError, true);
+      assert.match(result.text, new RegExp(`^video ${video_id} failed with status error: bad script`));
+    });
+  });
+
+  describe('conversations', () => {
+    test('create_conversation', async () => {
+      const result = await h.call('create_conversation', { replica_id: replicaId, conversation_name: 'Demo' });
+      const request = h.request();
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, '/conversations');
+      assert.deepEqual(request.body, { replica_id: replicaId, conversation_name: 'Demo' });
+      const { conversation_id } = JSON.parse(result.text);
+      assert.equal(result.text, json(h.mock.get('conversations', conversation_id)));
+    });
+
+    test('get_conversation', async () => {
+      const { conversation_id } = h.mock.seed('conversations', { status: 'active' });
+      const result = await h.call('get_conversation', { conversation_id });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, `/conversations/${conversation_id}`);
+      assert.equal(result.text, json(stored('conversations', conversation_id)));
+    });
+
+    test('list_conversations', async () => {
+      const { conversation_id } = h.mock.seed('conversations', { status: 'active' });
+      const result = await h.call('list_conversations', { limit: 5 });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, '/conversations');
+      assert.deepEqual(request.query, { limit: '5' });
+      assert.equal(result.text, json({
+        data: [stored('conversations', conversation_id)],
+        total_count: 1,
+        page: 1,
+        limit: 5,
+        fetched_count: 1,
+        returned_count: 1,
+      }));
+    });
+
+    test('end_conversation', async () => {
+      const { conversation_id } = h.mock.seed('conversations', { status: 'active' });
+      const result = await h.call('end_conversation', { conversation_id });
+      const request = h.request();
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, `/conversations/${conversation_id}/end`);
+      assert.equal(request.body, undefined);
+      assert.equal(result.text, json({ conversation_id, status: 'ended' }));
+    });
+
+    test('delete_conversation', async () => {
+      const { conversation_id } = h.mock.seed('conversations', { status: 'ended' });
+      const result = await h.call('delete_conversation', { conversation_id });
+      const request = h.request();
+      assert.equal(request.method, 'DELETE');
+      assert.equal(request.path, `/conversations/${conversation_id}`);
+      assert.equal(result.text, `Successfully deleted conversation ${conversation_id}`);
+    });
+  });
+
+  describe('personas', () => {
+    test('create_persona', async () => {
+      const layers = {
+        llm: { model: 'tavus-gpt-4o-mini', tools: [{ type: 'function', function: { name: 'book_demo', parameters: { type: 'object' } } }] },
+        tts: { tts_engine: 'cartesia', voice_settings: { speed: 'fast', emotion: ['positivity:high'] } },
+        perception: { perception_model: 'raven-0', ambient_awareness_queries: ['Is the user smiling?'] },
+      };
+      const result = await h.call('create_persona', {
+        persona_name: 'Sales',
+        system_prompt: 'You sell things.',
+        replica_id: replicaId,
+        pipeline_mode: 'full',
+        layers,
+      });
+      const request = h.request();
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, '/personas');
+      assert.deepEqual(request.body, {
+        persona_name: 'Sales',
+        replica_id: replicaId,
+        system_prompt: 'You sell things.',
+        pipeline_mode: 'full',
+        layers,
+      });
+      const { persona_id } = JSON.parse(result.text);
+      assert.equal(result.text, json({
+        persona_id,
+        persona_name: 'Sales',
+        created_at: stored('personas', persona_id).created_at,
+      }));
+    });
+
+    test('create_persona rejects unknown layer fields', async () => {
+      h.requests();
+      await assert.rejects(
+        h.call('create_persona', { persona_name: 'Sales', layers: { stt: { stt_engine: 'tavus-turbo', invented_field: true } } }),
+        /Invalid arguments for create_persona: layers\.stt\.invented_field: unknown field; expected one of stt_engine, participant_pause_sensitivity, /
+      );
+      await assert.rejects(
+        h.call('create_persona', { persona_name: 'Sales', layers: { vqa: { enable_vision: true } } }),
+        /layers\.vqa: unknown field; expected one of stt, llm, tts, perception/
+      );
+      assert.deepEqual(h.requests(), []);
+    });
+
+    test('get_persona', async () => {
+      const { persona_id } = h.mock.seed('personas', { persona_name: 'Support' });
+      const result = await h.call('get_persona', { persona_id });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, `/personas/${persona_id}`);
+      assert.equal(result.text, json(stored('personas', persona_id)));
+      assert.ok(!result.texts.some((text) => text.includes('unrecognized_fields')));
+    });
+
+    test('get_persona lists fields the persona types do not cover', async () => {
+      const { persona_id } = h.mock.seed('personas', {
+        persona_name: 'Support',
+        layers: {
+          llm: { model: 'tavus-gpt-4o', temperature_hint: 'warm' },
+          stt: { stt_engine: 'tavus-advanced', hotwords: 'Tavus' },
+          vqa: { enable_vision: true },
+        },
+        pipeline_mode: 'full',
+        greeting: 'Hi',
+      });
+      const result = await h.call('get_persona', { persona_id });
+      assert.equal(result.text, json(stored('personas', persona_id)));
+      assert.equal(result.texts[1], json({
+        unrecognized_fields: {
+          greeting: 'Hi',
+          'layers.llm.temperature_hint': 'warm',
+          'layers.vqa': { enable_vision: true },
+        },
+      }));
+    });
+
+    test('list_personas', async () => {
+      const support = h.mock.seed('personas', { persona_name: 'Support' });
+      h.mock.seed('personas', { persona_name: 'Sales' });
+      const result = await h.call('list_personas', { name_contains: 'supp' });
+      assert.equal(h.request().path, '/personas');
+      assert.equal(result.text, json({
+        data: [stored('personas', support.persona_id)],
+        total_count: 2,
+        page: 1,
+        fetched_count: 2,
+        returned_count: 1,
+      }));
+    });
+
+    test('patch_persona', async () => {
+      const { persona_id } = h.mock.seed('personas', { persona_name: 'Support', context: 'old' });
+      const patch = [{ op: 'replace', path: '/context', value: 'new' }];
+      const result = await h.call('patch_persona', { persona_id, patch });
+      const [check, request] = h.requests();
+      assert.equal(check.method, 'GET');
+      assert.equal(check.path, `/personas/${persona_id}`);
+      assert.equal(request.method, 'PATCH');
+      assert.equal(request.path, `/personas/${persona_id}`);
+      assert.deepEqual(request.body, patch);
+      assert.equal(result.text, json(stored('personas', persona_id)));
+      assert.equal(stored('personas', persona_id).context, 'new');
+    });
+
+    test('patch_persona rejects a patch that does not apply before sending it', async () => {
+      const { persona_id } = h.mock.seed('personas', { persona_name: 'Support' });
+      await assert.rejects(
+        h.call('patch_persona', { persona_id, patch: [{ op: 'remove', path: '/layers/tts' }] }),
+        new RegExp(`Patch does not apply to persona ${persona_id}: Operation 0: path "/layers" does not exist`)
+      );
+      assert.deepEqual(h.requests().map((request) => request.method), ['GET']);
+    });
+
+    test('update_persona', async () => {
+      const { persona_id } = h.mock.seed('personas', {
+        persona_name: 'Support',
+        context: 'old',
+        layers: { llm: { model: 'tavus-gpt-4o' } },
+      });
+      const result = await h.call('update_persona', {
+        persona_id,
+        context: 'new',
+        layers: { tts: { tts_engine: 'cartesia' } },
+      });
+      const [current, request] = h.requests();
+      assert.equal(current.method, 'GET');
+      assert.equal(request.method, 'PATCH');
+      assert.equal(request.path, `/personas/${persona_id}`);
+      const patch = [
+        { op: 'replace', path: '/context', value: 'new' },
+        { op: 'add', path: '/layers/tts', value: { tts_engine: 'cartesia' } },
+      ];
+      assert.deepEqual(request.body, patch);
+      assert.equal(
+        result.text,
+        `Applied 2 operation(s) to persona ${persona_id}\n\n${json({ patch, response: stored('personas', persona_id) })}`
+      );
+    });
+
+    test('delete_persona', async () => {
+      const { persona_id } = h.mock.seed('personas', { persona_name: 'Support' });
+      const result = await h.call('delete_persona', { persona_id });
+      const request = h.request();
+      assert.equal(request.method, 'DELETE');
+      assert.equal(request.path, `/personas/${persona_id}`);
+      assert.equal(result.text, `Successfully deleted persona ${persona_id}`);
+    });
+  });
+
+  describe('lipsync', () => {
+    test('create_lipsync', async () => {
+      const args = { video_url: 'https://example.com/v.mp4', audio_url: 'https://example.com/a.mp3' };
+      const result = await h.call('create_lipsync', args);
+      const request = h.request();
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, '/lipsync');
+      assert.deepEqual(request.body, args);
+      const { lipsync_id } = JSON.parse(result.text);
+      assert.equal(result.text, json({
+        lipsync_id,
+        status: 'started',
+        created_at: stored('lipsync', lipsync_id).created_at,
+      }));
+    });
+
+    test('get_lipsync', async () => {
+      const { lipsync_id } = h.mock.seed('lipsync', { status: 'completed' });
+      const result = await h.call('get_lipsync', { lipsync_id });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, `/lipsync/${lipsync_id}`);
+      assert.equal(result.text, json(stored('lipsync', lipsync_id)));
+    });
+
+    test('list_lipsyncs', async () => {
+      const { lipsync_id } = h.mock.seed('lipsync', { status: 'completed' });
+      const result = await h.call('list_lipsyncs', { page: 1, limit: 20 });
+      const request = h.request();
+      assert.equal(request.path, '/lipsync');
+      assert.deepEqual(request.query, { limit: '20', page: '1' });
+      assert.equal(result.text, json({
+        data: [stored('lipsync', lipsync_id)],
+        total_count: 1,
+        page: 1,
+        limit: 20,
+        fetched_count: 1,
+        returned_count: 1,
+      }));
+    });
+
+    test('delete_lipsync', async () => {
+      const { lipsync_id } = h.mock.seed('lipsync', { status: 'completed' });
+      const result = await h.call('delete_lipsync', { lipsync_id });
+      const request = h.request();
+      assert.equal(request.method, 'DELETE');
+      assert.equal(request.path, `/lipsync/${lipsync_id}`);
+      assert.equal(result.text, `Successfully deleted lipsync ${lipsync_id}`);
+    });
+
+    test('wait_for_lipsync', async () => {
+      const { lipsync_id } = h.mock.seed('lipsync', { status: 'started', _steps: 0 });
+      const result = await h.call('wait_for_lipsync', { lipsync_id });
+      assert.equal(h.request().path, `/lipsync/${lipsync_id}`);
+      assert.equal(result.isError, false);
+      assert.match(result.text, new RegExp(`^lipsync ${lipsync_id} finished with status completed`));
+    });
+  });
+
+  describe('speech', () => {
+    test('generate_speech', async () => {
+      const result = await h.call('generate_speech', { replica_id: replicaId, script: 'Hi', speech_name: 'Greeting' });
+      const request = h.request();
+      assert.equal(request.method, 'POST');
+      assert.equal(request.path, '/speech');
+      assert.deepEqual(request.body, { replica_id: replicaId, script: 'Hi', speech_name: 'Greeting' });
+      const { speech_id } = JSON.parse(result.text);
+      assert.equal(result.text, json({
+        speech_id,
+        speech_name: 'Greeting',
+        status: 'started',
+        created_at: stored('speech', speech_id).created_at,
+      }));
+    });
+
+    test('get_speech', async () => {
+      const { speech_id } = h.mock.seed('speech', { status: 'ready' });
+      const result = await h.call('get_speech', { speech_id });
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, `/speech/${speech_id}`);
+      assert.equal(result.text, json(stored('speech', speech_id)));
+    });
+
+    test('list_speeches', async () => {
+      const { speech_id } = h.mock.seed('speech', { status: 'ready' });
+      const result = await h.call('list_speeches', {});
+      const request = h.request();
+      assert.equal(request.method, 'GET');
+      assert.equal(request.path, '/speech');
+      assert.equal(result.text, json({
+        data: [stored('speech', speech_id)],
+        total_count: 1,
+        page: 1,
+        fetched_count: 1,
+        returned_count: 1,
+      }));
+    });
+
+    test('delete_speech', async () => {
+      const { speech_id } = h.mock.seed('speech', { status: 'ready' });
+      const result = await h.call('delete_speech', { speech_id });
+      const request = h.request();
+      assert.equal(request.method, 'DELETE');
+      assert.equal(request.path, `/speech/${speech_id}`);
+      assert.equal(result.text, `Successfully deleted speech ${speech_id}`);
+    });
+
+    test('rename_speech', async () => {
+      const { speech_id } = h.mock.seed('speech', { speech_name: 'Old', status: 'ready' });
+      const result = await h.call('rename_speech', { speech_id, speech_name: 'New' });
+      const request = h.request();
+      assert.equal(request.method, 'PATCH');
+      assert.equal(request.path, `/speech/${speech_id}/name`);
+      assert.deepEqual(request.body, { speech_name: 'New' });
+      assert.equal(result.text, json(stored('speech', speech_id)));
+    });
+
+    test('wait_for_speech', async () => {
+      const { speech_id } = h.mock.seed('speech', { status: 'started', _steps: 0 });
+      const result = await h.call('wait_for_speech', { speech_id });
+      assert.equal(h.request().path, `/speech/${speech_id}`);
+      assert.match(result.text, new RegExp(`^speech ${speech_id} finished with status ready`));
+      assert.equal(JSON.parse(result.text.split('\n\n')[1]).job.audio_url, h.mock.mediaUrl(`speech/${speech_id}.mp3`));
+    });
+  });
+
+  describe('profiles', () => {
+    test('list_profiles', async () => {
+      const result = await h.call('list_profiles');
+      assert.deepEqual(h.requests(), []);
+      assert.equal(result.text, json([{
+        name: 'default',
+        base_url: h.mock.url,
+        api_key: '…',
+        source: 'env',
+        default: true,
+      }]));
+    });
+
+    test('set_default_profile', async () => {
+      const result = await h.call('set_default_profile', { profile: 'default' });
+      assert.deepEqual(h.requests(), []);
+      assert.equal(result.text, `Default profile for this session is now default (${h.mock.url})`);
+    });
+
+    test('set_default_profile changes only the calling session', async () => {
+      const tavus = createTestServer(h.mock, { TAVUS_PROFILE_STAGING_API_KEY: 'staging-key', TAVUS_CONFIRM_DESTRUCTIVE: 'true' });
+      const first = await connectClient(tavus);
+      const second = await connectClient(tavus);
+      const text = async (client: typeof first.client, name: string, args: Record<string, unknown> = {}) =>
+        ((await client.callTool({ name, arguments: args })).content as Array<{ text: string }>)[0].text;
+      try {
+        await text(first.client, 'set_default_profile', { profile: 'staging' });
+        assert.deepEqual(
+          JSON.parse(await text(second.client, 'list_profiles')).map((profile: any) => [profile.name, profile.default]),
+          [['default', true], ['staging', false]]
+        );
+
+        h.requests();
+        await text(first.client, 'get_replica', { replica_id: replicaId });
+        await text(second.client, 'get_replica', { replica_id: replicaId });
+        assert.deepEqual(h.requests().map((request) => request.headers['x-api-key']), ['staging-key', TEST_API_KEY]);
+
+        // A token issued under one profile does not delete under another
+        const { persona_id } = h.mock.seed('personas', { persona_name: 'Support' });
+        const token = (await text(first.client, 'delete_persona', { persona_id })).match(/confirm_token "(\w+)"/)![1];
+        await assert.rejects(
+          first.client.callTool({ name: 'delete_persona', arguments: { persona_id, confirm_token: token, profile: 'default' } }),
+          /confirm_token was issued for profile "staging", not "default"/
+        );
+        assert.ok(h.mock.get('personas', persona_id));
+      } finally {
+        await first.client.close();
+        await second.client.close();
+        await tavus.close();
+      }
+    });
+  });
+
+  describe('callback events', () => {
+    test('list_callback_events without a receiver', async () => {
+      await assert.rejects(h.call('list_callback_events'), /Callback receiver is disabled; set TAVUS_WEBHOOK_PORT/);
+    });
+
+    test('get_callback_events without a receiver', async () => {
+      await assert.rejects(h.call('get_callback_events', { id: 'v1' }), /Callback receiver is disabled/);
+    });
+  });
+});
+
+describe('tools with the callback receiver enabled', () => {
+  let h: Harness;
+  const callbackUrl = 'https://hooks.example.com/callbacks/s3cret';
+
+  before(async () => {
+    h = await startHarness({
+      TAVUS_WEBHOOK_PORT: '0',
+      TAVUS_WEBHOOK_PUBLIC_URL: 'https://hooks.example.com',
+      TAVUS_WEBHOOK_SECRET: 's3cret',
+    });
+  });
+
+  after(() => h.close());
+
+  test('fills in callback_url on creation calls', async () => {
+    const { replica_id } = h.mock.seed('replicas', { status: 'completed' });
+    await h.call('generate_video', { replica_id, script: 'Hi' });
+    assert.deepEqual(h.request().body, { replica_id, script: 'Hi', callback_url: callbackUrl });
+  });
+
+  test('list_callback_events', async () => {
+    const result = await h.call('list_callback_events');
+    assert.equal(result.text, json({ callback_url: callbackUrl, resources: [] }));
+  });
+
+  test('get_callback_events', async () => {
+    const result = await h.call('get_callback_events', { id: 'v123' });
+    assert.equal(result.text, 'No callbacks received for v123');
+  });
+});
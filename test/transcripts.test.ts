@@ -0,0 +1,132 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildTranscript, formatCueTime, formatTranscript } from '../src/transcripts.js';
+import { Harness, startHarness } from './harness.js';
+
+const conversation = {
+  conversation_id: 'c123',
+  conversation_name: 'Acme demo',
+  status: 'ended',
+  created_at: '2026-03-01T10:00:00.000Z',
+  events: [
+    { event_type: 'system.replica_joined', timestamp: '2026-03-01T10:00:05.000Z', properties: {} },
+    {
+      event_type: 'application.transcription_ready',
+      timestamp: '2026-03-01T10:00:47.000Z',
+      properties: {
+        transcript: [
+          { role: 'system', content: 'You are a sales rep.' },
+          { role: 'assistant', content: 'Hi there, thanks for joining the demo today.' },
+          { role: 'user', content: 'Hello.' },
+          { role: 'user', content: 'What does it cost?' },
+          { role: 'assistant', content: 'Plans start at ten --> per seat.' },
+        ],
+      },
+    },
+    { event_type: 'system.shutdown', timestamp: '2026-03-01T10:00:25.000Z', properties: { shutdown_reason: 'participant_left' } },
+    { event_type: 'application.perception_analysis', properties: { analysis: 'The participant looked engaged.' } },
+  ],
+};
+
+describe('transcripts', () => {
+  test('groups messages into turns spread over the conversation', () => {
+    const transcript = buildTranscript(conversation);
+    assert.equal(transcript.shutdown_reason, 'participant_left');
+    assert.equal(transcript.perception_analysis, 'The participant looked engaged.');
+    // 20 seconds between joining and shutdown, 20 words
+    assert.deepEqual(transcript.turns.map(({ speaker, text, start_seconds, end_seconds }) =>
+      [speaker, text, start_seconds, end_seconds]), [
+      ['Replica', 'Hi there, thanks for joining the demo today.', 0, 8],
+      ['Participant', 'Hello.\nWhat does it cost?', 8, 13],
+      ['Replica', 'Plans start at ten --> per seat.', 13, 20],
+    ]);
+    assert.equal(buildTranscript(conversation, true).turns[0].speaker, 'System');
+  });
+
+  test('falls back to a speaking rate when the end is unknown', () => {
+    const events = conversation.events.filter((event) => event.event_type === 'application.transcription_ready')
+      .map((event) => ({ ...event, timestamp: undefined }));
+    const [first] = buildTranscript({ ...conversation, events }).turns;
+    assert.equal(first.end_seconds, 3.2);
+  });
+
+  test('formats cue times', () => {
+    assert.equal(formatCueTime(3723.0456, ','), '01:02:03,046');
+    assert.equal(formatCueTime(0, '.'), '00:00:00.000');
+  });
+
+  test('writes each format', () => {
+    const transcript = buildTranscript(conversation);
+    assert.equal(formatTranscript(transcript, 'srt').split('\n\n')[1], [
+      '2',
+      '00:00:08,000 --> 00:00:13,000',
+      'Participant: Hello.',
+      'What does it cost?',
+    ].join('\n'));
+    const vtt = formatTranscript(transcript, 'vtt');
+    assert.ok(vtt.startsWith('WEBVTT\n\nNOTE '));
+    assert.match(vtt, /^<v Replica>Plans start at ten -> per seat\.$/m);
+
+    const lines = formatTranscript(transcript, 'jsonl').trimEnd().split('\n').map((line) => JSON.parse(line));
+    assert.equal(lines.length, 3);
+    assert.deepEqual(lines[1], {
+      conversation_id: 'c123',
+      timing: 'estimated',
+      index: 2,
+      role: 'user',
+      speaker: 'Participant',
+      text: 'Hello.\nWhat does it cost?',
+      start_seconds: 8,
+      end_seconds: 13,
+    });
+
+    const markdown = formatTranscript(transcript, 'markdown');
+    assert.match(markdown, /^# Transcript: Acme demo \(c123\)$/m);
+    assert.match(markdown, /^- Ended: 2026-03-01T10:00:25\.000Z \(participant_left\)$/m);
+    assert.match(markdown, /^\*\*Participant\*\* \[00:00:08\]: Hello\.  \nWhat does it cost\?$/m);
+    assert.match(markdown, /## Perception Analysis\n\nThe participant looked engaged\.\n$/);
+  });
+});
+
+describe('conversation transcript tools', () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness();
+  });
+
+  after(() => h.close());
+
+  const seedConversation = () => {
+    const { conversation_id: _, ...fields } = conversation;
+    return h.mock.seed('conversations', fields);
+  };
+
+  test('get_conversation only includes events when verbose', async () => {
+    const { conversation_id } = seedConversation();
+    const plain = JSON.parse((await h.call('get_conversation', { conversation_id })).text);
+    assert.equal(plain.events, undefined);
+
+    h.requests();
+    const verbose = JSON.parse((await h.call('get_conversation', { conversation_id, verbose: true })).text);
+    assert.equal(verbose.events.length, 4);
+    assert.deepEqual(h.request().query, { verbose: 'true' });
+  });
+
+  test('get_conversation_transcript', async () => {
+    const { conversation_id } = seedConversation();
+    const srt = await h.call('get_conversation_transcript', { conversation_id, format: 'srt' });
+    assert.ok(srt.text.startsWith('1\n00:00:00,000 --> 00:00:08,000\nReplica: Hi there'));
+
+    const markdown = await h.call('get_conversation_transcript', { conversation_id });
+    assert.ok(markdown.text.startsWith('# Transcript: Acme demo'));
+  });
+
+  test('get_conversation_transcript explains when there is no transcript yet', async () => {
+    const { conversation_id } = h.mock.seed('conversations', { status: 'active' });
+    await assert.rejects(
+      h.call('get_conversation_transcript', { conversation_id }),
+      new RegExp(`Conversation ${conversation_id} has no transcript yet \\(status: active\\)`)
+    );
+  });
+});
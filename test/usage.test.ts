@@ -0,0 +1,235 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BudgetExceededError, UsageMeter, estimateVideo, parseBudget, scriptMinutes } from '../src/usage.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('usage meter', () => {
+  let directory: string;
+  let clock: Date;
+  const now = () => clock;
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'tavus-usage-'));
+  });
+
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  test('parseBudget reads metric=limit lists and objects', () => {
+    assert.deepEqual(parseBudget('videos=20, video_minutes=7.5', 'TAVUS_BUDGET_DAILY'), { videos: 20, video_minutes: 7.5 });
+    assert.deepEqual(parseBudget({ conversations: 3 }, 'profiles.json'), { conversations: 3 });
+    assert.throws(() => parseBudget('clips=2', 'TAVUS_BUDGET_DAILY'), /unknown metric "clips" \(expected one of videos, /);
+    assert.throws(() => parseBudget('videos=', 'TAVUS_BUDGET_DAILY'), /videos needs a limit of zero or more/);
+  });
+
+  test('estimates minutes from scripts and audio', () => {
+    assert.equal(scriptMinutes(Array(300).fill('word').join(' ')), 2);
+    assert.deepEqual(estimateVideo({ audio_url: 'https://example.com/a.mp3' }, 90), { units: { videos: 1, video_minutes: 1.5 } });
+    assert.deepEqual(estimateVideo({ audio_url: 'https://example.com/a.mp3' }), { units: { videos: 1 }, unmeasured: true });
+  });
+
+  test('caps conversation minutes and stops the clock when a conversation ends', async () => {
+    clock = new Date('2026-03-01T10:00:00Z');
+    const meter = new UsageMeter({ budgets: {} }, now);
+    await meter.record({ tool: 'create_conversation', profile: 'default', resource_id: 'c1', units: { conversations: 1 }, max_duration_seconds: 600 });
+    await meter.record({ tool: 'create_conversation', profile: 'default', resource_id: 'c2', units: { conversations: 1 }, max_duration_seconds: 3600 });
+
+    clock = new Date('2026-03-01T10:30:00Z');
+    assert.equal(meter.used('default', 'daily').conversation_minutes, 40);
+    meter.observe('c2', 'ended');
+    await meter.flush();
+
+    clock = new Date('2026-03-01T11:00:00Z');
+    assert.equal(meter.used('default', 'daily').conversations, 2);
+    assert.equal(meter.used('default', 'daily').conversation_minutes, 40);
+  });
+
+  test('holds reserved units until they are recorded or released', async () => {
+    clock = new Date('2026-03-01T10:00:00Z');
+    const meter = new UsageMeter({ budgets: {} }, now);
+    const budgets = { daily: { videos: 2 } };
+    const first = meter.reserve('default', budgets, { videos: 1 });
+    const second = meter.reserve('default', budgets, { videos: 1 });
+    assert.throws(() => meter.reserve('default', budgets, { videos: 1 }), BudgetExceededError);
+
+    await meter.record({ tool: 'generate_video', profile: 'default', units: { videos: 1 } }, first);
+    meter.release(first);
+    assert.equal(meter.used('default', 'daily').videos, 2);
+    meter.release(second);
+    assert.equal(meter.used('default', 'daily').videos, 1);
+    meter.reserve('default', budgets, { videos: 1 });
+  });
+
+  test('daily usage persists, resets at UTC midnight and is kept out of a new session', async () => {
+    const file = join(directory, 'usage.jsonl');
+    clock = new Date('2026-03-01T23:00:00Z');
+    const first = new UsageMeter({ file, budgets: {} }, now);
+    await first.record({ tool: 'generate_video', profile: 'default', units: { videos: 1, video_minutes: 2 } });
+    assert.equal(readFileSync(file, 'utf8').trim().split('\n').length, 1);
+
+    clock = new Date('2026-03-01T23:30:00Z');
+    const second = new UsageMeter({ file, budgets: {} }, now);
+    assert.equal(second.used('default', 'daily').videos, 1);
+    assert.equal(second.used('default', 'session').videos, 0);
+    assert.throws(
+      () => second.check('default', { daily: { videos: 1 } }, { videos: 1 }),
+      (error: unknown) => error instanceof BudgetExceededError &&
+        error.metric === 'videos' &&
+        /^Daily budget for profile "default" exceeded: videos would reach 2 of the 1 allowed \(1 used so far\)\. .* resets at 2026-03-02T00:00:00\.000Z$/.test(error.message)
+    );
+
+    clock = new Date('2026-03-02T00:00:01Z');
+    assert.equal(second.used('default', 'daily').videos, 0);
+    second.check('default', { daily: { videos: 1 } }, { videos: 1 });
+  });
+
+  test('servers sharing the file enforce one daily budget', async () => {
+    const file = join(directory, 'shared-usage.jsonl');
+    clock = new Date('2026-03-01T10:00:00Z');
+    const first = new UsageMeter({ file, budgets: {} }, now);
+    const second = new UsageMeter({ file, budgets: {} }, now);
+    await first.record({ tool: 'generate_video', profile: 'default', units: { videos: 1 } });
+    await second.record({ tool: 'generate_video', profile: 'default', units: { videos: 1 } });
+    await first.record({ tool: 'create_conversation', profile: 'default', resource_id: 'c1', units: { conversations: 1 }, max_duration_seconds: 600 });
+    await second.end('c1');
+
+    assert.throws(() => first.check('default', { daily: { videos: 2 } }, { videos: 1 }), BudgetExceededError);
+    assert.equal(first.used('default', 'session').videos, 1);
+    assert.equal(second.used('default', 'daily').conversations, 1);
+    assert.equal(first.used('default', 'daily').conversation_minutes, 0);
+  });
+
+  test('an unreadable usage file does not stop the server', async (context) => {
+    const file = join(directory, 'broken-usage.jsonl');
+    writeFileSync(file, '{"version": 1,\n"records": [\n');
+    context.mock.method(console, 'error', () => {});
+    clock = new Date('2026-03-01T10:00:00Z');
+    const meter = new UsageMeter({ file, budgets: {} }, now);
+    assert.equal(meter.used('default', 'daily').videos, 0);
+    await meter.record({ tool: 'generate_video', profile: 'default', units: { videos: 1 } });
+    assert.equal(new UsageMeter({ file, budgets: {} }, now).used('default', 'daily').videos, 1);
+  });
+});
+
+describe('usage budgets', () => {
+  let h: Harness;
+  let replicaId: string;
+
+  before(async () => {
+    h = await startHarness({
+      TAVUS_BUDGET_DAILY: 'videos=3',
+      TAVUS_BUDGET_SESSION: 'video_minutes=1,speech_minutes=1',
+      TAVUS_PROFILE_TRIAL_API_KEY: 'trial-key',
+      TAVUS_PROFILE_TRIAL_BUDGET_DAILY: 'conversations=1',
+    });
+    replicaId = h.mock.seed('replicas', { status: 'completed' }).replica_id;
+  });
+
+  after(() => h.close());
+
+  beforeEach(() => {
+    h.requests();
+  });
+
+  test('blocks creation calls that would go over a budget without calling Tavus', async () => {
+    const script = Array(90).fill('hello').join(' ');
+    await h.call('generate_video', { replica_id: replicaId, script });
+
+    await assert.rejects(
+      h.call('generate_video', { replica_id: replicaId, script }),
+      /Session budget for profile "default" exceeded: video_minutes would reach 1\.2 of the 1 allowed \(0\.6 used so far\)\. Creation calls are blocked for the rest of this server session/
+    );
+    assert.deepEqual(h.requests().map(({ method }) => method), ['POST']);
+
+    await h.call('generate_speech', { replica_id: replicaId, script: 'Hello there' });
+    assert.equal(h.requests().length, 1);
+  });
+
+  test('checks a whole batch before submitting any row', async () => {
+    await assert.rejects(
+      h.call('generate_videos_batch', {
+        replica_id: replicaId,
+        script_template: 'Hi {{name}}',
+        recipients_csv: 'name\nAna\nLee\nSam\n',
+      }),
+      /Daily budget for profile "default" exceeded: videos would reach 4 of the 3 allowed/
+    );
+    assert.equal(h.requests().length, 0);
+
+    const result = await h.call('generate_videos_batch', {
+      replica_id: replicaId,
+      script_template: 'Hi {{name}}',
+      recipients_csv: 'name\nAna\nLee\n',
+    });
+    assert.match(result.text, /^Submitted 2 of 2 videos/);
+  });
+
+  test('applies profile budgets on top of the shared ones', async () => {
+    await h.call('create_conversation', { replica_id: replicaId, profile: 'trial' });
+    await assert.rejects(
+      h.call('create_conversation', { replica_id: replicaId, profile: 'trial' }),
+      /Daily budget for profile "trial" exceeded: conversations would reach 2 of the 1 allowed/
+    );
+    await h.call('create_conversation', { replica_id: replicaId });
+  });
+
+  test('get_usage reports usage, limits and what remains', async () => {
+    const result = await h.call('get_usage', { profile: 'default' });
+    assert.match(result.text, /^Usage for 1 profile\(s\), 1 with budgets\n\n/);
+    const [report] = JSON.parse(result.text.split('\n\n')[1]);
+    assert.equal(report.profile, 'default');
+    assert.equal(report.daily.used.videos, 3);
+    assert.deepEqual(report.daily.remaining, { videos: 0 });
+    assert.equal(report.daily.used.conversations, 1);
+    assert.deepEqual(report.session.limits, { video_minutes: 1, speech_minutes: 1 });
+    assert.equal(report.session.used.speech_minutes, 0.01);
+    assert.match(report.daily.resets_at, /T00:00:00\.000Z$/);
+
+    const all = JSON.parse((await h.call('get_usage')).text.split('\n\n')[1]);
+    assert.deepEqual(all.map((entry: { profile: string }) => entry.profile).sort(), ['default', 'trial']);
+  });
+
+  test('end_conversation stops counting conversation minutes', async () => {
+    const conversation = JSON.parse((await h.call('create_conversation', { replica_id: replicaId, properties: { max_call_duration: 60 } })).text);
+    await h.call('end_conversation', { conversation_id: conversation.conversation_id });
+    const [report] = JSON.parse((await h.call('get_usage', { profile: 'default' })).text.split('\n\n')[1]);
+    assert.ok(report.daily.used.conversation_minutes < 1);
+    const body = h.requests().find(({ method, path }) => method === 'POST' && path === '/conversations')?.body as any;
+    assert.deepEqual(body.properties, { max_call_duration: 60 });
+  });
+});
+
+describe('usage budgets under concurrent calls', () => {
+  let h: Harness;
+  let replicaId: string;
+
+  before(async () => {
+    h = await startHarness({ TAVUS_BUDGET_DAILY: 'videos=1', TAVUS_MAX_RETRIES: '0' });
+    replicaId = h.mock.seed('replicas', { status: 'completed' }).replica_id;
+  });
+
+  after(() => h.close());
+
+  test('a failed call gives its units back', async () => {
+    h.mock.failNext({ status: 500 });
+    await assert.rejects(h.call('generate_video', { replica_id: replicaId, script: 'Hello' }), /HTTP 500/);
+    const [report] = JSON.parse((await h.call('get_usage', { profile: 'default' })).text.split('\n\n')[1]);
+    assert.equal(report.daily.used.videos, 0);
+  });
+
+  test('calls made at the same time cannot together go over a budget', async () => {
+    h.requests();
+    const results = await Promise.allSettled([
+      h.call('generate_video', { replica_id: replicaId, script: 'Hello' }),
+      h.call('generate_video', { replica_id: replicaId, script: 'Hello' }),
+    ]);
+    assert.deepEqual(results.map(({ status }) => status).sort(), ['fulfilled', 'rejected']);
+    assert.match(
+      String((results.find(({ status }) => status === 'rejected') as PromiseRejectedResult).reason),
+      /Daily budget for profile "default" exceeded: videos would reach 2 of the 1 allowed/
+    );
+    assert.equal(h.requests().length, 1);
+  });
+});
@@ -0,0 +1,96 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallbackEvent, CallbackReceiver } from '../src/webhooks.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('callback receiver', () => {
+  let receiver: CallbackReceiver;
+  const received: CallbackEvent[] = [];
+
+  const send = (url: string, body: string) =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  before(async () => {
+    receiver = new CallbackReceiver({ port: 0, host: '127.0.0.1', secret: 's3cret' }, (event) => received.push(event));
+    await receiver.start();
+  });
+
+  after(() => receiver.close());
+
+  test('records callbacks by the resource they name', async () => {
+    assert.match(receiver.callbackUrl, /^http:\/\/127\.0\.0\.1:\d+\/callbacks\/s3cret$/);
+    const response = await send(receiver.callbackUrl, JSON.stringify({ video_id: 'v1', status: 'ready', hosted_url: 'https://videos.example.com/v1' }));
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { received: 1 });
+
+    const [event] = receiver.getEvents('v1');
+    assert.equal(event.id_field, 'video_id');
+    assert.equal(event.status, 'ready');
+    assert.deepEqual(event.payload, { video_id: 'v1', status: 'ready', hosted_url: 'https://videos.example.com/v1' });
+    assert.deepEqual(received, [event]);
+    assert.deepEqual(receiver.summarize('replica_id'), []);
+    assert.equal(receiver.summarize('video_id')[0].latest_status, 'ready');
+  });
+
+  test('rejects other paths, methods and bodies', async () => {
+    const base = receiver.callbackUrl.replace('/callbacks/s3cret', '');
+    assert.equal((await send(`${base}/callbacks/guess`, '{}')).status, 404);
+    assert.equal((await fetch(receiver.callbackUrl)).status, 405);
+    assert.equal((await send(receiver.callbackUrl, 'not json')).status, 400);
+  });
+});
+
+describe('callback tools', () => {
+  let h: Harness;
+  let replicaId: string;
+
+  before(async () => {
+    h = await startHarness({
+      TAVUS_WEBHOOK_PORT: '0',
+      TAVUS_WEBHOOK_SECRET: 's3cret',
+      TAVUS_WEBHOOK_PUBLIC_URL: 'https://hooks.example.com/',
+    });
+    replicaId = h.mock.seed('replicas', { status: 'completed' }).replica_id;
+  });
+
+  after(() => h.close());
+
+  test('fills in callback_url for creation calls that leave it out', async () => {
+    h.requests();
+    await h.call('generate_video', { replica_id: replicaId, script: 'Hello' });
+    assert.equal((h.request().body as any).callback_url, 'https://hooks.example.com/callbacks/s3cret');
+
+    await h.call('generate_video', { replica_id: replicaId, script: 'Hello', callback_url: 'https://example.com/own' });
+    assert.equal((h.request().body as any).callback_url, 'https://example.com/own');
+  });
+
+  test('list_callback_events reports the callback URL', async () => {
+    const result = JSON.parse((await h.call('list_callback_events')).text);
+    assert.deepEqual(result, { callback_url: 'https://hooks.example.com/callbacks/s3cret', resources: [] });
+    assert.equal((await h.call('get_callback_events', { id: 'v1' })).text, 'No callbacks received for v1');
+  });
+
+  test('leaves callback_url out without a public URL', async (context) => {
+    context.mock.method(console, 'error', () => {});
+    const local = await startHarness({ TAVUS_WEBHOOK_PORT: '0', TAVUS_WEBHOOK_SECRET: 's3cret' });
+    try {
+      const { replica_id } = local.mock.seed('replicas', { status: 'completed' });
+      await local.call('generate_video', { replica_id, script: 'Hello' });
+      assert.deepEqual(local.request().body, { replica_id, script: 'Hello' });
+    } finally {
+      await local.close();
+    }
+  });
+
+  test('callback tools need the receiver', async () => {
+    const plain = await startHarness();
+    try {
+      await assert.rejects(
+        plain.call('list_callback_events'),
+        /Callback receiver is disabled; set TAVUS_WEBHOOK_PORT to enable it/
+      );
+    } finally {
+      await plain.close();
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseYaml, toYaml } from '../src/yaml.js';
+
+describe('yaml', () => {
+  const document = {
+    name: 'Support',
+    count: 3,
+    ratio: 0.5,
+    enabled: false,
+    missing: null,
+    quoted: ['true', '42', 'yes', '- dash', 'key: value', ' padded', '', '\n', '\n\n'],
+    prompt: 'You are helpful.\n\nKeep answers short.\n',
+    unterminated: 'line one\nline two',
+    nested: { list: [{ a: 1, b: [1, 2] }, [3, 4]], empty: {}, none: [] },
+    'odd key': 'x',
+  };
+
+  test('round-trips what it writes', () => {
+    const text = toYaml(document);
+    assert.deepEqual(parseYaml(text), document);
+    assert.match(text, /^prompt: \|\n  You are helpful\.\n\n  Keep answers short\.\n/m);
+    assert.match(text, /^unterminated: \|-\n/m);
+    assert.match(text, /^  - "true"$/m);
+    assert.match(text, /^"odd key": x$/m);
+  });
+
+  test('reads hand-written YAML', () => {
+    const text = [
+      '# A persona',
+      '---',
+      'persona:',
+      '  persona_name: "Sales #1"  # trailing comment',
+      "  context: 'It''s quoted'",
+      '  tags: [a, "b, c", 3]',
+      '  settings: {speed: fast, emotion: [calm]}',
+      '  folded: >',
+      '    one',
+      '    two',
+      '',
+      '    three',
+      '  keep: |+',
+      '    x',
+      '',
+      'items:',
+      '- name: first',
+      '  value: ~',
+      '-',
+      '  - nested',
+    ].join('\n');
+    assert.deepEqual(parseYaml(text), {
+      persona: {
+        persona_name: 'Sales #1',
+        context: "It's quoted",
+        tags: ['a', 'b, c', 3],
+        settings: { speed: 'fast', emotion: ['calm'] },
+        folded: 'one two\nthree\n',
+        keep: 'x\n\n',
+      },
+      items: [{ name: 'first', value: null }, ['nested']],
+    });
+  });
+
+  test('reports errors with line numbers', () => {
+    assert.throws(() => parseYaml('a: 1\na: 2'), /Line 2: duplicate key "a"/);
+    assert.throws(() => parseYaml('a:\n    b: 1\n  c: 2'), /Line 3: unexpected indentation/);
+    assert.throws(() => parseYaml('a: &anchor 1'), /Line 1: anchors, aliases and tags are not supported/);
+    assert.throws(() => parseYaml('a: "open'), /Line 1: unterminated quoted string/);
+    assert.throws(() => parseYaml('a: 1\n---\nb: 2'), /Line 2: only a single YAML document is supported/);
+    assert.throws(() => parseYaml('a: b: c'), /Line 1: a mapping cannot start on the same line as its key/);
+    assert.throws(() => parseYaml('- a: b:'), /Line 1: a mapping cannot start on the same line as its key/);
+    assert.throws(() => parseYaml('? complex\n: value'), /Line 1: complex keys \("\? key"\) are not supported/);
+    assert.throws(() => parseYaml('a:\n  ? b: c'), /Line 2: complex keys/);
+  });
+});